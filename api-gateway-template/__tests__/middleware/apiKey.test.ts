@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Tests for API key authentication
+ *
+ * This file tests key lookup by hash, per-key plan rate limits and the daily
+ * and monthly quota responses.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { requireApiKey } from '../../src/middleware/apiKey';
+import {
+  ApiKeyRegistry,
+  QuotaTracker,
+  StaticApiKeySource,
+  hashApiKey,
+} from '../../src/utils/apiKeys';
+import { MemoryStore } from '../../src/utils/store';
+import { ApiKeyPlan } from '../../src/types';
+import { AppError } from '../../src/errors';
+
+const plans: ApiKeyPlan[] = [
+  { name: 'limited', rateLimit: { windowMs: 60000, max: 2 } },
+  { name: 'metered', quota: { daily: 2, monthly: 100 } },
+];
+
+/**
+ * Build a minimal app protected by API keys
+ */
+function createApp(now: () => number = Date.now): express.Express {
+  const registry = new ApiKeyRegistry(
+    plans,
+    new StaticApiKeySource([
+      { id: 'acme', hash: hashApiKey('acme-key'), plan: 'limited', roles: ['partner'] },
+      { id: 'globex', hash: hashApiKey('globex-key'), plan: 'metered' },
+      { id: 'revoked', hash: hashApiKey('revoked-key'), plan: 'limited', disabled: true },
+    ])
+  );
+
+  const app = express();
+  app.use(requireApiKey({ registry, quotas: new QuotaTracker(new MemoryStore(), now) }));
+  app.get('/data', (req, res) => {
+    res.json({ user: (req as any).user });
+  });
+  app.use((error: AppError, req: express.Request, res: express.Response, _next: unknown) => {
+    res.status(error.status ?? 500).json({ code: error.code });
+  });
+  return app;
+}
+
+describe('requireApiKey', () => {
+  it('should authenticate a known key and populate req.user', async () => {
+    const response = await request(createApp()).get('/data').set('X-API-Key', 'acme-key');
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toEqual({
+      sub: 'acme',
+      roles: ['partner'],
+      plan: 'limited',
+      authMethod: 'api-key',
+    });
+  });
+
+  it('should map missing and unknown keys to AUTH_REQUIRED and INVALID_TOKEN', async () => {
+    const app = createApp();
+
+    expect((await request(app).get('/data')).body.code).toBe('AUTH_REQUIRED');
+    expect((await request(app).get('/data').set('X-API-Key', 'nope')).body.code).toBe(
+      'INVALID_TOKEN'
+    );
+    expect((await request(app).get('/data').set('X-API-Key', 'revoked-key')).status).toBe(401);
+  });
+
+  it('should apply the plan rate limit per key', async () => {
+    const app = createApp();
+
+    await request(app).get('/data').set('X-API-Key', 'acme-key');
+    await request(app).get('/data').set('X-API-Key', 'acme-key');
+    const limited = await request(app).get('/data').set('X-API-Key', 'acme-key');
+
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.code).toBe('RATE_LIMITED');
+  });
+
+  it('should enforce daily quotas until the next UTC day', async () => {
+    let now = Date.UTC(2024, 0, 15, 23, 59, 0);
+    const app = createApp(() => now);
+
+    const first = await request(app).get('/data').set('X-API-Key', 'globex-key');
+    expect(first.headers['x-quota-remaining']).toBe('1');
+    await request(app).get('/data').set('X-API-Key', 'globex-key');
+
+    const exhausted = await request(app).get('/data').set('X-API-Key', 'globex-key');
+    expect(exhausted.status).toBe(429);
+    expect(exhausted.body.error.code).toBe('RATE_LIMITED');
+    expect(exhausted.headers['retry-after']).toBe('60');
+    expect(exhausted.headers['x-quota-remaining']).toBe('0');
+
+    now = Date.UTC(2024, 0, 16, 0, 0, 1);
+    const nextDay = await request(app).get('/data').set('X-API-Key', 'globex-key');
+    expect(nextDay.status).toBe(200);
+  });
+});
+
+describe('QuotaTracker', () => {
+  it('should report the tightest remaining quota', async () => {
+    const tracker = new QuotaTracker(new MemoryStore(), () => Date.UTC(2024, 0, 31, 12));
+
+    expect(await tracker.consume('acme', { daily: 10, monthly: 3 })).toEqual({
+      allowed: true,
+      remaining: 2,
+    });
+    expect(await tracker.consume('acme', undefined)).toEqual({ allowed: true });
+  });
+
+  it('should not count rejected requests against any period', async () => {
+    let now = Date.UTC(2024, 0, 15, 12);
+    const tracker = new QuotaTracker(new MemoryStore(), () => now);
+    const quota = { daily: 1, monthly: 3 };
+
+    expect(await tracker.consume('acme', quota)).toEqual({ allowed: true, remaining: 0 });
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await tracker.consume('acme', quota)).toMatchObject({ allowed: false });
+    }
+
+    now = Date.UTC(2024, 0, 16, 12);
+    expect(await tracker.consume('acme', quota)).toEqual({ allowed: true, remaining: 0 });
+    now = Date.UTC(2024, 0, 17, 12);
+    expect(await tracker.consume('acme', quota)).toEqual({ allowed: true, remaining: 0 });
+    now = Date.UTC(2024, 0, 18, 12);
+    expect(await tracker.consume('acme', quota)).toMatchObject({
+      allowed: false,
+      remaining: 0,
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Tests for JWT authentication and role guards
+ *
+ * This file tests HS256 and RS256 (JWKS) token verification, issuer, audience
+ * and expiry checks, JWKS caching and the error codes of the role guard.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { authenticate, requireRoles } from '../../src/middleware/auth';
+import { JwksKeyStore, JwtVerifier } from '../../src/utils/jwt';
+import { JwtConfig } from '../../src/config';
+import { AppError } from '../../src/errors';
+
+const SECRET = 'test-secret';
+
+const baseConfig: JwtConfig = {
+  secret: SECRET,
+  publicKey: '',
+  jwksUri: '',
+  jwksCacheTtl: 600000,
+  issuer: 'https://issuer.test',
+  audience: ['api-gateway'],
+  algorithms: ['HS256', 'RS256'],
+  clockTolerance: 0,
+};
+
+/**
+ * Sign an HS256 token with the expected issuer and audience
+ */
+function signHs256(claims: object, options: jwt.SignOptions = {}): string {
+  return jwt.sign(claims, SECRET, {
+    algorithm: 'HS256',
+    issuer: 'https://issuer.test',
+    audience: 'api-gateway',
+    expiresIn: 60,
+    ...options,
+  });
+}
+
+/**
+ * Build a minimal app that authenticates and guards `/admin`
+ */
+function createApp(verifier: JwtVerifier): express.Express {
+  const app = express();
+  app.use(authenticate({ verifier }));
+  app.get('/me', (req, res) => {
+    res.json({ user: (req as any).user });
+  });
+  app.get('/admin', requireRoles('admin'), (req, res) => {
+    res.json({ ok: true });
+  });
+  app.use((error: AppError, req: express.Request, res: express.Response, _next: unknown) => {
+    res.status(error.status ?? 500).json({ code: error.code, message: error.message });
+  });
+  return app;
+}
+
+describe('authenticate (HS256)', () => {
+  const app = createApp(new JwtVerifier(baseConfig));
+
+  it('should populate req.user from a valid token', async () => {
+    const token = signHs256({ sub: 'user-1', roles: ['user'] });
+    const response = await request(app).get('/me').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ sub: 'user-1', roles: ['user'] });
+  });
+
+  it('should reject missing tokens with AUTH_REQUIRED', async () => {
+    const response = await request(app).get('/me');
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('AUTH_REQUIRED');
+  });
+
+  it.each([
+    ['expired', signHs256({ sub: 'user-1' }, { expiresIn: -10 })],
+    ['wrong issuer', signHs256({ sub: 'user-1' }, { issuer: 'https://evil.test' })],
+    ['wrong audience', signHs256({ sub: 'user-1' }, { audience: 'other-api' })],
+    ['wrong signature', jwt.sign({ sub: 'user-1' }, 'other-secret', { algorithm: 'HS256' })],
+    ['malformed', 'not-a-jwt'],
+  ])('should reject %s tokens with INVALID_TOKEN', async (_label, token) => {
+    const response = await request(app).get('/me').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('INVALID_TOKEN');
+  });
+
+  it('should let anonymous requests through when optional', async () => {
+    const optionalApp = express();
+    optionalApp.use(authenticate({ optional: true, verifier: new JwtVerifier(baseConfig) }));
+    optionalApp.get('/me', (req, res) => {
+      res.json({ authenticated: Boolean((req as any).user) });
+    });
+
+    const response = await request(optionalApp).get('/me');
+    expect(response.body).toEqual({ authenticated: false });
+  });
+});
+
+describe('requireRoles', () => {
+  const app = createApp(new JwtVerifier(baseConfig));
+
+  it('should allow users holding a required role', async () => {
+    const token = signHs256({ sub: 'admin-1', roles: ['admin'] });
+    const response = await request(app).get('/admin').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject users without the role with FORBIDDEN', async () => {
+    const token = signHs256({ sub: 'user-1', role: 'user' });
+    const response = await request(app).get('/admin').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('FORBIDDEN');
+  });
+});
+
+describe('authenticate (RS256 with JWKS)', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwksFile = path.join(os.tmpdir(), `jwks-${process.pid}.json`);
+
+  beforeAll(() => {
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [jwk] }));
+  });
+
+  afterAll(() => {
+    fs.rmSync(jwksFile, { force: true });
+  });
+
+  /**
+   * Sign an RS256 token with the generated key pair
+   */
+  function signRs256(kid: string): string {
+    return jwt.sign({ sub: 'user-1' }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer: 'https://issuer.test',
+      audience: 'api-gateway',
+      expiresIn: 60,
+    });
+  }
+
+  it('should verify tokens against the key matching their kid', async () => {
+    const app = createApp(new JwtVerifier({ ...baseConfig, secret: '', jwksUri: jwksFile }));
+    const response = await request(app)
+      .get('/me')
+      .set('Authorization', `Bearer ${signRs256('key-1')}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user.sub).toBe('user-1');
+  });
+
+  it('should reject tokens signed with an unknown kid', async () => {
+    const app = createApp(new JwtVerifier({ ...baseConfig, secret: '', jwksUri: jwksFile }));
+    const response = await request(app)
+      .get('/me')
+      .set('Authorization', `Bearer ${signRs256('key-2')}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('INVALID_TOKEN');
+  });
+
+  it('should reuse the loaded document until the cache expires', async () => {
+    let now = 0;
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+    const keyStore = new JwksKeyStore({ uri: jwksFile, cacheTtl: 1000, now: () => now });
+
+    await keyStore.getKey('key-1');
+    await keyStore.getKey('key-1');
+    expect(readFile).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await keyStore.getKey('key-1');
+    expect(readFile).toHaveBeenCalledTimes(2);
+
+    readFile.mockRestore();
+  });
+
+  it('should not accept an HS256 token signed with the public key', async () => {
+    const app = createApp(new JwtVerifier({ ...baseConfig, secret: '', jwksUri: jwksFile }));
+    const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+    const forged = jwt.sign({ sub: 'attacker' }, pem, { algorithm: 'HS256' });
+
+    const response = await request(app).get('/me').set('Authorization', `Bearer ${forged}`);
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('INVALID_TOKEN');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for the health check middleware
+ *
+ * This file tests the criticality-aware overall status and the liveness,
+ * readiness and startup probes.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import {
+  determineOverallStatus,
+  livenessProbe,
+  readinessProbe,
+  startupProbe,
+} from '../../src/middleware/healthCheck';
+import { healthMonitor } from '../../src/utils/healthMonitor';
+import { markStarted, resetLifecycle, setDraining } from '../../src/utils/lifecycle';
+import { ServiceHealthStatus } from '../../src/types';
+import config from '../../src/config';
+
+/**
+ * Service status fixture
+ */
+function service(status: 'healthy' | 'unhealthy', critical: boolean): ServiceHealthStatus {
+  return { status, critical, lastChecked: new Date().toISOString() };
+}
+
+describe('determineOverallStatus', () => {
+  it('should only be unhealthy when a critical service is down', () => {
+    expect(determineOverallStatus({})).toBe('healthy');
+    expect(
+      determineOverallStatus({ a: service('healthy', true), b: service('unhealthy', false) })
+    ).toBe('degraded');
+    expect(
+      determineOverallStatus({ a: service('unhealthy', true), b: service('healthy', false) })
+    ).toBe('unhealthy');
+    expect(
+      determineOverallStatus({ a: service('unhealthy', false), b: service('unhealthy', false) })
+    ).toBe('degraded');
+  });
+});
+
+describe('orchestrator probes', () => {
+  let services: Record<string, ServiceHealthStatus>;
+  const app = express();
+  app.get('/health/live', livenessProbe);
+  app.get('/health/ready', readinessProbe);
+  app.get('/health/startup', startupProbe);
+
+  beforeEach(() => {
+    // Criticality comes from the service configuration
+    config.SERVICES.serviceA!.critical = true;
+    services = { serviceA: service('healthy', false), serviceB: service('healthy', false) };
+    jest.spyOn(healthMonitor, 'hasTargets').mockReturnValue(true);
+    jest.spyOn(healthMonitor, 'isRunning').mockReturnValue(true);
+    jest.spyOn(healthMonitor, 'getServiceHealth').mockImplementation(() => services);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetLifecycle();
+    config.SERVICES.serviceA!.critical = false;
+  });
+
+  it('should report liveness regardless of startup', async () => {
+    const response = await request(app).get('/health/live');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('alive');
+  });
+
+  it('should report startup and readiness only once started', async () => {
+    expect((await request(app).get('/health/startup')).status).toBe(503);
+    expect((await request(app).get('/health/ready')).status).toBe(503);
+
+    markStarted();
+
+    expect((await request(app).get('/health/startup')).status).toBe(200);
+    const ready = await request(app).get('/health/ready');
+    expect(ready.status).toBe(200);
+    expect(ready.body.data.services).toEqual({
+      serviceA: { status: 'healthy', critical: true },
+      serviceB: { status: 'healthy', critical: false },
+    });
+  });
+
+  it('should fail readiness while draining or while a critical service is down', async () => {
+    markStarted();
+    setDraining(true);
+    const draining = await request(app).get('/health/ready');
+    expect(draining.status).toBe(503);
+    expect(draining.body.data).toEqual(
+      expect.objectContaining({ status: 'not_ready', draining: true })
+    );
+
+    setDraining(false);
+    services = { serviceA: service('healthy', false), serviceB: service('unhealthy', false) };
+    expect((await request(app).get('/health/ready')).status).toBe(200);
+
+    services = { serviceA: service('unhealthy', false), serviceB: service('healthy', false) };
+    expect((await request(app).get('/health/ready')).status).toBe(503);
+  });
+
+  it('should stay ready when every optional service is down', async () => {
+    markStarted();
+    config.SERVICES.serviceA!.critical = false;
+    services = { serviceA: service('unhealthy', false), serviceB: service('unhealthy', false) };
+
+    const ready = await request(app).get('/health/ready');
+    expect(ready.status).toBe(200);
+    expect(ready.body.data.status).toBe('ready');
+  });
+});
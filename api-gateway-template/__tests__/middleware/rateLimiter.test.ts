@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Tests for the rate limiter store adapter
+ *
+ * This file tests that rate limiters backed by the shared store count hits
+ * across gateway replicas and reset with the window, the identity key
+ * strategies, layered limits and the sliding window and token bucket
+ * algorithms.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import rateLimit from 'express-rate-limit';
+import RedisMock from 'ioredis-mock';
+import {
+  SharedRateLimitStore,
+  SlidingWindowRateLimitStore,
+  TokenBucketRateLimitStore,
+  createRateLimiter,
+  getRateLimitKey,
+} from '../../src/middleware/rateLimiter';
+import { RedisStore } from '../../src/utils/redisStore';
+import { MemoryStore } from '../../src/utils/store';
+
+/**
+ * Build a minimal app rate limited through the given store
+ */
+function createApp(store: SharedRateLimitStore): express.Express {
+  const app = express();
+  app.use(rateLimit({ windowMs: 60000, max: 2, standardHeaders: true, store }));
+  app.get('/ping', (req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+describe('SharedRateLimitStore', () => {
+  it('should enforce one limit across replicas sharing a Redis-protocol store', async () => {
+    const client = new RedisMock();
+    await client.flushall();
+    const replicaA = createApp(
+      new SharedRateLimitStore('test', new RedisStore({ client, prefix: 'rl:' }))
+    );
+    const replicaB = createApp(
+      new SharedRateLimitStore('test', new RedisStore({ client, prefix: 'rl:' }))
+    );
+
+    expect((await request(replicaA).get('/ping')).status).toBe(200);
+    expect((await request(replicaB).get('/ping')).status).toBe(200);
+
+    const limited = await request(replicaA).get('/ping');
+    expect(limited.status).toBe(429);
+
+    client.disconnect();
+  });
+
+  it('should report the remaining hits and reset time', async () => {
+    const store = new SharedRateLimitStore('test', new MemoryStore());
+
+    store.init({ windowMs: 60000 } as any);
+    const first = await store.increment('client');
+    const second = await store.increment('client');
+
+    expect(first.totalHits).toBe(1);
+    expect(second.totalHits).toBe(2);
+    expect(second.resetTime!.getTime()).toBeGreaterThan(Date.now());
+
+    await store.resetKey('client');
+    expect(await store.get('client')).toBeUndefined();
+  });
+});
+
+describe('rate limit key strategies', () => {
+  /**
+   * Build a request carrying an optional user and headers
+   */
+  function fakeRequest(user?: object, headers: Record<string, string> = {}): express.Request {
+    return {
+      ip: '10.0.0.1',
+      user,
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as express.Request;
+  }
+
+  it('should key by identity and fall back to the client IP', () => {
+    expect(getRateLimitKey(fakeRequest())).toBe('ip:10.0.0.1');
+    expect(getRateLimitKey(fakeRequest({ sub: 'u1' }), 'user')).toBe('user:u1');
+    expect(getRateLimitKey(fakeRequest(), 'user')).toBe('ip:10.0.0.1');
+    expect(getRateLimitKey(fakeRequest({ sub: 'u1' }), 'apiKey')).toBe('ip:10.0.0.1');
+    expect(getRateLimitKey(fakeRequest({ sub: 'acme', authMethod: 'api-key' }), 'apiKey')).toBe(
+      'apiKey:acme'
+    );
+    expect(getRateLimitKey(fakeRequest(undefined, { 'x-tenant-id': 't1' }), 'tenant')).toBe(
+      'tenant:t1'
+    );
+    expect(getRateLimitKey(fakeRequest(), () => 'custom-id')).toBe('custom:custom-id');
+  });
+
+  it('should count users separately even when they share an IP', async () => {
+    const app = express();
+    app.use((req, res, next) => {
+      (req as any).user = { sub: req.get('x-user') };
+      next();
+    });
+    app.use(createRateLimiter({ keyBy: 'user', windowMs: 60000, max: 1 }));
+    app.get('/ping', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    expect((await request(app).get('/ping').set('x-user', 'alice')).status).toBe(200);
+    expect((await request(app).get('/ping').set('x-user', 'bob')).status).toBe(200);
+    expect((await request(app).get('/ping').set('x-user', 'alice')).status).toBe(429);
+  });
+
+  it('should enforce every layer and report the most restrictive limit', async () => {
+    const app = express();
+    app.use(
+      createRateLimiter({
+        layers: [
+          { keyBy: 'ip', windowMs: 60000, max: 10 },
+          { keyBy: 'tenant', windowMs: 60000, max: 2 },
+        ],
+      })
+    );
+    app.get('/ping', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const first = await request(app).get('/ping').set('x-tenant-id', 'acme');
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+
+    await request(app).get('/ping').set('x-tenant-id', 'acme');
+    const limited = await request(app).get('/ping').set('x-tenant-id', 'acme');
+    expect(limited.status).toBe(429);
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+
+    const otherTenant = await request(app).get('/ping').set('x-tenant-id', 'globex');
+    expect(otherTenant.status).toBe(200);
+    expect(otherTenant.headers['ratelimit-limit']).toBe('2');
+  });
+});
+
+describe('SlidingWindowRateLimitStore', () => {
+  it('should weight the previous window by its remaining overlap', async () => {
+    let now = 0;
+    const store = new SlidingWindowRateLimitStore('sliding', new MemoryStore(), () => now);
+    store.init({ windowMs: 1000 } as any);
+
+    for (let i = 0; i < 10; i++) {
+      await store.increment('client');
+    }
+
+    // A quarter into the next window, 75% of the previous window still counts
+    now = 1250;
+    expect((await store.increment('client')).totalHits).toBe(1 + 7);
+
+    now = 2500;
+    expect((await store.increment('client')).totalHits).toBe(1);
+  });
+
+  it('should keep at most two windows per client in the store', async () => {
+    let now = 0;
+    const memory = new MemoryStore({ sweepInterval: 0 });
+    const store = new SlidingWindowRateLimitStore('bounded', memory, () => now);
+    store.init({ windowMs: 1000 } as any);
+
+    for (let window = 0; window < 50; window++) {
+      now = window * 1000;
+      await store.increment('client-a');
+      await store.increment('client-b');
+    }
+
+    expect(await memory.size()).toBe(4);
+  });
+
+  it('should not allow a double budget across a window boundary', async () => {
+    let now = 900;
+    const app = express();
+    app.use(
+      rateLimit({
+        windowMs: 1000,
+        max: 5,
+        standardHeaders: true,
+        store: new SlidingWindowRateLimitStore('boundary', new MemoryStore(), () => now),
+      })
+    );
+    app.get('/ping', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    for (let i = 0; i < 5; i++) {
+      expect((await request(app).get('/ping')).status).toBe(200);
+    }
+
+    // A fixed window would grant 5 more requests here
+    now = 1100;
+    expect((await request(app).get('/ping')).status).toBe(200);
+    const response = await request(app).get('/ping');
+    expect(response.status).toBe(429);
+    expect(response.headers['ratelimit-limit']).toBe('5');
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+  });
+});
+
+describe('TokenBucketRateLimitStore', () => {
+  it('should allow a burst and then refill at the configured rate', async () => {
+    let now = 0;
+    const store = new TokenBucketRateLimitStore(
+      'bucket',
+      { capacity: 3, refillPerMs: 1 / 1000 },
+      new MemoryStore(),
+      () => now
+    );
+
+    expect((await store.increment('client')).totalHits).toBe(1);
+    expect((await store.increment('client')).totalHits).toBe(2);
+    expect((await store.increment('client')).totalHits).toBe(3);
+
+    const rejected = await store.increment('client');
+    expect(rejected.totalHits).toBe(4);
+    expect(rejected.resetTime).toEqual(new Date(1000));
+
+    now = 1000;
+    expect((await store.increment('client')).totalHits).toBe(3);
+    expect((await store.increment('client')).totalHits).toBe(4);
+
+    now = 10000;
+    expect(await store.get('client')).toBeUndefined();
+  });
+
+  it('should expose the bucket through createRateLimiter', async () => {
+    const app = express();
+    app.use(createRateLimiter({ algorithm: 'token-bucket', windowMs: 60000, max: 60, burst: 2 }));
+    app.get('/ping', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const first = await request(app).get('/ping');
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+
+    await request(app).get('/ping');
+    const limited = await request(app).get('/ping');
+    expect(limited.status).toBe(429);
+    expect(limited.headers['retry-after']).toBe('1');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Tests for the response cache
+ *
+ * This file tests cache key construction, LRU eviction, TTL expiry,
+ * prefix and path invalidation, shared-store replicas, per-caller entries and
+ * the X-Cache HIT/MISS behaviour of the middleware.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import cacheResponse from '../../src/middleware/responseCache';
+import RedisMock from 'ioredis-mock';
+import {
+  ResponseCache,
+  buildBaseKey,
+  buildVariantKey,
+  parseVaryHeader,
+} from '../../src/utils/responseCache';
+import { RedisStore } from '../../src/utils/redisStore';
+
+describe('ResponseCache', () => {
+  let now: number;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new ResponseCache({ enabled: true, ttl: 60, maxSize: 2 }, undefined, () => now);
+  });
+
+  it('should build keys from method, path and sorted query', () => {
+    expect(buildBaseKey('get', '/api/items', { b: '2', a: ['1', '3'] })).toBe(
+      'GET:/api/items?a=1&a=3&b=2'
+    );
+    expect(buildBaseKey('GET', '/api/items', {})).toBe('GET:/api/items');
+  });
+
+  it('should ignore encoding and origin in Vary', () => {
+    expect(parseVaryHeader('Accept-Encoding, Origin, Accept-Language')).toEqual([
+      'accept-language',
+    ]);
+  });
+
+  it('should keep separate entries per vary header value', async () => {
+    cache = new ResponseCache({ enabled: true, ttl: 60, maxSize: 10 });
+    const response = { status: 200, headers: {}, body: { lang: 'en' } };
+    await cache.set('GET:/a', ['accept-language'], { 'accept-language': 'en' }, response);
+
+    const en = await cache.resolveKey('GET:/a', { 'accept-language': 'en' });
+    const de = await cache.resolveKey('GET:/a', { 'accept-language': 'de' });
+    expect(await cache.get(en)).toBeDefined();
+    expect(await cache.get(de)).toBeUndefined();
+  });
+
+  it('should hash credentials in variant keys', () => {
+    const key = buildVariantKey('GET:/a', ['authorization', 'x-api-key'], {
+      authorization: 'Bearer secret-token',
+    });
+
+    expect(key).toMatch(/^GET:\/a\|authorization=[0-9a-f]{64}\|x-api-key=$/);
+    expect(key).not.toContain('secret-token');
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const response = { status: 200, headers: {}, body: null };
+    await cache.set('GET:/a', [], {}, response);
+    await cache.set('GET:/b', [], {}, response);
+    await cache.get('GET:/a');
+    await cache.set('GET:/c', [], {}, response);
+
+    expect(await cache.get('GET:/a')).toBeDefined();
+    expect(await cache.get('GET:/b')).toBeUndefined();
+    expect(await cache.get('GET:/c')).toBeDefined();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    await cache.set('GET:/a', [], {}, { status: 200, headers: {}, body: null }, 10);
+
+    now = 9999;
+    expect(await cache.get('GET:/a')).toBeDefined();
+    now = 10000;
+    expect(await cache.get('GET:/a')).toBeUndefined();
+  });
+
+  it('should invalidate entries by key prefix', async () => {
+    const response = { status: 200, headers: {}, body: null };
+    await cache.set('GET:/api/example', [], {}, response);
+    await cache.set('GET:/api/example/1', [], {}, response);
+
+    expect(await cache.invalidate('GET:/api/example')).toBe(2);
+    expect((await cache.getStats()).size).toBe(0);
+  });
+
+  it('should invalidate paths on segment boundaries', async () => {
+    cache = new ResponseCache({ enabled: true, ttl: 60, maxSize: 10 });
+    const response = { status: 200, headers: {}, body: null };
+    await cache.set('GET:/api/example', [], {}, response);
+    await cache.set('GET:/api/example?page=2', [], {}, response);
+    await cache.set('GET:/api/example/1', ['authorization'], {}, response);
+    await cache.set('GET:/api/examples', [], {}, response);
+
+    expect(await cache.invalidatePath('GET:/api/example/')).toBe(3);
+    expect(await cache.get('GET:/api/examples')).toBeDefined();
+  });
+
+  it('should share entries through a Redis-protocol store', async () => {
+    const client = new RedisMock();
+    const replicaA = new ResponseCache(
+      { enabled: true, ttl: 60 },
+      new RedisStore({ client, prefix: 'test:cache:' })
+    );
+    const replicaB = new ResponseCache(
+      { enabled: true, ttl: 60 },
+      new RedisStore({ client, prefix: 'test:cache:' })
+    );
+
+    await replicaA.set('GET:/shared', [], {}, { status: 200, headers: {}, body: { ok: true } });
+
+    expect((await replicaB.get('GET:/shared'))?.data.body).toEqual({ ok: true });
+    expect(await replicaB.invalidate('GET:/shared')).toBe(1);
+    expect(await replicaA.get('GET:/shared')).toBeUndefined();
+
+    client.disconnect();
+  });
+});
+
+describe('cacheResponse middleware', () => {
+  let handler: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    const cache = new ResponseCache({ enabled: true, ttl: 60, maxSize: 10 });
+    handler = jest.fn((req: express.Request, res: express.Response) => {
+      res.json({ calls: handler.mock.calls.length });
+    });
+
+    app = express();
+    app.get('/items', cacheResponse({ cache }), handler);
+    app.get('/private', cacheResponse({ cache }), (req, res) => {
+      res.set('Cache-Control', 'private');
+      handler(req, res);
+    });
+  });
+
+  it('should serve repeated GETs from the cache', async () => {
+    const first = await request(app).get('/items').query({ page: 1 });
+    const second = await request(app).get('/items').query({ page: 1 });
+
+    expect(first.headers['x-cache']).toBe('MISS');
+    expect(second.headers['x-cache']).toBe('HIT');
+    expect(second.body).toEqual(first.body);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat different queries as different entries', async () => {
+    await request(app).get('/items').query({ page: 1 });
+    const other = await request(app).get('/items').query({ page: 2 });
+
+    expect(other.headers['x-cache']).toBe('MISS');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep separate entries per caller', async () => {
+    const alice = await request(app).get('/items').set('Authorization', 'Bearer alice');
+    const bob = await request(app).get('/items').set('Authorization', 'Bearer bob');
+    const aliceAgain = await request(app).get('/items').set('Authorization', 'Bearer alice');
+    const anonymous = await request(app).get('/items').set('X-API-Key', '');
+    const cookie = await request(app).get('/items').set('Cookie', 'session=alice');
+
+    expect(alice.headers.vary).toMatch(/authorization, cookie, x-api-key/i);
+    expect(bob.headers['x-cache']).toBe('MISS');
+    expect(aliceAgain.headers['x-cache']).toBe('HIT');
+    expect(aliceAgain.body).toEqual(alice.body);
+    expect(anonymous.headers['x-cache']).toBe('MISS');
+    expect(cookie.headers['x-cache']).toBe('MISS');
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not store private responses', async () => {
+    await request(app).get('/private');
+    const second = await request(app).get('/private');
+
+    expect(second.headers['x-cache']).toBe('MISS');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tests for response shaping
+ *
+ * This file tests ?fields= and ?include= parsing, dot-path projection,
+ * projection of res.success payloads, skipped enrichment calls and separate
+ * cache entries per shape.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import Joi from 'joi';
+import {
+  errorNormalizer,
+  responseEnhancer,
+  responseShaping,
+  cacheResponse,
+  validateQuery,
+} from '../../src/middleware';
+import { correlationMiddleware } from '../../src/middleware/requestLogger';
+import { ResponseCache } from '../../src/utils/responseCache';
+import { enrichData, ServiceProxy } from '../../src/utils/serviceProxy';
+import {
+  isFieldRequested,
+  parseResponseShape,
+  projectFields,
+} from '../../src/utils/responseShaping';
+
+describe('Response shaping utilities', () => {
+  it('parses comma-separated and repeated parameters', () => {
+    expect(parseResponseShape({})).toBeUndefined();
+    expect(parseResponseShape({ fields: ['name, owner.id', 'name'] })).toEqual({
+      fields: ['name', 'owner.id'],
+    });
+    expect(parseResponseShape({ fields: 'name', include: 'analytics' })).toEqual({
+      fields: ['name', 'analytics'],
+      include: ['analytics'],
+    });
+    expect(() => parseResponseShape({ fields: 'name..id' })).toThrow('Invalid fields entry');
+    expect(() => parseResponseShape({ include: 'related.data' })).toThrow('Invalid include entry');
+  });
+
+  it('projects dot paths through objects and arrays', () => {
+    const data = {
+      id: 1,
+      name: 'Widget',
+      owner: { id: 2, email: 'owner@example.com' },
+      items: [
+        { sku: 'a', price: 1 },
+        { sku: 'b', price: 2 },
+      ],
+      analytics: { views: 10 },
+    };
+
+    expect(projectFields(data, ['name', 'owner.id', 'items.sku', 'analytics', 'missing'])).toEqual({
+      name: 'Widget',
+      owner: { id: 2 },
+      items: [{ sku: 'a' }, { sku: 'b' }],
+      analytics: { views: 10 },
+    });
+    expect(projectFields(data, ['owner', 'owner.id'])).toEqual({ owner: data.owner });
+    expect(projectFields([{ a: 1, b: 2 }], ['a'])).toEqual([{ a: 1 }]);
+  });
+
+  it('decides which top-level fields are requested', () => {
+    expect(isFieldRequested(undefined, 'analytics')).toBe(true);
+    expect(isFieldRequested({ fields: ['analytics.views'] }, 'analytics')).toBe(true);
+    expect(isFieldRequested({ fields: ['name'] }, 'analytics')).toBe(false);
+    expect(isFieldRequested({ include: ['analytics'] }, 'analytics')).toBe(true);
+    expect(isFieldRequested({ include: ['analytics'] }, 'relatedData')).toBe(false);
+  });
+});
+
+describe('Response shaping middleware', () => {
+  const related = jest.fn().mockResolvedValue({ data: { title: 'Related' } });
+  const analytics = jest.fn().mockResolvedValue({ data: { views: 10 } });
+
+  /**
+   * Item handler enriched by two services, as in /api/example/:id
+   */
+  const itemHandler = async (_req: Request, res: Response): Promise<void> => {
+    const item = await enrichData(
+      { id: '1', name: 'Widget', price: 5 } as Record<string, unknown>,
+      [
+        {
+          service: { get: related } as unknown as ServiceProxy,
+          path: '/related',
+          key: 'relatedData',
+        },
+        {
+          service: { get: analytics } as unknown as ServiceProxy,
+          path: '/stats',
+          key: 'analytics',
+        },
+      ]
+    );
+    res.success(item);
+  };
+
+  const createApp = (cache?: ResponseCache) => {
+    const app = express();
+    app.use(correlationMiddleware);
+    app.use(responseEnhancer);
+    app.use(responseShaping);
+    app.get('/items/1', (req, res, next) => {
+      itemHandler(req, res).catch(next);
+    });
+    app.get(
+      '/items',
+      validateQuery(Joi.object({ page: Joi.number().default(1) })),
+      cacheResponse(cache ? { cache } : {}),
+      (_req, res) => {
+        res.success({ items: [{ id: 1, name: 'Widget', price: 5 }], page: 1 });
+      }
+    );
+    app.use(errorNormalizer);
+    return app;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('keeps full payloads and every enrichment without shaping parameters', async () => {
+    const response = await request(createApp()).get('/items/1').expect(200);
+
+    expect(response.body.data).toEqual({
+      id: '1',
+      name: 'Widget',
+      price: 5,
+      relatedData: { title: 'Related' },
+      analytics: { views: 10 },
+    });
+  });
+
+  it('projects payloads and skips enrichments outside ?fields=', async () => {
+    const response = await request(createApp())
+      .get('/items/1?fields=name,relatedData.title')
+      .expect(200);
+
+    expect(response.body.data).toEqual({ name: 'Widget', relatedData: { title: 'Related' } });
+    expect(related).toHaveBeenCalled();
+    expect(analytics).not.toHaveBeenCalled();
+  });
+
+  it('fetches only enrichments named in ?include=', async () => {
+    const response = await request(createApp()).get('/items/1?include=analytics').expect(200);
+
+    expect(response.body.data).toEqual({
+      id: '1',
+      name: 'Widget',
+      price: 5,
+      analytics: { views: 10 },
+    });
+    expect(related).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid field paths', async () => {
+    const response = await request(createApp()).get('/items/1?fields=name,.id').expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('caches each shape separately on routes with query validation', async () => {
+    const app = createApp(new ResponseCache({ enabled: true, ttl: 60, maxSize: 10 }));
+
+    await request(app).get('/items').expect(200);
+    const shaped = await request(app).get('/items?fields=items.name').expect(200);
+
+    expect(shaped.headers['x-cache']).toBe('MISS');
+    expect(shaped.body.data).toEqual({ items: [{ name: 'Widget' }] });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Smoke test for the gateway application
+ *
+ * This file loads the fully assembled Express app and makes a request
+ * through its global middleware stack (correlation, rate limiting, routing),
+ * and checks that routes and `/health` share the same service proxies.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { Express } from 'express';
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('Gateway app', () => {
+  it('loads and serves a request through the global middleware', async () => {
+    const response = await request(app)
+      .get('/api/status')
+      .set('X-Correlation-ID', 'smoke-test-1')
+      .expect(200);
+
+    expect(response.body).toMatchObject({ success: true, data: { status: 'operational' } });
+    expect(response.headers['x-correlation-id']).toBe('smoke-test-1');
+    expect(response.headers['ratelimit-limit']).toBeDefined();
+  });
+
+  it('reports route traffic in the /health request stats', async () => {
+    const upstream = http.createServer((req, res) => {
+      const reply = () => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(req.url === '/api/items/1' ? { id: 1, name: 'Item' } : {}));
+      };
+      // Keep the item call in flight long enough for concurrent callers to share it
+      setTimeout(reply, req.url === '/api/items/1' ? 100 : 0);
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+    // A fresh app whose service A coalesces identical GETs
+    process.env.SERVICE_A_COALESCE_GETS = 'true';
+    let gateway!: Express;
+    jest.isolateModules(() => {
+      gateway = require('../../src/index').default;
+      const { serviceRegistry } = require('../../src/utils/serviceRegistry');
+      for (const service of ['serviceA', 'serviceB', 'serviceC']) {
+        serviceRegistry.register(service, { url });
+      }
+    });
+
+    try {
+      await Promise.all([1, 2, 3].map(() => request(gateway).get('/api/example/1').expect(200)));
+
+      const health = await request(gateway).get('/health').expect(200);
+      expect(health.body.data.services.serviceA.requests).toEqual({
+        inFlightGets: 0,
+        coalescedRequests: 2,
+      });
+    } finally {
+      delete process.env.SERVICE_A_COALESCE_GETS;
+      await new Promise(resolve => upstream.close(resolve));
+    }
+  });
+});
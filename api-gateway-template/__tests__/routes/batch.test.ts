@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Tests for the batch route
+ *
+ * This file tests that sub-requests run through the gateway router with the
+ * batch's credentials and client IP, honour dependencies, concurrency and the
+ * batch deadline, and that invalid batches are rejected.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Router } from 'express';
+import request from 'supertest';
+import Joi from 'joi';
+import config from '../../src/config';
+import batchRoutes from '../../src/routes/batch';
+import { errorNormalizer, responseEnhancer, validateBody } from '../../src/middleware';
+import { correlationMiddleware } from '../../src/middleware/requestLogger';
+import { AuthenticationError } from '../../src/errors';
+
+describe('Batch route', () => {
+  const originalBatchConfig = { ...config.BATCH };
+  let server: http.Server;
+  let active: number;
+  let maxActive: number;
+
+  beforeEach(async () => {
+    active = 0;
+    maxActive = 0;
+
+    const api = Router();
+    api.get('/items/:id', (req, res) => {
+      res.success({ id: req.params.id });
+    });
+    api.post('/items', validateBody(Joi.object({ name: Joi.string().required() })), (req, res) => {
+      res.status(201).success(req.body as unknown);
+    });
+    api.get('/secure', (req, res) => {
+      if (req.headers['x-api-key'] !== 'key-1') {
+        throw new AuthenticationError();
+      }
+      res.success({ ip: req.ip, correlationId: req.headers['x-correlation-id'] });
+    });
+    api.get('/slow', (req, res) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(() => {
+        active--;
+        res.success({ slow: true });
+      }, 50);
+    });
+    api.get('/hang', () => undefined);
+    api.use('/batch', batchRoutes);
+
+    const app = express();
+    app.set('trust proxy', 'loopback');
+    app.use(express.json());
+    app.use(correlationMiddleware);
+    app.use(responseEnhancer);
+    app.use('/api', api);
+    app.use(errorNormalizer);
+
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    Object.assign(config.BATCH, originalBatchConfig);
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const batch = (requests: unknown[], headers: Record<string, string> = {}) =>
+    request(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+      .post('/api/batch')
+      .set(headers)
+      .send({ requests });
+
+  it('returns a status and ApiResponse body per sub-request', async () => {
+    const response = await batch([
+      { path: '/api/items/1' },
+      { id: 'create', method: 'POST', path: '/api/items', body: { name: 'Widget' } },
+      { id: 'invalid', method: 'POST', path: '/api/items', body: {} },
+    ]).expect(200);
+
+    expect(response.body.meta).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(response.body.data).toMatchObject([
+      { id: '0', status: 200, body: { success: true, data: { id: '1' } } },
+      { id: 'create', status: 201, body: { success: true, data: { name: 'Widget' } } },
+      { id: 'invalid', status: 400, body: { success: false, error: { code: 'VALIDATION_ERROR' } } },
+    ]);
+    expect(response.body.data[0].headers['content-type']).toMatch(/application\/json/);
+  });
+
+  it('passes credentials, client IP and correlation ID to sub-requests', async () => {
+    const response = await batch(
+      [{ id: 'me', path: '/api/secure', headers: { 'X-Forwarded-For': '10.9.9.9' } }],
+      {
+        'X-API-Key': 'key-1',
+        'X-Forwarded-For': '203.0.113.9',
+        'X-Correlation-ID': 'batch-1',
+      }
+    ).expect(200);
+
+    expect(response.body.data[0]).toMatchObject({
+      status: 200,
+      body: { data: { ip: '203.0.113.9', correlationId: 'batch-1-me' } },
+    });
+
+    const anonymous = await batch([{ path: '/api/secure' }]).expect(200);
+    expect(anonymous.body.data[0].status).toBe(401);
+  });
+
+  it('skips sub-requests whose dependency failed', async () => {
+    const response = await batch([
+      { id: 'denied', path: '/api/secure' },
+      { id: 'after', path: '/api/items/2', dependsOn: ['denied'] },
+      { id: 'independent', path: '/api/items/3' },
+    ]).expect(200);
+
+    expect(response.body.data.map((item: { status: number }) => item.status)).toEqual([
+      401, 424, 200,
+    ]);
+    expect(response.body.data[1].body.error.code).toBe('DEPENDENCY_FAILED');
+  });
+
+  it('limits concurrency', async () => {
+    config.BATCH.concurrency = 2;
+
+    await batch(Array.from({ length: 5 }, () => ({ path: '/api/slow' }))).expect(200);
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('answers sub-requests still running at the deadline with 504', async () => {
+    config.BATCH.concurrency = 1;
+    config.BATCH.timeout = 300;
+
+    const response = await batch([
+      { path: '/api/items/1' },
+      { path: '/api/hang' },
+      { path: '/api/items/2' },
+    ]).expect(200);
+
+    expect(response.body.data.map((item: { status: number }) => item.status)).toEqual([
+      200, 504, 504,
+    ]);
+  });
+
+  it('rejects invalid batches', async () => {
+    await batch([]).expect(400);
+    await batch([{ path: '/api/batch' }]).expect(400);
+    await batch([{ path: '/API/Batch/' }]).expect(400);
+    await batch([{ path: '/health' }]).expect(400);
+    await batch([
+      { path: '/api/items/1', dependsOn: ['later'] },
+      { id: 'later', path: '/api/items/2' },
+    ]).expect(400);
+    await batch([
+      { id: 'a', path: '/api/items/1' },
+      { id: 'a', path: '/api/items/2' },
+    ]).expect(400);
+  });
+
+  it('refuses batches sent as sub-requests of a batch', async () => {
+    const response = await batch([{ path: '/api/items/1' }], {
+      'X-Gateway-Batch-Subrequest': '1',
+    }).expect(400);
+
+    expect(response.body.error.message).toBe('Batches cannot be nested');
+  });
+});
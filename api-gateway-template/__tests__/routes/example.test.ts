@@ -2,7 +2,9 @@
  * @fileoverview Tests for example routes
  *
  * This file demonstrates how to test API Gateway routes including
- * service integration, error handling, and response validation.
+ * service integration, error handling, and response validation. The
+ * composed GET routes are tested for partial results when an optional
+ * service fails and for errors when the required service fails.
  *
  * @author API Gateway Template
  * @version 1.0.0
@@ -10,37 +12,63 @@
 
 import request from 'supertest';
 import { jest } from '@jest/globals';
+import { createMockServiceProxy } from '../setup';
 import app from '../../src/index';
-import { createMockServiceProxy, mockServiceResponse } from '../setup';
+import { getServiceProxies } from '../../src/utils/serviceProxy';
+import { NotFoundError, ServiceUnavailableError } from '../../src/errors';
 
-// Mock the service proxy module
-jest.mock('../../src/utils/serviceProxy', () => ({
-  createServiceProxies: jest.fn(() => ({
+// Mock the service proxies shared by the gateway's routes
+jest.mock('../../src/utils/serviceProxy', () => {
+  const proxies = {
     serviceA: createMockServiceProxy(),
     serviceB: createMockServiceProxy(),
     serviceC: createMockServiceProxy(),
-  })),
-  aggregateServiceData: jest.fn(),
-  enrichData: jest.fn(),
-  formatSuccessResponse: jest.fn((data) => ({ success: true, data })),
-  formatErrorResponse: jest.fn((error) => ({ success: false, error })),
-}));
+  };
+  return {
+    ...jest.requireActual<object>('../../src/utils/serviceProxy'),
+    getServiceProxies: jest.fn(() => proxies),
+  };
+});
+
+type MockServiceProxy = ReturnType<typeof createMockServiceProxy>;
 
 describe('Example Routes', () => {
+  const serviceProxies = getServiceProxies() as unknown as Record<
+    'serviceA' | 'serviceB' | 'serviceC',
+    MockServiceProxy
+  >;
+
+  /**
+   * Answer request() calls of a mock proxy from a path handler
+   */
+  const answer = (proxy: MockServiceProxy, handler: (path: string) => unknown) => {
+    proxy.request.mockImplementation(async (...args: unknown[]) => ({
+      data: await handler(args[1] as string),
+      status: 200,
+    }));
+  };
+
   beforeEach(() => {
-    jest.clearAllMocks();
+    // Fresh mocks on the same proxy objects the routes hold; get() delegates to
+    // request(), as in ServiceProxy
+    for (const proxy of Object.values(serviceProxies)) {
+      Object.assign(proxy, createMockServiceProxy());
+      proxy.get.mockImplementation((...args: unknown[]) =>
+        proxy.request('GET', args[0], { params: args[1], ...(args[2] as object) })
+      );
+    }
   });
 
   describe('GET /api/example', () => {
     it('should return list of items successfully', async () => {
-      const { aggregateServiceData } = await import('../../src/utils/serviceProxy');
-      (aggregateServiceData as jest.Mock).mockResolvedValue({
-        primaryItems: {
-          items: [{ id: 1, name: 'Test Item 1' }, { id: 2, name: 'Test Item 2' }],
-          total: 2,
-        },
-        metadata: { category: 'test' },
-      });
+      answer(serviceProxies.serviceA, () => ({
+        items: [
+          { id: 1, name: 'Test Item 1' },
+          { id: 2, name: 'Test Item 2' },
+        ],
+        total: 2,
+      }));
+      answer(serviceProxies.serviceB, () => ({ category: 'test' }));
 
       const response = await request(app)
         .get('/api/example')
@@ -51,7 +79,52 @@ describe('Example Routes', () => {
       expect(response.body).toBeValidApiResponse();
       expect(response.body.success).toBe(true);
       expect(response.body.data.items).toHaveLength(2);
+      expect(response.body.data.metadata).toEqual({ category: 'test' });
       expect(response.body.data.aggregatedFrom).toEqual(['serviceA', 'serviceB']);
+      expect(response.body.meta).toMatchObject({ page: 1, limit: 20, total: 2 });
+      expect(serviceProxies.serviceA.request).toHaveBeenCalledWith('GET', '/api/items', {
+        params: { category: 'all', page: '1', limit: '20' },
+      });
+    });
+
+    it('should lift pagination from the service envelope', async () => {
+      // What ServiceProxy.request returns for a MongoDB service envelope
+      serviceProxies.serviceA.request.mockResolvedValue({
+        data: [{ id: 1 }, { id: 2 }],
+        meta: { page: 1, limit: 2, total: 5, totalPages: 3, hasNext: true, hasPrevious: false },
+        status: 200,
+      });
+
+      const response = await request(app).get('/api/example').query({ limit: 2 }).expect(200);
+
+      expect(response.body.data.items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(response.body.meta).toMatchObject({
+        page: 1,
+        limit: 2,
+        total: 5,
+        totalPages: 3,
+        hasNext: true,
+      });
+    });
+
+    it('should return partial data when an optional service fails', async () => {
+      answer(serviceProxies.serviceA, () => ({ items: [{ id: 1 }], total: 1 }));
+      answer(serviceProxies.serviceB, () => {
+        throw new ServiceUnavailableError('Service serviceB is unavailable');
+      });
+
+      const response = await request(app).get('/api/example').expect(200);
+
+      expect(response.body.data).toMatchObject({ items: [{ id: 1 }], metadata: {} });
+      expect(response.body.meta.sources).toEqual([
+        expect.objectContaining({ name: 'primaryItems', status: 'ok', required: true }),
+        expect.objectContaining({
+          name: 'metadata',
+          status: 'failed',
+          required: false,
+          errorCode: 'SERVICE_UNAVAILABLE',
+        }),
+      ]);
     });
 
     it('should validate query parameters', async () => {
@@ -65,30 +138,26 @@ describe('Example Routes', () => {
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
 
-    it('should handle service errors gracefully', async () => {
-      const { aggregateServiceData } = await import('../../src/utils/serviceProxy');
-      (aggregateServiceData as jest.Mock).mockRejectedValue(new Error('Service unavailable'));
+    it('should fail when the required service fails', async () => {
+      answer(serviceProxies.serviceA, () => {
+        throw new ServiceUnavailableError('Service serviceA is unavailable');
+      });
 
       const response = await request(app)
         .get('/api/example')
         .expect('Content-Type', /json/)
-        .expect(500);
+        .expect(503);
 
       expect(response.body).toBeValidErrorResponse();
+      expect(response.body.error.code).toBe('SERVICE_UNAVAILABLE');
     });
   });
 
   describe('GET /api/example/:id', () => {
     it('should return item details with enriched data', async () => {
-      const { enrichData } = await import('../../src/utils/serviceProxy');
-      const mockEnrichedItem = {
-        id: 1,
-        name: 'Test Item',
-        relatedData: { count: 5 },
-        analytics: { views: 100 },
-      };
-      
-      (enrichData as jest.Mock).mockResolvedValue(mockEnrichedItem);
+      answer(serviceProxies.serviceA, () => ({ id: 1, name: 'Test Item' }));
+      answer(serviceProxies.serviceB, () => ({ count: 5 }));
+      answer(serviceProxies.serviceC, () => ({ views: 100 }));
 
       const response = await request(app)
         .get('/api/example/1')
@@ -96,7 +165,47 @@ describe('Example Routes', () => {
         .expect(200);
 
       expect(response.body).toBeValidApiResponse();
-      expect(response.body.data).toEqual(mockEnrichedItem);
+      expect(response.body.data).toEqual({
+        id: 1,
+        name: 'Test Item',
+        relatedData: { count: 5 },
+        analytics: { views: 100 },
+      });
+      expect(serviceProxies.serviceB.request).toHaveBeenCalledWith('GET', '/api/related/1', {
+        params: {},
+      });
+    });
+
+    it('should report enrichments that failed', async () => {
+      answer(serviceProxies.serviceA, () => ({ id: 1, name: 'Test Item' }));
+      answer(serviceProxies.serviceB, () => ({ count: 5 }));
+      answer(serviceProxies.serviceC, () => {
+        throw new ServiceUnavailableError('Service serviceC is unavailable');
+      });
+
+      const response = await request(app).get('/api/example/1').expect(200);
+
+      expect(response.body.data).toMatchObject({ relatedData: { count: 5 }, analytics: null });
+      expect(
+        response.body.meta.sources.map((source: { name: string; status: string }) => [
+          source.name,
+          source.status,
+        ])
+      ).toEqual([
+        ['item', 'ok'],
+        ['relatedData', 'ok'],
+        ['analytics', 'failed'],
+      ]);
+    });
+
+    it('should only fetch the enrichments in ?include=', async () => {
+      answer(serviceProxies.serviceA, () => ({ id: 1, name: 'Test Item' }));
+      answer(serviceProxies.serviceC, () => ({ views: 100 }));
+
+      const response = await request(app).get('/api/example/1?include=analytics').expect(200);
+
+      expect(response.body.data).toEqual({ id: 1, name: 'Test Item', analytics: { views: 100 } });
+      expect(serviceProxies.serviceB.request).not.toHaveBeenCalled();
     });
 
     it('should validate ID parameter', async () => {
@@ -110,12 +219,9 @@ describe('Example Routes', () => {
     });
 
     it('should handle 404 when item not found', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
-      const notFoundError = new Error('Not found');
-      (notFoundError as any).status = 404;
-      serviceProxies.serviceA.get.mockRejectedValue(notFoundError);
+      answer(serviceProxies.serviceA, () => {
+        throw new NotFoundError('Item not found');
+      });
 
       const response = await request(app)
         .get('/api/example/999')
@@ -123,14 +229,12 @@ describe('Example Routes', () => {
         .expect(404);
 
       expect(response.body).toBeValidErrorResponse();
+      expect(serviceProxies.serviceB.request).not.toHaveBeenCalled();
     });
   });
 
   describe('POST /api/example', () => {
     it('should create item successfully', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
       const createdItem = { id: 1, name: 'New Item', category: 'typeA' };
       serviceProxies.serviceA.post.mockResolvedValue({ data: createdItem, status: 201 });
 
@@ -178,9 +282,6 @@ describe('Example Routes', () => {
 
   describe('PUT /api/example/:id', () => {
     it('should update item successfully', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
       const updatedItem = { id: 1, name: 'Updated Item', category: 'typeB' };
       serviceProxies.serviceA.put.mockResolvedValue({ data: updatedItem, status: 200 });
 
@@ -198,9 +299,6 @@ describe('Example Routes', () => {
     });
 
     it('should allow partial updates', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
       const updatedItem = { id: 1, name: 'Updated Name' };
       serviceProxies.serviceA.put.mockResolvedValue({ data: updatedItem, status: 200 });
 
@@ -219,9 +317,6 @@ describe('Example Routes', () => {
 
   describe('DELETE /api/example/:id', () => {
     it('should delete item successfully', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
       serviceProxies.serviceA.delete.mockResolvedValue({ data: null, status: 200 });
 
       const response = await request(app)
@@ -234,9 +329,6 @@ describe('Example Routes', () => {
     });
 
     it('should handle deletion of non-existent item', async () => {
-      const mockServiceProxies = await import('../../src/utils/serviceProxy');
-      const serviceProxies = (mockServiceProxies.createServiceProxies as jest.Mock)();
-      
       const notFoundError = new Error('Not found');
       (notFoundError as any).status = 404;
       serviceProxies.serviceA.delete.mockRejectedValue(notFoundError);
@@ -249,4 +341,4 @@ describe('Example Routes', () => {
       expect(response.body).toBeValidErrorResponse();
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tests for the declarative route table
+ *
+ * This file tests route table loading, path parameter rewriting and the
+ * pass-through proxy routes mounted from RouteConfig entries.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { loadRouteTable, rewritePath, createRouteTableRouter } from '../../src/routes/routeTable';
+import { errorNormalizer, responseEnhancer } from '../../src/middleware';
+import { RouteConfig } from '../../src/types';
+import { createMockServiceProxy } from '../setup';
+
+describe('Route table', () => {
+  describe('rewritePath', () => {
+    it('should substitute path parameters into the target path', () => {
+      expect(rewritePath('/api/v1/users/:id/orders/:orderId', { id: '42', orderId: 'a b' })).toBe(
+        '/api/v1/users/42/orders/a%20b'
+      );
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      expect(rewritePath('/api/:missing', {})).toBe('/api/:missing');
+    });
+  });
+
+  describe('loadRouteTable', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'routes-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should load routes from a YAML file', () => {
+      const file = path.join(tmpDir, 'routes.yaml');
+      fs.writeFileSync(
+        file,
+        [
+          '- path: /users/:id',
+          '  method: GET',
+          '  target: { service: serviceA, path: /api/v1/users/:id }',
+          '  cache: { enabled: true, ttl: 60 }',
+        ].join('\n')
+      );
+
+      expect(loadRouteTable(file)).toEqual([
+        {
+          path: '/users/:id',
+          method: 'GET',
+          target: { service: 'serviceA', path: '/api/v1/users/:id' },
+          cache: { enabled: true, ttl: 60 },
+        },
+      ]);
+    });
+
+    it('should reject invalid entries', () => {
+      const file = path.join(tmpDir, 'routes.json');
+      fs.writeFileSync(file, JSON.stringify([{ path: '/users', method: 'FETCH' }]));
+
+      expect(() => loadRouteTable(file)).toThrow(/Invalid route table/);
+    });
+
+    it('should reject caching on streaming routes', () => {
+      const file = path.join(tmpDir, 'routes.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify([
+          {
+            path: '/events',
+            method: 'GET',
+            target: { service: 'serviceA', path: '/api/v1/events' },
+            cache: { enabled: true, ttl: 60 },
+            stream: { enabled: true },
+          },
+        ])
+      );
+
+      expect(() => loadRouteTable(file)).toThrow(/"\[0\]\.cache" is not allowed/);
+    });
+  });
+
+  describe('createRouteTableRouter', () => {
+    const routes: RouteConfig[] = [
+      {
+        path: '/users/:id',
+        method: 'GET',
+        target: { service: 'serviceA', path: '/api/v1/users/:id' },
+        cache: { enabled: true, ttl: 60 },
+      },
+      {
+        path: '/users',
+        method: 'POST',
+        target: { service: 'serviceA', path: '/api/v1/users' },
+        auth: { required: true },
+      },
+      {
+        path: '/me',
+        method: 'GET',
+        target: { service: 'serviceA', path: '/api/v1/me' },
+        auth: { required: true },
+        cache: { enabled: true, ttl: 30 },
+      },
+    ];
+
+    let serviceA: ReturnType<typeof createMockServiceProxy> & { request: jest.Mock };
+    let app: express.Express;
+
+    beforeEach(() => {
+      serviceA = {
+        ...createMockServiceProxy(),
+        request: jest.fn().mockResolvedValue({ data: { id: '42' }, status: 200 }),
+      };
+
+      app = express();
+      app.use(express.json());
+      app.use(responseEnhancer);
+      // Stand-in for JWT authentication
+      app.use((req, _res, next) => {
+        if (req.headers['x-test-user']) {
+          (req as any).user = { sub: req.headers['x-test-user'] };
+        }
+        next();
+      });
+      app.use('/api', createRouteTableRouter(routes, { serviceA } as any));
+      app.use(errorNormalizer);
+    });
+
+    it('should proxy requests with rewritten paths and query', async () => {
+      const response = await request(app).get('/api/users/42').query({ expand: 'profile' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, data: { id: '42' } });
+      expect(response.headers['cache-control']).toBe('public, max-age=60');
+      expect(serviceA.request).toHaveBeenCalledWith('GET', '/api/v1/users/42', {
+        params: { expand: 'profile' },
+        data: undefined,
+      });
+    });
+
+    it('should enforce route authentication', async () => {
+      const response = await request(app).post('/api/users').send({ name: 'Test' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('AUTH_REQUIRED');
+      expect(serviceA.request).not.toHaveBeenCalled();
+    });
+
+    it('should keep cached authenticated responses out of shared caches', async () => {
+      const response = await request(app).get('/api/me').set('X-Test-User', 'user-1');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toBe('private, max-age=30');
+    });
+
+    it('should reject routes targeting unknown services', () => {
+      expect(() =>
+        createRouteTableRouter(
+          [{ path: '/x', method: 'GET', target: { service: 'nope', path: '/x' } }],
+          {}
+        )
+      ).toThrow(/unknown service: nope/);
+    });
+  });
+});
@@ -9,6 +9,7 @@
  */
 
 import { jest } from '@jest/globals';
+import { getResponseAdapter } from '../src/utils/responseAdapters';
 
 // Set test environment
 process.env.NODE_ENV = 'test';
@@ -59,7 +60,9 @@ export const createMockServiceProxy = () => ({
   put: jest.fn().mockResolvedValue({ data: mockServiceResponse.data, status: 200 }),
   delete: jest.fn().mockResolvedValue({ data: null, status: 200 }),
   patch: jest.fn().mockResolvedValue({ data: mockServiceResponse.data, status: 200 }),
+  request: jest.fn().mockResolvedValue({ data: mockServiceResponse.data, status: 200 }),
   healthCheck: jest.fn().mockResolvedValue({ status: 'healthy', responseTime: 100 }),
+  adaptResponse: jest.fn((body: unknown, status: number) => getResponseAdapter()(body, status)),
 });
 
 // Global test utilities
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Tests for the circuit breaker
+ *
+ * This file tests circuit breaker state transitions, half-open probing
+ * and the shared per-service breaker registry.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import {
+  CircuitBreaker,
+  getCircuitBreaker,
+  getCircuitBreakerSnapshots,
+  resetCircuitBreakers,
+} from '../../src/utils/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new CircuitBreaker(
+      'testService',
+      { failureThreshold: 3, openDuration: 10000, halfOpenMaxProbes: 2 },
+      () => now
+    );
+  });
+
+  it('should start closed and allow requests', () => {
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should open after reaching the failure threshold', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should reset the failure count after a success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot().failures).toBe(1);
+  });
+
+  it('should move to half-open after the open duration and limit probes', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now += 10000;
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close once enough half-open probes succeed', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now += 10000;
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('half-open');
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot().failures).toBe(0);
+  });
+
+  it('should free a half-open probe slot released without an outcome', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now += 10000;
+
+    breaker.tryAcquire();
+    breaker.tryAcquire();
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should re-open when a half-open probe fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now += 10000;
+
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      openedAt: new Date(now).toISOString(),
+      nextAttemptAt: new Date(now + 10000).toISOString(),
+    });
+  });
+});
+
+describe('circuit breaker registry', () => {
+  afterEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('should share one breaker per service name', () => {
+    const first = getCircuitBreaker('serviceA');
+    const second = getCircuitBreaker('serviceA');
+
+    expect(first).toBe(second);
+  });
+
+  it('should apply per-service overrides on creation', () => {
+    getCircuitBreaker('serviceB', { failureThreshold: 1 }).recordFailure();
+
+    expect(getCircuitBreakerSnapshots()).toEqual({
+      serviceB: expect.objectContaining({ state: 'open', failureThreshold: 1 }),
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Tests for multi-service composition
+ *
+ * This file tests dependency ordering, templating from earlier results,
+ * optional and required step failures, the per-source report, optional
+ * inputs, steps left out by the response shape and graph validation.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Composition } from '../../src/utils/composition';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { NotFoundError, ServiceUnavailableError } from '../../src/errors';
+import { runWithRequestContext } from '../../src/utils/requestContext';
+
+/**
+ * Service proxy whose request() answers from a path handler (get() delegates
+ * to request(), as in ServiceProxy)
+ */
+const createProxy = (handler: (path: string, params: Record<string, unknown>) => unknown) => {
+  const request = jest.fn(
+    async (_method: string, path: string, options: { params?: Record<string, unknown> }) => ({
+      data: await handler(path, options.params ?? {}),
+      status: 200,
+      headers: {},
+      responseTime: 1,
+    })
+  );
+  const get = (path: string, params?: Record<string, unknown>, options = {}) =>
+    request('GET', path, { params, ...options });
+  return { proxy: { get, request } as unknown as ServiceProxy, request };
+};
+
+describe('Composition', () => {
+  const users = createProxy(path => ({ id: path.split('/').pop(), profileId: 'p 1' }));
+  const profiles = createProxy(path => ({ path }));
+  const orders = createProxy((_path, params) => ({ params }));
+  const failing = createProxy(() => {
+    throw new ServiceUnavailableError('Service analytics is unavailable');
+  });
+
+  const proxies = {
+    users: users.proxy,
+    profiles: profiles.proxy,
+    orders: orders.proxy,
+    analytics: failing.proxy,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('templates steps from the input and from earlier results', async () => {
+    const composition = new Composition(
+      [
+        { name: 'profile', service: 'profiles', path: '/profiles/{{user.profileId}}' },
+        { name: 'user', service: 'users', path: '/users/{{input.id}}' },
+        {
+          name: 'orders',
+          service: 'orders',
+          path: '/orders',
+          params: { userId: '{{user.id}}', limit: 5 },
+          timeout: 500,
+        },
+      ],
+      proxies
+    );
+
+    const result = await composition.execute({ id: '42' });
+
+    expect(result.data).toEqual({
+      user: { id: '42', profileId: 'p 1' },
+      profile: { path: '/profiles/p%201' },
+      orders: { params: { userId: '42', limit: 5 } },
+    });
+    expect(orders.request).toHaveBeenCalledWith('GET', '/orders', {
+      params: { userId: '42', limit: 5 },
+      timeout: 500,
+    });
+    expect(result.sources.map(source => [source.name, source.status])).toEqual([
+      ['profile', 'ok'],
+      ['user', 'ok'],
+      ['orders', 'ok'],
+    ]);
+  });
+
+  it('runs independent steps in parallel', async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const slow = createProxy(async () => {
+      await gate;
+      return 'slow';
+    });
+    const composition = new Composition(
+      [
+        { name: 'slow', service: 'slow', path: '/slow' },
+        { name: 'user', service: 'users', path: '/users/1' },
+      ],
+      { ...proxies, slow: slow.proxy }
+    );
+
+    const result = composition.execute();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(users.request).toHaveBeenCalled();
+
+    release();
+    expect((await result).data.slow).toBe('slow');
+  });
+
+  it('reports failed optional steps and skips their dependents', async () => {
+    const composition = new Composition(
+      [
+        { name: 'user', service: 'users', path: '/users/1' },
+        { name: 'stats', service: 'analytics', path: '/stats', required: false },
+        {
+          name: 'trend',
+          service: 'orders',
+          path: '/trend',
+          dependsOn: ['stats'],
+          required: false,
+        },
+      ],
+      proxies
+    );
+
+    const { data, sources } = await composition.execute();
+
+    expect(data).toEqual({ user: { id: '1', profileId: 'p 1' }, stats: null, trend: null });
+    expect(sources[1]).toMatchObject({
+      name: 'stats',
+      service: 'analytics',
+      required: false,
+      status: 'failed',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    });
+    expect(sources[2]).toMatchObject({ status: 'skipped', errorCode: 'DEPENDENCY_FAILED' });
+    expect(orders.request).not.toHaveBeenCalled();
+  });
+
+  it('fails with the error of a failed required step', async () => {
+    const missing = createProxy(() => {
+      throw new NotFoundError('User not found');
+    });
+    const composition = new Composition(
+      [
+        { name: 'user', service: 'missing', path: '/users/1' },
+        { name: 'stats', service: 'analytics', path: '/stats', required: false },
+      ],
+      { ...proxies, missing: missing.proxy }
+    );
+
+    await expect(composition.execute()).rejects.toThrow('User not found');
+  });
+
+  it('fails a step whose template has no value', async () => {
+    const composition = new Composition(
+      [
+        { name: 'user', service: 'users', path: '/users/1' },
+        { name: 'manager', service: 'profiles', path: '/profiles/{{user.managerId}}' },
+      ],
+      proxies
+    );
+
+    await expect(composition.execute()).rejects.toThrow('{{user.managerId}} has no value');
+    expect(profiles.request).not.toHaveBeenCalled();
+  });
+
+  it('leaves out parameters for missing optional inputs', async () => {
+    const composition = new Composition(
+      [
+        {
+          name: 'orders',
+          service: 'orders',
+          path: '/orders',
+          params: { query: '{{input.query}}', page: '{{input.page}}', label: 'q={{input.query}}' },
+        },
+      ],
+      proxies
+    );
+
+    await expect(composition.execute({ page: 2 })).rejects.toThrow('{{input.query}} has no value');
+    const { data } = await composition.execute({ page: 2, query: 'a' });
+    expect(data.orders).toEqual({ params: { query: 'a', page: '2', label: 'q=a' } });
+
+    const withoutQuery = new Composition(
+      [
+        {
+          name: 'orders',
+          service: 'orders',
+          path: '/orders',
+          params: { query: '{{input.query}}' },
+        },
+      ],
+      proxies
+    );
+    expect((await withoutQuery.execute({})).data.orders).toEqual({ params: {} });
+  });
+
+  it('skips optional steps the client did not request', async () => {
+    const composition = new Composition(
+      [
+        { name: 'user', service: 'users', path: '/users/1' },
+        { name: 'profile', service: 'profiles', path: '/profiles/1', required: false },
+        { name: 'orders', service: 'orders', path: '/orders', required: false },
+      ],
+      proxies
+    );
+
+    const { data, sources } = await runWithRequestContext(
+      { correlationId: 'c-1', forwardedHeaders: {}, responseShape: { include: ['orders'] } },
+      () => composition.execute()
+    );
+
+    expect(Object.keys(data)).toEqual(['user', 'orders']);
+    expect(sources[1]).toEqual(
+      expect.objectContaining({ name: 'profile', status: 'skipped', latency: 0 })
+    );
+    expect(sources[1]?.errorCode).toBeUndefined();
+    expect(profiles.request).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid graphs', () => {
+    expect(
+      () =>
+        new Composition(
+          [
+            { name: 'a', service: 'users', path: '/{{b.id}}' },
+            { name: 'b', service: 'users', path: '/{{a.id}}' },
+          ],
+          proxies
+        )
+    ).toThrow('cycle: a -> b -> a');
+    expect(
+      () => new Composition([{ name: 'a', service: 'users', path: '/{{missing.id}}' }], proxies)
+    ).toThrow('unknown step: missing');
+    expect(() => new Composition([{ name: 'a', service: 'nope', path: '/' }], proxies)).toThrow(
+      'unknown service: nope'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Tests for background health monitoring
+ *
+ * This file tests the rise/fall thresholds, the cached service health and
+ * proxies skipping unhealthy instances.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import axios from 'axios';
+import { HealthMonitor, healthMonitor } from '../../src/utils/healthMonitor';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('HealthMonitor', () => {
+  let mockAxiosInstance: any;
+  let proxy: ServiceProxy;
+  let down: Set<string>;
+
+  beforeEach(() => {
+    down = new Set();
+    mockAxiosInstance = {
+      request: jest.fn().mockResolvedValue({ data: {}, status: 200, headers: {} }),
+      get: jest.fn((path: string, options: { baseURL?: string }) => {
+        const url = options.baseURL ?? 'http://a1:8080';
+        return down.has(url)
+          ? Promise.reject(new Error(`${url} is down`))
+          : Promise.resolve({ status: 200 });
+      }),
+      interceptors: {
+        request: { use: jest.fn() },
+        response: { use: jest.fn() },
+      },
+    };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+
+    proxy = new ServiceProxy('monitoredService', {
+      baseUrl: 'http://a1:8080',
+      timeout: 5000,
+      retries: 0,
+      headers: {},
+      instances: [{ url: 'http://a1:8080' }, { url: 'http://a2:8080' }],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    resetCircuitBreakers();
+    healthMonitor.watch({});
+  });
+
+  it('should apply the fall and rise thresholds per instance', async () => {
+    const monitor = new HealthMonitor({ rise: 2, fall: 2 });
+    monitor.watch({ monitoredService: proxy });
+
+    await monitor.probe();
+    down.add('http://a2:8080');
+    await monitor.probe();
+    expect(monitor.getUnhealthyInstances('monitoredService').size).toBe(0);
+
+    await monitor.probe();
+    expect([...monitor.getUnhealthyInstances('monitoredService')]).toEqual(['http://a2:8080']);
+
+    down.clear();
+    await monitor.probe();
+    expect(monitor.getUnhealthyInstances('monitoredService').size).toBe(1);
+    await monitor.probe();
+    expect(monitor.getUnhealthyInstances('monitoredService').size).toBe(0);
+  });
+
+  it('should report a service healthy while any instance is healthy', async () => {
+    const monitor = new HealthMonitor({ rise: 1, fall: 1 });
+    monitor.watch({ monitoredService: proxy });
+
+    down.add('http://a2:8080');
+    await monitor.probe();
+    const partial = monitor.getServiceHealth().monitoredService;
+    expect(partial?.status).toBe('healthy');
+    expect(partial?.instances?.map(instance => instance.status)).toEqual(['healthy', 'unhealthy']);
+
+    down.add('http://a1:8080');
+    await monitor.probe();
+    expect(monitor.getServiceHealth().monitoredService).toEqual(
+      expect.objectContaining({ status: 'unhealthy', error: 'http://a1:8080 is down' })
+    );
+  });
+
+  it('should make service proxies skip unhealthy instances', async () => {
+    healthMonitor.watch({ monitoredService: proxy });
+    down.add('http://a1:8080');
+    await healthMonitor.probe();
+
+    await proxy.get('/api/items');
+    await proxy.get('/api/items');
+
+    const targets = mockAxiosInstance.request.mock.calls.map((call: any[]) => call[0].baseURL);
+    expect(targets).toEqual(['http://a2:8080', 'http://a2:8080']);
+  });
+});
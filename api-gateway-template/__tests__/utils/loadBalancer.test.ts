@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Tests for client-side load balancing
+ *
+ * This file tests instance selection for each strategy and the exclusion of
+ * instances that already failed for a request.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { LoadBalancer } from '../../src/utils/loadBalancer';
+
+const instances = [{ url: 'http://a1' }, { url: 'http://a2' }, { url: 'http://a3' }];
+
+/**
+ * Pick `count` instances and return their URLs
+ */
+function pickUrls(balancer: LoadBalancer, count: number, key?: string): string[] {
+  return Array.from({ length: count }, () => balancer.pick(key ? { key } : {}).url);
+}
+
+describe('LoadBalancer', () => {
+  it('should cycle through instances round-robin', () => {
+    const balancer = new LoadBalancer(instances);
+
+    expect(pickUrls(balancer, 4)).toEqual(['http://a1', 'http://a2', 'http://a3', 'http://a1']);
+  });
+
+  it('should spread weighted picks in proportion to weight', () => {
+    const balancer = new LoadBalancer(
+      [
+        { url: 'http://a1', weight: 3 },
+        { url: 'http://a2', weight: 1 },
+      ],
+      'weighted'
+    );
+
+    const urls = pickUrls(balancer, 8);
+    expect(urls.filter(url => url === 'http://a1')).toHaveLength(6);
+    // Smooth weighting never sends the whole share of the heavy instance in one burst
+    expect(urls.slice(0, 4)).toContain('http://a2');
+  });
+
+  it('should prefer the instance with the fewest requests in flight', () => {
+    const balancer = new LoadBalancer(instances, 'least-outstanding');
+
+    const first = balancer.pick();
+    const release = balancer.acquire(first);
+    const second = balancer.pick();
+    balancer.acquire(second);
+    const third = balancer.pick();
+
+    expect(new Set([first.url, second.url, third.url]).size).toBe(3);
+    release();
+    release();
+    expect(balancer.getInstances().map(instance => instance.outstanding)).toEqual(
+      instances.map(instance => (instance.url === second.url ? 1 : 0))
+    );
+  });
+
+  it('should keep a key on the same instance with consistent hashing', () => {
+    const balancer = new LoadBalancer(instances, 'consistent-hash');
+
+    const first = balancer.pick({ key: 'user-1' }).url;
+    expect(pickUrls(balancer, 5, 'user-1')).toEqual(Array(5).fill(first));
+
+    const spread = new Set(
+      Array.from({ length: 50 }, (_, i) => balancer.pick({ key: `u${i}` }).url)
+    );
+    expect(spread.size).toBe(3);
+  });
+
+  it('should skip excluded instances unless every instance is excluded', () => {
+    const balancer = new LoadBalancer(instances, 'consistent-hash');
+    const preferred = balancer.pick({ key: 'user-1' }).url;
+
+    const fallback = balancer.pick({ key: 'user-1', exclude: new Set([preferred]) }).url;
+    expect(fallback).not.toBe(preferred);
+
+    const all = new Set(instances.map(instance => instance.url));
+    expect(balancer.pick({ key: 'user-1', exclude: all }).url).toBe(preferred);
+  });
+
+  it('should require at least one instance', () => {
+    expect(() => new LoadBalancer([])).toThrow();
+  });
+});
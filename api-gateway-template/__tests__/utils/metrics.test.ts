@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Tests for the gateway metrics collector
+ *
+ * This file tests latency percentiles, route and service counters, and the
+ * route template labels recorded by the metrics middleware.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { LatencyHistogram, MetricsCollector } from '../../src/utils/metrics';
+import { createMetricsMiddleware } from '../../src/middleware/metrics';
+import { SystemHealth } from '../../src/types';
+
+const system: SystemHealth = {
+  memory: { used: 1, total: 2, percentage: 50 },
+  cpu: { usage: 0 },
+  uptime: 1,
+};
+
+describe('LatencyHistogram', () => {
+  it('should compute nearest-rank percentiles', () => {
+    const histogram = new LatencyHistogram();
+    for (let i = 1; i <= 100; i++) {
+      histogram.record(i);
+    }
+
+    expect(histogram.getPercentiles()).toEqual({ p50: 50, p95: 95, p99: 99 });
+  });
+
+  it('should keep only the most recent samples', () => {
+    const histogram = new LatencyHistogram(2);
+    histogram.record(1000);
+    histogram.record(10);
+    histogram.record(20);
+
+    expect(histogram.percentile(100)).toBe(20);
+  });
+});
+
+describe('MetricsCollector', () => {
+  let now: number;
+  let collector: MetricsCollector;
+
+  beforeEach(() => {
+    now = 0;
+    collector = new MetricsCollector(() => now);
+  });
+
+  it('should aggregate route counters and treat only 5xx as errors', () => {
+    collector.recordRequest('GET /api/items', 200, 10);
+    collector.recordRequest('GET /api/items', 404, 20);
+    collector.recordRequest('GET /api/items', 502, 30);
+
+    now = 5000;
+    const metrics = collector.getMetrics(system);
+
+    expect(metrics.uptime).toBe(5);
+    expect(metrics.requests).toMatchObject({ total: 3, success: 2, errors: 1 });
+    expect(metrics.routes['GET /api/items']).toMatchObject({
+      total: 3,
+      averageResponseTime: 20,
+      successRate: 66.67,
+      latency: { p50: 20, p95: 30, p99: 30 },
+    });
+    expect(metrics.system).toBe(system);
+  });
+
+  it('should track service availability, last error and coalesced calls', () => {
+    collector.recordServiceCall('serviceA', 10);
+    collector.recordServiceCall('serviceA', 50, 'Request to serviceA timed out');
+    collector.recordCoalescedCall('serviceA');
+
+    const serviceA = collector.getMetrics(system).services.serviceA;
+
+    expect(serviceA).toMatchObject({
+      availability: 50,
+      coalesced: 1,
+      lastError: 'Request to serviceA timed out',
+      requests: { total: 2, success: 1, errors: 1 },
+    });
+    expect(serviceA?.lastErrorTime).toBeDefined();
+  });
+});
+
+describe('metrics middleware', () => {
+  it('should record requests under their full route template', async () => {
+    const collector = new MetricsCollector();
+    const items = express.Router();
+    items.get('/:id', (req, res) => {
+      res.json({ id: req.params.id });
+    });
+    items.get('/:id/fail', () => {
+      throw new Error('boom');
+    });
+
+    const app = express();
+    app.use(createMetricsMiddleware(collector));
+    app.use('/api/items', items);
+    app.use(
+      (error: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        res.status(500).json({ message: error.message });
+      }
+    );
+
+    await request(app).get('/api/items/1');
+    await request(app).get('/api/items/2');
+    await request(app).get('/api/items/3/fail');
+    await request(app).get('/nowhere');
+
+    const { routes } = collector.getMetrics(system);
+
+    expect(routes['GET /api/items/:id']).toMatchObject({ total: 2, errors: 0 });
+    expect(routes['GET /api/items/:id/fail']).toMatchObject({ total: 1, errors: 1 });
+    expect(routes['GET (unmatched)']).toMatchObject({ total: 1 });
+  });
+});
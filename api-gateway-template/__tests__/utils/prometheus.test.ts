@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Tests for the Prometheus metrics endpoint
+ *
+ * This file tests the exposition output for inbound requests, upstream calls
+ * and rate-limit rejections, and the optional bearer token on /metrics.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import config from '../../src/config';
+import { requireMetricsToken, errorNormalizer } from '../../src/middleware';
+import { createMetricsMiddleware } from '../../src/middleware/metrics';
+import { MetricsCollector } from '../../src/utils/metrics';
+import {
+  prometheusRegistry,
+  renderPrometheusMetrics,
+  observeUpstreamCall,
+  countUpstreamRetry,
+  countRateLimitRejection,
+} from '../../src/utils/prometheus';
+
+describe('Prometheus metrics', () => {
+  afterEach(() => {
+    prometheusRegistry.resetMetrics();
+  });
+
+  it('should label request durations by route template, method and status', async () => {
+    const app = express();
+    app.use(createMetricsMiddleware(new MetricsCollector()));
+    app.get('/api/items/:id', (req, res) => {
+      res.json({ id: req.params.id });
+    });
+
+    await request(app).get('/api/items/42');
+    const output = await renderPrometheusMetrics();
+
+    expect(output).toContain(
+      'gateway_http_request_duration_seconds_count{route="/api/items/:id",method="GET",status="200"} 1'
+    );
+    expect(output).not.toContain('/api/items/42');
+  });
+
+  it('should export upstream, retry and rate-limit metrics', async () => {
+    observeUpstreamCall('serviceA', 'get', 200, 120);
+    observeUpstreamCall('serviceA', 'get', undefined, 5000);
+    countUpstreamRetry('serviceA');
+    countRateLimitRejection('default');
+
+    const output = await renderPrometheusMetrics();
+
+    expect(output).toContain(
+      'gateway_upstream_request_duration_seconds_count{service="serviceA",method="GET",status="200"} 1'
+    );
+    expect(output).toContain(
+      'gateway_upstream_request_duration_seconds_count{service="serviceA",method="GET",status="none"} 1'
+    );
+    expect(output).toContain('gateway_upstream_retries_total{service="serviceA"} 1');
+    expect(output).toContain('gateway_rate_limit_rejections_total{limiter="default"} 1');
+  });
+
+  it('should include process metrics', async () => {
+    const output = await renderPrometheusMetrics();
+
+    expect(output).toContain('nodejs_eventloop_lag_seconds');
+    expect(output).toContain('nodejs_heap_size_used_bytes');
+  });
+});
+
+describe('requireMetricsToken', () => {
+  const originalToken = config.METRICS_TOKEN;
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.get('/metrics', requireMetricsToken, (req, res) => {
+      res.send('ok');
+    });
+    app.use(errorNormalizer);
+  });
+
+  afterEach(() => {
+    config.METRICS_TOKEN = originalToken;
+  });
+
+  it('should allow scrapes when no token is configured', async () => {
+    config.METRICS_TOKEN = '';
+
+    expect((await request(app).get('/metrics')).status).toBe(200);
+  });
+
+  it('should require the configured bearer token', async () => {
+    config.METRICS_TOKEN = 'scrape-secret';
+
+    expect((await request(app).get('/metrics')).status).toBe(401);
+    expect((await request(app).get('/metrics').set('Authorization', 'Bearer wrong')).status).toBe(
+      403
+    );
+    expect(
+      (await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret')).status
+    ).toBe(200);
+  });
+});
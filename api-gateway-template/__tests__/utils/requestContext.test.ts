@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Tests for request context propagation
+ *
+ * This file tests that the request context captures the correlation ID,
+ * client address and allowlisted headers, and exposes them to upstream calls.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request } from 'express';
+import {
+  createRequestContext,
+  runWithRequestContext,
+  getRequestContext,
+  getUpstreamContextHeaders,
+} from '../../src/utils/requestContext';
+
+describe('requestContext', () => {
+  const mockRequest = {
+    ip: '203.0.113.7',
+    socket: { remoteAddress: '10.0.0.2' },
+    headers: {
+      authorization: 'Bearer abc',
+      'accept-language': 'de-DE',
+      cookie: 'session=secret',
+      'x-forwarded-for': '203.0.113.7',
+    },
+  } as unknown as Request;
+
+  it('should only capture allowlisted headers', () => {
+    const context = createRequestContext(mockRequest, 'gw-1');
+
+    expect(context).toEqual({
+      correlationId: 'gw-1',
+      clientIp: '203.0.113.7',
+      forwardedFor: '203.0.113.7, 10.0.0.2',
+      forwardedHeaders: {
+        authorization: 'Bearer abc',
+        'accept-language': 'de-DE',
+      },
+    });
+  });
+
+  it('should expose the context to async code run inside it', async () => {
+    const context = createRequestContext(mockRequest, 'gw-2');
+
+    const headers = await runWithRequestContext(context, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return getUpstreamContextHeaders();
+    });
+
+    expect(headers).toEqual({
+      authorization: 'Bearer abc',
+      'accept-language': 'de-DE',
+      'X-Correlation-ID': 'gw-2',
+      'X-Forwarded-For': '203.0.113.7, 10.0.0.2',
+      'X-Real-IP': '203.0.113.7',
+    });
+  });
+
+  it('should return no headers outside of a request', () => {
+    expect(getRequestContext()).toBeUndefined();
+    expect(getUpstreamContextHeaders()).toEqual({});
+  });
+});
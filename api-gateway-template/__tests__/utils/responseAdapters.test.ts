@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Tests for upstream response adapters
+ *
+ * This file tests the mapping of MongoDB template, legacy, raw and gateway
+ * envelopes onto ApiResponse, pagination lifting, format detection, adapted
+ * proxy responses (also in compositions and search) and adapted upstream
+ * errors in the error normalizer.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import {
+  buildResponseMeta,
+  getResponseAdapter,
+  registerResponseAdapter,
+} from '../../src/utils/responseAdapters';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { Composition } from '../../src/utils/composition';
+import { createConfiguredAdapter } from '../../src/utils/search';
+import { errorNormalizer } from '../../src/middleware';
+
+describe('Response adapters', () => {
+  const timestamp = '2026-01-01T00:00:00.000Z';
+
+  it('lifts pagination into meta and computes page flags', () => {
+    expect(buildResponseMeta({ pagination: { page: 2, limit: 10, total: 45 } })).toEqual({
+      page: 2,
+      limit: 10,
+      total: 45,
+      totalPages: 5,
+      hasNext: true,
+      hasPrevious: true,
+    });
+    expect(
+      buildResponseMeta({ currentPage: 3, pageSize: 20, totalCount: 60, source: 'db' })
+    ).toEqual({
+      source: 'db',
+      page: 3,
+      limit: 20,
+      total: 60,
+      totalPages: 3,
+      hasNext: false,
+      hasPrevious: true,
+    });
+  });
+
+  it('maps MongoDB service envelopes', () => {
+    const adapt = getResponseAdapter('mongodb');
+
+    expect(
+      adapt(
+        {
+          success: true,
+          message: 'Users retrieved',
+          data: [{ id: '1' }],
+          timestamp,
+          pagination: { page: 1, limit: 20, total: 1 },
+        },
+        200
+      )
+    ).toEqual({
+      success: true,
+      data: [{ id: '1' }],
+      meta: { page: 1, limit: 20, total: 1, totalPages: 1, hasNext: false, hasPrevious: false },
+      timestamp,
+    });
+
+    expect(
+      adapt(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid email' },
+          details: [{ field: 'email' }],
+          timestamp,
+        },
+        400
+      )
+    ).toEqual({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid email', details: [{ field: 'email' }] },
+      timestamp,
+    });
+  });
+
+  it('maps legacy and raw bodies', () => {
+    expect(getResponseAdapter('legacy')({ success: true, result: { id: 1 } }, 200)).toMatchObject({
+      success: true,
+      data: { id: 1 },
+    });
+    expect(
+      getResponseAdapter('legacy')({ success: false, error: 'User not found', details: null }, 404)
+    ).toMatchObject({ success: false, error: { code: 'NOT_FOUND', message: 'User not found' } });
+
+    expect(getResponseAdapter('raw')([1, 2], 200)).toMatchObject({ success: true, data: [1, 2] });
+    expect(getResponseAdapter('raw')({ message: 'Slow down' }, 429)).toMatchObject({
+      success: false,
+      error: { code: 'RATE_LIMITED', message: 'Slow down' },
+    });
+  });
+
+  it('detects the envelope of a body', () => {
+    const adapt = getResponseAdapter();
+    const gatewayBody = { success: true, data: { id: 1 }, meta: { page: 1 }, timestamp };
+
+    expect(adapt(gatewayBody, 200)).toEqual({
+      ...gatewayBody,
+      meta: { page: 1, hasPrevious: false },
+    });
+    expect(adapt({ success: true, message: 'OK', data: 'x', count: 3 }, 200)).toMatchObject({
+      data: 'x',
+      meta: { count: 3 },
+    });
+    expect(adapt({ id: 1, success: 'yes' }, 200)).toMatchObject({
+      data: { id: 1, success: 'yes' },
+    });
+  });
+
+  it('resolves registered adapters by name', () => {
+    registerResponseAdapter('wrapped', body => ({
+      success: true,
+      data: (body as { payload: unknown }).payload,
+      timestamp,
+    }));
+
+    expect(getResponseAdapter('wrapped')({ payload: 1 }, 200)).toMatchObject({ data: 1 });
+    expect(() => getResponseAdapter('unknown')).toThrow('Unknown response format: unknown');
+  });
+
+  it('unwraps service envelopes in proxy, composition and search responses', async () => {
+    const bodies: Record<string, unknown> = {
+      '/items': {
+        success: true,
+        message: 'Items retrieved',
+        data: [{ id: '1' }, { id: '2' }],
+        timestamp,
+        pagination: { page: 1, limit: 2, total: 3 },
+      },
+      '/search': {
+        success: true,
+        message: 'Search completed',
+        data: [{ name: 'Widget', score: 4 }],
+        timestamp,
+      },
+      '/quota': {
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Quota exceeded' },
+        timestamp,
+      },
+    };
+    const upstream = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(bodies[new URL(req.url ?? '/', 'http://upstream').pathname]));
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+    const proxy = new ServiceProxy('items', {
+      baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`,
+      timeout: 1000,
+      retries: 0,
+      headers: {},
+      responseFormat: 'mongodb',
+    });
+
+    try {
+      const response = await proxy.request('GET', '/items');
+      expect(response.data).toEqual([{ id: '1' }, { id: '2' }]);
+      expect(response.meta).toEqual({
+        page: 1,
+        limit: 2,
+        total: 3,
+        totalPages: 2,
+        hasNext: true,
+        hasPrevious: false,
+      });
+
+      const { data, meta } = await new Composition(
+        [{ name: 'items', service: 'items', path: '/items' }],
+        { items: proxy }
+      ).execute();
+      expect(data.items).toEqual([{ id: '1' }, { id: '2' }]);
+      expect(meta.items).toMatchObject({ total: 3, hasNext: true });
+
+      const search = createConfiguredAdapter({
+        path: '/search',
+        queryParam: 'q',
+        resultsPath: 'data',
+        scoreField: 'score',
+      });
+      expect(await search(proxy, 'widget', 10, 1000)).toEqual([
+        { item: { name: 'Widget', score: 4 }, score: 4 },
+      ]);
+
+      await expect(proxy.request('GET', '/quota')).rejects.toMatchObject({
+        status: 429,
+        envelope: { code: 'RATE_LIMITED', message: 'Quota exceeded' },
+      });
+    } finally {
+      await new Promise(resolve => upstream.close(resolve));
+    }
+  });
+
+  it('normalizes upstream errors with the service adapter', async () => {
+    const upstream = http.createServer((_req, res) => {
+      res.writeHead(409, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          success: false,
+          error: { message: 'Email already registered' },
+          details: { field: 'email' },
+          timestamp,
+        })
+      );
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+    const proxy = new ServiceProxy('users', {
+      baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`,
+      timeout: 1000,
+      retries: 0,
+      headers: {},
+      responseFormat: 'mongodb',
+    });
+
+    const app = express();
+    app.get('/', (_req, _res, next) => {
+      proxy.request('GET', '/users').catch(next);
+    });
+    app.use(errorNormalizer);
+
+    try {
+      const response = await request(app).get('/').expect(409);
+      expect(response.body.error).toEqual({
+        code: 'CONFLICT',
+        message: 'Email already registered',
+        details: { field: 'email' },
+      });
+    } finally {
+      await new Promise(resolve => upstream.close(resolve));
+    }
+  });
+});
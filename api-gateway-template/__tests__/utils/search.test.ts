@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Tests for federated search
+ *
+ * This file tests the merged ranking across sources, the type filter, the
+ * shared deadline budget (and the cancellation of late sources), failed
+ * sources and the configured adapter.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createConfiguredAdapter,
+  FederatedSearch,
+  SearchAdapter,
+  SearchAdapterHit,
+} from '../../src/utils/search';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+import { ServiceUnavailableError } from '../../src/errors';
+
+/**
+ * Adapter answering with fixed hits, optionally after a delay
+ */
+const adapterReturning =
+  (hits: SearchAdapterHit[], delay = 0): SearchAdapter =>
+  () =>
+    new Promise(resolve => setTimeout(() => resolve(hits), delay));
+
+describe('FederatedSearch', () => {
+  const proxies = {
+    products: {} as ServiceProxy,
+    articles: {} as ServiceProxy,
+    users: {} as ServiceProxy,
+  };
+
+  it('merges sources into one ranking by normalized score', async () => {
+    const search = new FederatedSearch(proxies, {
+      products: adapterReturning([
+        { item: 'p1', score: 40 },
+        { item: 'p2', score: 25 },
+        { item: 'p3', score: 10 },
+      ]),
+      // No scores: ranked by position
+      articles: adapterReturning([{ item: 'a1' }, { item: 'a2' }]),
+    });
+
+    const result = await search.search('widget', { limit: 4 });
+
+    expect(result.results).toEqual({ products: ['p1', 'p2', 'p3'], articles: ['a1', 'a2'] });
+    expect(result.total).toBe(5);
+    expect(result.ranked).toEqual([
+      { source: 'products', score: 1, item: 'p1' },
+      { source: 'articles', score: 1, item: 'a1' },
+      { source: 'products', score: 0.5, item: 'p2' },
+      { source: 'articles', score: 0.5, item: 'a2' },
+    ]);
+    expect(result.sources.products).toMatchObject({ status: 'ok', count: 3 });
+    expect(result.sources.articles).toMatchObject({ status: 'ok', count: 2 });
+  });
+
+  it('queries only the requested source', async () => {
+    const products = jest.fn(adapterReturning([{ item: 'p1' }]));
+    const articles = jest.fn(adapterReturning([{ item: 'a1' }]));
+    const search = new FederatedSearch(proxies, { products, articles });
+
+    const result = await search.search('widget', { type: 'articles', limit: 10 });
+
+    expect(products).not.toHaveBeenCalled();
+    expect(articles).toHaveBeenCalledWith(
+      proxies.articles,
+      'widget',
+      10,
+      expect.any(Number),
+      expect.any(AbortSignal)
+    );
+    expect(Object.keys(result.sources)).toEqual(['articles']);
+  });
+
+  it('drops sources that miss the deadline and reports failures', async () => {
+    const search = new FederatedSearch(
+      proxies,
+      {
+        products: adapterReturning([{ item: 'p1' }]),
+        articles: adapterReturning([{ item: 'a1' }], 1000),
+        users: () => Promise.reject(new ServiceUnavailableError('Service users is unavailable')),
+      },
+      100
+    );
+
+    const startTime = Date.now();
+    const result = await search.search('widget', { limit: 10 });
+
+    expect(Date.now() - startTime).toBeLessThan(500);
+    expect(result.ranked.map(hit => hit.item)).toEqual(['p1']);
+    expect(result.sources.articles).toMatchObject({ status: 'timeout', count: 0 });
+    expect(result.sources.users).toMatchObject({
+      status: 'failed',
+      count: 0,
+      errorCode: 'SERVICE_UNAVAILABLE',
+    });
+  });
+
+  it('aborts the calls of sources that miss the deadline', async () => {
+    const signals: Record<string, AbortSignal> = {};
+    const capture =
+      (delay: number): SearchAdapter =>
+      (_proxy, _query, _limit, _timeout, signal) => {
+        signals[delay] = signal;
+        return adapterReturning([], delay)();
+      };
+    const search = new FederatedSearch(
+      proxies,
+      { products: capture(0), articles: capture(1000) },
+      50
+    );
+
+    await search.search('widget', { limit: 10 });
+
+    expect(signals[1000]?.aborted).toBe(true);
+  });
+
+  it('rejects adapters for unknown services', () => {
+    expect(() => new FederatedSearch(proxies, { nope: adapterReturning([]) })).toThrow(
+      'unknown service: nope'
+    );
+  });
+});
+
+describe('createConfiguredAdapter', () => {
+  it('queries the search endpoint and reads hits and scores', async () => {
+    const request = jest.fn().mockResolvedValue({
+      data: { data: { items: [{ id: 1, relevance: 0.9 }, { id: 2 }] } },
+      status: 200,
+      headers: {},
+      responseTime: 1,
+    });
+    const adapter = createConfiguredAdapter({
+      path: '/api/items/search',
+      queryParam: 'term',
+      resultsPath: 'data.items',
+      scoreField: 'relevance',
+    });
+
+    const { signal } = new AbortController();
+    const hits = await adapter({ request } as unknown as ServiceProxy, 'widget', 5, 800, signal);
+
+    expect(request).toHaveBeenCalledWith('GET', '/api/items/search', {
+      params: { term: 'widget', limit: 5 },
+      retries: 0,
+      timeout: 800,
+      signal,
+    });
+    expect(hits).toEqual([{ item: { id: 1, relevance: 0.9 }, score: 0.9 }, { item: { id: 2 } }]);
+  });
+
+  it('cancels the upstream request when the deadline expires', async () => {
+    resetCircuitBreakers();
+    // The upstream never answers; the gateway's connection closes once the call is aborted
+    let connectionClosed: () => void = () => undefined;
+    const upstreamClosed = new Promise<void>(resolve => (connectionClosed = resolve));
+    const upstream = http.createServer(req => req.socket.once('close', connectionClosed));
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    const proxy = new ServiceProxy('slowSearch', {
+      baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`,
+      timeout: 5000,
+      retries: 0,
+      headers: {},
+    });
+    const search = new FederatedSearch(
+      { slowSearch: proxy },
+      {
+        slowSearch: createConfiguredAdapter({
+          path: '/search',
+          queryParam: 'q',
+          resultsPath: '',
+          scoreField: 'score',
+        }),
+      },
+      100
+    );
+
+    try {
+      const result = await search.search('widget', { limit: 10 });
+
+      expect(result.sources.slowSearch).toMatchObject({ status: 'timeout' });
+      await upstreamClosed;
+      expect(getCircuitBreaker('slowSearch').getSnapshot().failures).toBe(0);
+    } finally {
+      upstream.closeAllConnections();
+      await new Promise(resolve => upstream.close(resolve));
+    }
+  });
+});
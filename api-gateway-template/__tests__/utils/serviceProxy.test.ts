@@ -2,7 +2,7 @@
  * @fileoverview Tests for service proxy utilities
  *
  * This file tests the service proxy functionality including
- * retry logic, error handling, and response transformation.
+ * retry logic, error handling, request coalescing and response transformation.
  *
  * @author API Gateway Template
  * @version 1.0.0
@@ -11,6 +11,8 @@
 import axios from 'axios';
 import { ServiceProxy, aggregateServiceData, enrichData } from '../../src/utils/serviceProxy';
 import { ServiceUnavailableError, TimeoutError } from '../../src/errors';
+import { resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+import { runWithRequestContext } from '../../src/utils/requestContext';
 
 // Mock axios
 jest.mock('axios');
@@ -42,6 +44,7 @@ describe('ServiceProxy', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    resetCircuitBreakers();
   });
 
   describe('constructor', () => {
@@ -97,7 +100,7 @@ describe('ServiceProxy', () => {
         .mockRejectedValueOnce(serverError)
         .mockRejectedValueOnce(serverError)
         .mockResolvedValue({
-          data: { success: true },
+          data: { success: true, data: { id: 1 } },
           status: 200,
           headers: {},
         });
@@ -105,7 +108,8 @@ describe('ServiceProxy', () => {
       const result = await serviceProxy.get('/api/test');
 
       expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
-      expect(result.data).toEqual({ success: true });
+      // The gateway envelope is unwrapped
+      expect(result.data).toEqual({ id: 1 });
     });
 
     it('should not retry on client errors', async () => {
@@ -151,6 +155,164 @@ describe('ServiceProxy', () => {
     });
   });
 
+  describe('circuit breaker', () => {
+    it('should fail fast once the circuit is open', async () => {
+      const breakingProxy = new ServiceProxy('breakingService', {
+        baseUrl: 'http://localhost:8080',
+        timeout: 5000,
+        retries: 0,
+        headers: {},
+        circuitBreaker: { failureThreshold: 2, openDuration: 60000 },
+      });
+
+      mockAxiosInstance.request.mockRejectedValue({ status: 503, message: 'Unavailable' });
+
+      await expect(breakingProxy.get('/api/test')).rejects.toMatchObject({ status: 503 });
+      await expect(breakingProxy.get('/api/test')).rejects.toMatchObject({ status: 503 });
+      await expect(breakingProxy.get('/api/test')).rejects.toBeInstanceOf(ServiceUnavailableError);
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+      expect(breakingProxy.getCircuitState().state).toBe('open');
+    });
+
+    it('should not count client errors as failures', async () => {
+      mockAxiosInstance.request.mockRejectedValue({ status: 404, message: 'Not Found' });
+
+      for (let i = 0; i < 6; i++) {
+        await expect(serviceProxy.get('/api/missing')).rejects.toMatchObject({ status: 404 });
+      }
+
+      expect(serviceProxy.getCircuitState()).toMatchObject({ state: 'closed', failures: 0 });
+    });
+  });
+
+  describe('request coalescing', () => {
+    let coalescingProxy: ServiceProxy;
+
+    beforeEach(() => {
+      coalescingProxy = new ServiceProxy('coalescingService', {
+        baseUrl: 'http://localhost:8080',
+        timeout: 5000,
+        retries: 0,
+        headers: {},
+        coalesceGets: true,
+      });
+    });
+
+    /**
+     * Run a call inside a request context carrying the given Authorization header
+     */
+    const asCaller = <T>(authorization: string, fn: () => Promise<T>): Promise<T> =>
+      runWithRequestContext(
+        { correlationId: authorization, forwardedHeaders: { authorization } },
+        fn
+      );
+
+    it('should share one upstream call between identical concurrent GETs', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: { id: 1 }, status: 200, headers: {} });
+
+      const results = await Promise.all([
+        coalescingProxy.get('/api/items/1', { expand: 'tags' }),
+        coalescingProxy.get('/api/items/1', { expand: 'tags' }),
+        coalescingProxy.get('/api/items/1', { expand: 'tags' }),
+      ]);
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.data)).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+      expect(results[1]!.data).not.toBe(results[0]!.data);
+      expect(coalescingProxy.getStats()).toEqual({ inFlightGets: 0, coalescedRequests: 2 });
+    });
+
+    it('should not share calls across params or forwarded identities', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: {}, status: 200, headers: {} });
+
+      await Promise.all([
+        asCaller('Bearer alice', () => coalescingProxy.get('/api/items', { page: 1 })),
+        asCaller('Bearer alice', () => coalescingProxy.get('/api/items', { page: 2 })),
+        asCaller('Bearer bob', () => coalescingProxy.get('/api/items', { page: 1 })),
+      ]);
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(coalescingProxy.getStats().coalescedRequests).toBe(0);
+    });
+
+    it('should share failures and start a new call afterwards', async () => {
+      mockAxiosInstance.request.mockRejectedValueOnce({ status: 404, message: 'Not Found' });
+      mockAxiosInstance.request.mockResolvedValueOnce({ data: {}, status: 200, headers: {} });
+
+      const results = await Promise.allSettled([
+        coalescingProxy.get('/api/items/9'),
+        coalescingProxy.get('/api/items/9'),
+      ]);
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+
+      await coalescingProxy.get('/api/items/9');
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only coalesce when enabled', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: {}, status: 200, headers: {} });
+
+      await Promise.all([serviceProxy.get('/api/items'), serviceProxy.get('/api/items')]);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+
+      await Promise.all([
+        serviceProxy.get('/api/items', undefined, { coalesce: true }),
+        serviceProxy.get('/api/items', undefined, { coalesce: true }),
+      ]);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('load balancing', () => {
+    let balancedProxy: ServiceProxy;
+
+    beforeEach(() => {
+      balancedProxy = new ServiceProxy('balancedService', {
+        baseUrl: 'http://service:8080',
+        timeout: 5000,
+        retries: 1,
+        headers: {},
+        instances: [{ url: 'http://a1:8080' }, { url: 'http://a2:8080' }],
+      });
+    });
+
+    it('should spread requests across instances', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: {}, status: 200, headers: {} });
+
+      await balancedProxy.get('/api/items');
+      await balancedProxy.get('/api/items');
+
+      const targets = mockAxiosInstance.request.mock.calls.map((call: any[]) => call[0].baseURL);
+      expect(targets).toEqual(['http://a1:8080', 'http://a2:8080']);
+      expect(balancedProxy.getInstances().map(instance => instance.outstanding)).toEqual([0, 0]);
+    });
+
+    it('should retry on a different instance than the one that failed', async () => {
+      const hashingProxy = new ServiceProxy('hashingService', {
+        baseUrl: 'http://service:8080',
+        timeout: 5000,
+        retries: 1,
+        headers: {},
+        instances: [{ url: 'http://a1:8080' }, { url: 'http://a2:8080' }],
+        loadBalancing: 'consistent-hash',
+      });
+      mockAxiosInstance.request
+        .mockResolvedValueOnce({ data: {}, status: 200, headers: {} })
+        .mockRejectedValueOnce({ status: 503, message: 'Service Unavailable' })
+        .mockResolvedValueOnce({ data: { ok: true }, status: 200, headers: {} });
+
+      await hashingProxy.get('/api/items/42');
+      const result = await hashingProxy.get('/api/items/42');
+
+      const targets = mockAxiosInstance.request.mock.calls.map((call: any[]) => call[0].baseURL);
+      expect(result.data).toEqual({ ok: true });
+      // The key sticks to one instance until it fails there
+      expect(targets[1]).toBe(targets[0]);
+      expect(targets[2]).not.toBe(targets[1]);
+    });
+  });
+
   describe('POST requests', () => {
     it('should make successful POST request', async () => {
       const mockResponse = {
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for the runtime service registry
+ *
+ * This file tests registration leases, heartbeats, registry files and service
+ * proxies following the registered instances.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { ServiceRegistry } from '../../src/utils/serviceRegistry';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('ServiceRegistry', () => {
+  let now: number;
+  let registry: ServiceRegistry;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1);
+    registry = new ServiceRegistry({ defaultTtl: 10000, now: () => now });
+  });
+
+  it('should drop instances whose lease expires without a heartbeat', () => {
+    registry.register('serviceA', { id: 'a-1', url: 'http://a1:8080' });
+    registry.register('serviceA', { id: 'a-2', url: 'http://a2:8080', ttl: 30000 });
+
+    now += 8000;
+    expect(registry.heartbeat('serviceA', 'a-1')?.expiresAt).toBe(now + 10000);
+
+    now += 15000;
+    expect(registry.getInstances('serviceA').map(instance => instance.id)).toEqual(['a-2']);
+    expect(registry.heartbeat('serviceA', 'missing')).toBeUndefined();
+  });
+
+  it('should treat re-registration as a refresh and change the version only on changes', () => {
+    registry.register('serviceA', { url: 'http://a1:8080' });
+    const version = registry.getVersion('serviceA');
+
+    registry.register('serviceA', { url: 'http://a1:8080' });
+    expect(registry.getVersion('serviceA')).toBe(version);
+    expect(registry.getInstances('serviceA')).toHaveLength(1);
+
+    expect(registry.deregister('serviceA', 'http://a1:8080')).toBe(true);
+    expect(registry.deregister('serviceA', 'http://a1:8080')).toBe(false);
+    expect(registry.getVersion('serviceA')).toBe(version + 1);
+  });
+
+  it('should replace file instances when the registry file is reloaded', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'services.yaml');
+    registry.register('serviceA', { id: 'api', url: 'http://api:8080' });
+
+    fs.writeFileSync(file, 'services:\n  serviceA:\n    - url: http://f1:8080\n      weight: 2\n');
+    registry.loadFile(file);
+    now += 60000;
+    expect(registry.getInstances('serviceA')).toEqual([
+      expect.objectContaining({ url: 'http://f1:8080', weight: 2, source: 'file' }),
+    ]);
+
+    fs.writeFileSync(file, 'services:\n  serviceA:\n    - url: not-a-url\n');
+    expect(() => registry.loadFile(file)).toThrow('Invalid service registry file');
+
+    fs.unlinkSync(file);
+    registry.loadFile(file);
+    expect(registry.getInstances('serviceA')).toEqual([]);
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+});
+
+describe('ServiceProxy with a registry', () => {
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      request: jest.fn().mockResolvedValue({ data: {}, status: 200, headers: {} }),
+      interceptors: {
+        request: { use: jest.fn() },
+        response: { use: jest.fn() },
+      },
+    };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    resetCircuitBreakers();
+  });
+
+  it('should follow registered instances and fall back to the configured URL', async () => {
+    const registry = new ServiceRegistry({ defaultTtl: 10000 });
+    const proxy = new ServiceProxy(
+      'registryService',
+      { baseUrl: 'http://configured:8080', timeout: 5000, retries: 0, headers: {} },
+      registry
+    );
+    const target = () => mockAxiosInstance.request.mock.calls.at(-1)[0].baseURL;
+
+    await proxy.get('/api/items');
+    expect(target()).toBeUndefined();
+
+    registry.register('registryService', { id: 'r-1', url: 'http://registered:8080' });
+    await proxy.get('/api/items');
+    expect(target()).toBe('http://registered:8080');
+
+    registry.deregister('registryService', 'r-1');
+    await proxy.get('/api/items');
+    expect(target()).toBeUndefined();
+  });
+});
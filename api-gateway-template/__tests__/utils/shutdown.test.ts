@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Tests for graceful shutdown
+ *
+ * This file tests that shutdown fails readiness, waits for in-flight requests
+ * up to the deadline, drops idle keep-alive connections and runs the cleanup
+ * hooks in order.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ShutdownManager } from '../../src/utils/shutdown';
+import { isDraining, resetLifecycle } from '../../src/utils/lifecycle';
+
+describe('ShutdownManager', () => {
+  let server: http.Server;
+  let agent: http.Agent;
+  let releaseSlow: () => void;
+  let slowStarted: Promise<void>;
+
+  const get = (path: string): Promise<{ status: number; body: string }> =>
+    new Promise((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      http
+        .get({ host: '127.0.0.1', port, path, agent }, res => {
+          let body = '';
+          res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+        })
+        .on('error', reject);
+    });
+
+  beforeEach(async () => {
+    resetLifecycle();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    let markSlowStarted: () => void = () => undefined;
+    slowStarted = new Promise(resolve => {
+      markSlowStarted = resolve;
+    });
+    releaseSlow = () => undefined;
+    server = http.createServer((req, res) => {
+      if (req.url === '/slow') {
+        releaseSlow = () => res.end('slow done');
+        markSlowStarted();
+        return;
+      }
+      res.end('ok');
+    });
+    agent = new http.Agent({ keepAlive: true });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(() => {
+    agent.destroy();
+    server.close();
+    resetLifecycle();
+    jest.restoreAllMocks();
+  });
+
+  it('waits for in-flight requests before running hooks in order', async () => {
+    const manager = new ShutdownManager(server, { preStopDelay: 0, timeout: 5000 });
+    const calls: string[] = [];
+    manager
+      .addHook('first', () => {
+        calls.push('first');
+      })
+      .addHook('second', () => {
+        calls.push('second');
+        return Promise.resolve();
+      });
+
+    const slow = get('/slow');
+    await slowStarted;
+    expect(manager.inFlight).toBe(1);
+
+    const shutdown = manager.shutdown();
+    expect(isDraining()).toBe(true);
+    expect(manager.shutdown()).toBe(shutdown);
+    expect(manager.isShuttingDown()).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(calls).toEqual([]);
+
+    releaseSlow();
+    await expect(slow).resolves.toEqual({ status: 200, body: 'slow done' });
+    await shutdown;
+    expect(calls).toEqual(['first', 'second']);
+    expect(server.listening).toBe(false);
+  });
+
+  it('drops idle keep-alive connections', async () => {
+    const manager = new ShutdownManager(server, { preStopDelay: 0, timeout: 5000 });
+
+    await get('/');
+    const started = Date.now();
+    await manager.shutdown();
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(manager.inFlight).toBe(0);
+  });
+
+  it('closes remaining connections at the deadline', async () => {
+    const manager = new ShutdownManager(server, { preStopDelay: 0, timeout: 50 });
+    const hook = jest.fn();
+    manager.addHook('cleanup', hook);
+
+    const slow = get('/slow');
+    await slowStarted;
+    await manager.shutdown();
+
+    await expect(slow).rejects.toThrow();
+    expect(hook).toHaveBeenCalled();
+  });
+
+  it('keeps serving during the pre-stop delay', async () => {
+    const manager = new ShutdownManager(server, { preStopDelay: 100, timeout: 5000 });
+
+    const shutdown = manager.shutdown();
+    expect(isDraining()).toBe(true);
+    await expect(get('/')).resolves.toEqual({ status: 200, body: 'ok' });
+
+    await shutdown;
+    expect(server.listening).toBe(false);
+  });
+
+  it('runs drain hooks before the cleanup hooks', async () => {
+    const manager = new ShutdownManager(server, { preStopDelay: 0, timeout: 5000 });
+    const calls: string[] = [];
+    manager
+      .addHook('cleanup', () => {
+        calls.push('cleanup');
+      })
+      .addDrainHook('websockets', () => {
+        calls.push(server.listening ? 'drain (listening)' : 'drain');
+      });
+
+    await manager.shutdown();
+
+    expect(calls).toEqual(['drain', 'cleanup']);
+  });
+
+  it('runs the remaining hooks when one fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const manager = new ShutdownManager(server, { preStopDelay: 0, timeout: 5000 });
+    const after = jest.fn();
+    manager.addHook('failing', () => Promise.reject(new Error('boom'))).addHook('after', after);
+
+    await manager.shutdown();
+
+    expect(after).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Tests for the key/value store implementations
+ *
+ * This file runs the same store contract against the in-memory store and the
+ * Redis-protocol store (backed by an in-process Redis stand-in), plus the
+ * memory-only LRU and TTL behaviour.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import RedisMock from 'ioredis-mock';
+import { KeyValueStore, MemoryStore } from '../../src/utils/store';
+import { RedisStore } from '../../src/utils/redisStore';
+
+const backends: Array<[string, () => KeyValueStore]> = [
+  ['MemoryStore', () => new MemoryStore()],
+  ['RedisStore', () => new RedisStore({ client: new RedisMock(), prefix: 'test:' })],
+];
+
+describe.each(backends)('%s', (name, createStore) => {
+  let store: KeyValueStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.deleteByPrefix('');
+  });
+
+  it('should round-trip JSON values', async () => {
+    await store.set('item', { id: 1, tags: ['a'] });
+
+    expect(await store.get('item')).toEqual({ id: 1, tags: ['a'] });
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should increment counters and apply the TTL only on creation', async () => {
+    expect(await store.incr('hits', 1, 60000)).toBe(1);
+    await store.expire('hits', 120000);
+    expect(await store.incr('hits', 1, 60000)).toBe(2);
+    expect(await store.incr('hits', -1)).toBe(1);
+
+    const ttl = await store.ttl('hits');
+    expect(ttl).toBeGreaterThan(60000);
+    expect(ttl).toBeLessThanOrEqual(120000);
+  });
+
+  it('should report no TTL for persistent keys', async () => {
+    await store.set('persistent', 1);
+
+    expect(await store.ttl('persistent')).toBeUndefined();
+  });
+
+  it('should delete keys individually and by prefix', async () => {
+    await store.set('a:1', 1);
+    await store.set('a:2', 2);
+    await store.set('b:1', 3);
+
+    await store.del('b:1');
+    expect(await store.get('b:1')).toBeUndefined();
+
+    expect(await store.deleteByPrefix('a:')).toBe(2);
+    expect(await store.size()).toBe(0);
+  });
+
+  it(`should report its backend (${name})`, () => {
+    expect(store.backend).toBe(name === 'MemoryStore' ? 'memory' : 'redis');
+  });
+});
+
+describe('RedisStore counters', () => {
+  it('should set the TTL in the same atomic step as the increment', async () => {
+    const client = new RedisMock();
+    const pexpire = jest.spyOn(client, 'pexpire');
+    const store = new RedisStore({ client, prefix: 'atomic:' });
+
+    expect(await store.incr('hits', 1, 60000)).toBe(1);
+    expect(await store.incr('hits', 2, 60000)).toBe(3);
+
+    expect(pexpire).not.toHaveBeenCalled();
+    expect(await store.ttl('hits')).toBeGreaterThan(59000);
+  });
+});
+
+describe('MemoryStore limits', () => {
+  let now: number;
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    now = 0;
+    store = new MemoryStore({ maxEntries: 2, now: () => now });
+  });
+
+  it('should expire keys after their TTL', async () => {
+    await store.set('key', 'value', 1000);
+
+    now = 999;
+    expect(await store.get('key')).toBe('value');
+    now = 1000;
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('should restart expired counters', async () => {
+    await store.incr('hits', 1, 1000);
+    now = 1000;
+
+    expect(await store.incr('hits', 1, 1000)).toBe(1);
+  });
+
+  it('should evict the least recently used key', async () => {
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.get('a');
+    await store.set('c', 3);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('should sweep expired keys that are never read again', async () => {
+    jest.useFakeTimers();
+    try {
+      const swept = new MemoryStore({ now: () => now, sweepInterval: 1000 });
+      await swept.incr('client-1', 1, 500);
+      await swept.incr('client-2', 1, 5000);
+      await swept.set('persistent', 1);
+
+      now = 1000;
+      jest.advanceTimersByTime(1000);
+
+      expect(await swept.size()).toBe(2);
+      expect(swept.sweep()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Tests for streaming response passthrough
+ *
+ * This file tests that upstream responses are piped chunk by chunk with their
+ * headers, left uncompressed, closed when idle or on shutdown, and that the
+ * upstream request is aborted when the client disconnects without counting
+ * against the circuit breaker.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import compression from 'compression';
+import { asyncHandler, errorNormalizer } from '../../src/middleware';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import {
+  closeStreams,
+  getOpenStreamCount,
+  pipeUpstreamStream,
+  shouldCompress,
+} from '../../src/utils/streamProxy';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+
+describe('Streaming passthrough', () => {
+  let upstream: http.Server;
+  let gateway: http.Server;
+  // Upstream responses still open, by path
+  let upstreamResponses: Map<string, http.ServerResponse>;
+  let upstreamRequests: http.IncomingMessage[];
+  let proxy: ServiceProxy;
+
+  const listen = (server: http.Server): Promise<number> =>
+    new Promise(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+    );
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    while (!condition()) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  const get = (path: string, headers: Record<string, string> = {}): Promise<http.IncomingMessage> =>
+    new Promise((resolve, reject) => {
+      const { port } = gateway.address() as AddressInfo;
+      http.get({ host: '127.0.0.1', port, path, headers }, resolve).on('error', reject);
+    });
+
+  const nextChunk = (res: http.IncomingMessage): Promise<string> =>
+    new Promise(resolve => res.once('data', (chunk: Buffer) => resolve(chunk.toString())));
+
+  const readBody = (res: http.IncomingMessage): Promise<string> =>
+    new Promise(resolve => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      res.on('end', () => resolve(body));
+    });
+
+  beforeEach(async () => {
+    resetCircuitBreakers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    upstreamResponses = new Map();
+    upstreamRequests = [];
+
+    upstream = http.createServer((req, res) => {
+      upstreamRequests.push(req);
+      if (req.url?.startsWith('/hang')) {
+        return;
+      }
+      if (req.url?.startsWith('/missing')) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'not found' }));
+        return;
+      }
+      if (req.url?.startsWith('/export')) {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write('{"id":1}\n');
+        upstreamResponses.set(req.url, res);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: first\n\n');
+      upstreamResponses.set(req.url ?? '/', res);
+    });
+    const upstreamPort = await listen(upstream);
+
+    proxy = new ServiceProxy('events', {
+      baseUrl: `http://127.0.0.1:${upstreamPort}`,
+      timeout: 1000,
+      retries: 0,
+      headers: {},
+    });
+    const app = express();
+    app.use(compression({ filter: shouldCompress }));
+    app.get(
+      '/stream/*path',
+      asyncHandler((req, res) =>
+        pipeUpstreamStream(req, res, proxy, {
+          path: req.path.replace('/stream', ''),
+          idleTimeout: req.path.includes('idle') ? 50 : 0,
+        })
+      )
+    );
+    app.use(errorNormalizer);
+    gateway = http.createServer(app);
+    await listen(gateway);
+  });
+
+  afterEach(async () => {
+    for (const res of upstreamResponses.values()) {
+      res.destroy();
+    }
+    closeStreams();
+    gateway.closeAllConnections();
+    upstream.closeAllConnections();
+    await new Promise(resolve => gateway.close(resolve));
+    await new Promise(resolve => upstream.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('pipes events as they arrive, uncompressed and unbuffered', async () => {
+    const res = await get('/stream/events', { 'Accept-Encoding': 'gzip' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    expect(res.headers['content-encoding']).toBeUndefined();
+    expect(res.headers['cache-control']).toBe('no-cache');
+    expect(res.headers['x-accel-buffering']).toBe('no');
+    expect(await nextChunk(res)).toBe('data: first\n\n');
+
+    const body = readBody(res);
+    upstreamResponses.get('/events')?.end('data: second\n\n');
+    expect(await body).toBe('data: second\n\n');
+  });
+
+  it('forwards Last-Event-ID so the upstream can resume', async () => {
+    const res = await get('/stream/events', { 'Last-Event-ID': '42' });
+    await nextChunk(res);
+
+    expect(upstreamRequests[0]?.headers['last-event-id']).toBe('42');
+  });
+
+  it('passes upstream error responses through', async () => {
+    const res = await get('/stream/missing');
+
+    expect(res.statusCode).toBe(404);
+    expect(JSON.parse(await readBody(res))).toEqual({ error: 'not found' });
+  });
+
+  it('aborts the upstream request when the client disconnects', async () => {
+    const res = await get('/stream/events');
+    await nextChunk(res);
+    const upstreamClosed = new Promise(resolve => upstreamRequests[0]?.once('close', resolve));
+
+    res.destroy();
+
+    await upstreamClosed;
+    await waitFor(() => getOpenStreamCount() === 0);
+  });
+
+  it('does not count callers that give up before headers as failures', async () => {
+    const breaker = getCircuitBreaker('events');
+    const controller = new AbortController();
+    const stream = proxy.stream('GET', '/hang', { signal: controller.signal });
+    await waitFor(() => upstreamRequests.length === 1);
+
+    controller.abort();
+
+    await expect(stream).rejects.toThrow();
+    expect(breaker.getSnapshot().failures).toBe(0);
+  });
+
+  it('closes streams that stay idle past the timeout', async () => {
+    const res = await get('/stream/idle');
+    const body = readBody(res);
+
+    expect(await body).toBe('data: first\n\n');
+    expect(getOpenStreamCount()).toBe(0);
+  });
+
+  it('resets idle non-SSE streams so they do not look complete', async () => {
+    const res = await get('/stream/export-idle');
+    const outcome = new Promise(resolve => {
+      res.on('end', () => resolve('complete'));
+      res.on('error', () => resolve('incomplete'));
+    });
+
+    expect(await nextChunk(res)).toBe('{"id":1}\n');
+    expect(await outcome).toBe('incomplete');
+    await waitFor(() => getOpenStreamCount() === 0);
+  });
+
+  it('ends open streams on shutdown', async () => {
+    const res = await get('/stream/events');
+    await nextChunk(res);
+    const body = readBody(res);
+
+    closeStreams();
+
+    expect(await body).toBe('');
+    expect(getOpenStreamCount()).toBe(0);
+  });
+
+  it('answers 503 when the upstream is unreachable', async () => {
+    upstream.close();
+
+    const res = await get('/stream/events');
+
+    expect(res.statusCode).toBe(503);
+    await readBody(res);
+  });
+});
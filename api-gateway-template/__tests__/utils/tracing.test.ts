@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Tests for distributed tracing
+ *
+ * This file tests W3C traceparent parsing, the server span created by the
+ * tracing middleware, client spans per ServiceProxy attempt and the OTLP/HTTP
+ * exporter payload.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import axios from 'axios';
+import express from 'express';
+import request from 'supertest';
+import {
+  parseTraceparent,
+  formatTraceparent,
+  Tracer,
+  SpanData,
+  SpanExporter,
+  OtlpHttpSpanExporter,
+  setTracer,
+} from '../../src/utils/tracing';
+import { createTracingMiddleware } from '../../src/middleware/tracing';
+import { runWithRequestContext } from '../../src/utils/requestContext';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+/**
+ * Exporter that keeps spans in memory
+ */
+class CollectingExporter implements SpanExporter {
+  spans: SpanData[] = [];
+
+  export(spans: SpanData[]): Promise<void> {
+    this.spans.push(...spans);
+    return Promise.resolve();
+  }
+}
+
+describe('traceparent', () => {
+  it('should parse valid headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`, 'vendor=abc')).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      traceFlags: 1,
+      traceState: 'vendor=abc',
+    });
+  });
+
+  it('should reject malformed or all-zero identifiers', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('00-abc-def-01')).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+  });
+
+  it('should format a version 00 header', () => {
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 1 })).toBe(
+      `00-${TRACE_ID}-${PARENT_ID}-01`
+    );
+  });
+});
+
+describe('tracing middleware', () => {
+  let exporter: CollectingExporter;
+  let tracer: Tracer;
+  let app: express.Express;
+
+  beforeEach(() => {
+    exporter = new CollectingExporter();
+    tracer = new Tracer({ exporter });
+
+    app = express();
+    app.use(createTracingMiddleware(() => tracer));
+    app.get('/items/:id', (req, res) => {
+      res.json({ id: req.params.id });
+    });
+  });
+
+  it('should continue the caller trace and emit traceparent', async () => {
+    const response = await request(app)
+      .get('/items/1')
+      .set('traceparent', `00-${TRACE_ID}-${PARENT_ID}-01`);
+    await tracer.flush();
+
+    const [span] = exporter.spans;
+    expect(span).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+      kind: 'server',
+      name: 'GET /items/:id',
+      attributes: { 'http.status_code': 200, 'http.route': '/items/:id' },
+    });
+    expect(response.headers.traceparent).toBe(`00-${TRACE_ID}-${span!.spanId}-01`);
+  });
+
+  it('should start a new trace without a valid traceparent', async () => {
+    const response = await request(app).get('/items/1').set('traceparent', 'garbage');
+    await tracer.flush();
+
+    expect(exporter.spans[0]?.parentSpanId).toBeUndefined();
+    expect(parseTraceparent(response.headers.traceparent)?.traceId).toBe(
+      exporter.spans[0]?.traceId
+    );
+  });
+
+  it('should not export spans of unsampled traces', async () => {
+    await request(app).get('/items/1').set('traceparent', `00-${TRACE_ID}-${PARENT_ID}-00`);
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+});
+
+describe('ServiceProxy spans', () => {
+  let exporter: CollectingExporter;
+  let tracer: Tracer;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    exporter = new CollectingExporter();
+    tracer = new Tracer({ exporter });
+    setTracer(tracer);
+
+    mockAxiosInstance = {
+      request: jest.fn(),
+      interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } },
+    };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+  });
+
+  afterEach(() => {
+    setTracer(undefined);
+    resetCircuitBreakers();
+    jest.clearAllMocks();
+  });
+
+  it('should create a child span per attempt, including retries', async () => {
+    const proxy = new ServiceProxy('tracedService', {
+      baseUrl: 'http://upstream',
+      timeout: 1000,
+      retries: 1,
+      headers: {},
+    });
+    mockAxiosInstance.request
+      .mockRejectedValueOnce({ status: 503, message: 'Unavailable', response: { status: 503 } })
+      .mockResolvedValueOnce({ data: {}, status: 200, headers: {} });
+
+    await runWithRequestContext(
+      {
+        correlationId: 'test',
+        forwardedHeaders: {},
+        traceContext: { traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 1 },
+      },
+      () => proxy.get('/api/items')
+    );
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(2);
+    expect(exporter.spans.map(span => span.attributes['gateway.attempt'])).toEqual([1, 2]);
+    expect(exporter.spans[0]).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+      kind: 'client',
+      status: { code: 'ERROR' },
+      attributes: { 'peer.service': 'tracedService', 'http.status_code': 503 },
+    });
+    expect(exporter.spans[1]?.status.code).toBe('UNSET');
+
+    const sentHeaders = mockAxiosInstance.request.mock.calls[1][0].headers;
+    expect(sentHeaders.traceparent).toBe(`00-${TRACE_ID}-${exporter.spans[1]!.spanId}-01`);
+  }, 10000);
+});
+
+describe('OtlpHttpSpanExporter', () => {
+  it('should post spans as OTLP/JSON', async () => {
+    mockedAxios.post.mockResolvedValue({ status: 200 });
+    const exporter = new OtlpHttpSpanExporter({
+      url: 'http://localhost:4318/v1/traces',
+      serviceName: 'api-gateway',
+    });
+
+    await exporter.export([
+      {
+        traceId: TRACE_ID,
+        spanId: PARENT_ID,
+        name: 'GET /items/:id',
+        kind: 'server',
+        startTime: 1700000000000.5,
+        endTime: 1700000000010,
+        durationMs: 9.5,
+        attributes: { 'http.status_code': 200, 'http.route': '/items/:id' },
+        status: { code: 'ERROR', message: 'HTTP 500' },
+      },
+    ]);
+
+    const [url, payload] = mockedAxios.post.mock.calls[0]!;
+    const body = payload as any;
+    const span = body.resourceSpans[0].scopeSpans[0].spans[0];
+
+    expect(url).toBe('http://localhost:4318/v1/traces');
+    expect(body.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'api-gateway' } },
+    ]);
+    expect(span).toMatchObject({
+      traceId: TRACE_ID,
+      kind: 2,
+      startTimeUnixNano: '1700000000000500000',
+      endTimeUnixNano: '1700000000010000000',
+      status: { code: 2, message: 'HTTP 500' },
+    });
+    expect(span.attributes).toContainEqual({ key: 'http.status_code', value: { intValue: 200 } });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Tests for WebSocket proxying
+ *
+ * This file tests upgrade routing to an upstream echo server, handshake
+ * authentication, connection limits, correlation IDs and closing connections
+ * on shutdown.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { AddressInfo, Socket } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocketProxy, WebSocketProxyOptions } from '../../src/utils/websocketProxy';
+import { ServiceProxy } from '../../src/utils/serviceProxy';
+import { JwtVerifier } from '../../src/utils/jwt';
+import { JwtConfig } from '../../src/config';
+import { resetLifecycle, setDraining } from '../../src/utils/lifecycle';
+import { resetCircuitBreakers } from '../../src/utils/circuitBreaker';
+
+const SECRET = 'test-secret';
+
+const jwtConfig: JwtConfig = {
+  secret: SECRET,
+  publicKey: '',
+  jwksUri: '',
+  jwksCacheTtl: 600000,
+  issuer: '',
+  audience: [],
+  algorithms: ['HS256'],
+  clockTolerance: 0,
+};
+
+/**
+ * Result of a handshake: the upgraded socket, or the refusal response
+ */
+type Handshake =
+  | { status: 101; socket: Socket }
+  | { status: number; body: { error?: { code: string } } };
+
+describe('WebSocketProxy', () => {
+  let upstream: http.Server;
+  let gateway: http.Server;
+  let upstreamHeaders: http.IncomingHttpHeaders[];
+  let wsProxy: WebSocketProxy;
+  // Sockets to close after each test, on both sides of the gateway
+  const sockets: Socket[] = [];
+
+  const listen = (server: http.Server): Promise<number> =>
+    new Promise(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+    );
+
+  const createGateway = async (options: Partial<WebSocketProxyOptions> = {}): Promise<void> => {
+    const upstreamPort = (upstream.address() as AddressInfo).port;
+    wsProxy = new WebSocketProxy({
+      routes: { '/chat': 'chat' },
+      authRequired: false,
+      maxConnections: 10,
+      maxConnectionsPerIp: 10,
+      verifier: new JwtVerifier({ ...jwtConfig, secret: '' }),
+      proxies: {
+        chat: new ServiceProxy('chat', {
+          baseUrl: `http://127.0.0.1:${upstreamPort}`,
+          timeout: 1000,
+          retries: 0,
+          headers: {},
+        }),
+      },
+      ...options,
+    });
+    gateway = http.createServer();
+    gateway.on('upgrade', (req, socket, head: Buffer) => {
+      void wsProxy.handleUpgrade(req, socket, head);
+    });
+    await listen(gateway);
+  };
+
+  const connect = (path: string, headers: Record<string, string> = {}): Promise<Handshake> =>
+    new Promise((resolve, reject) => {
+      const { port } = gateway.address() as AddressInfo;
+      const req = http.request({
+        host: '127.0.0.1',
+        port,
+        path,
+        headers: { Connection: 'Upgrade', Upgrade: 'websocket', ...headers },
+      });
+      req.on('upgrade', (_res, socket: Socket) => {
+        sockets.push(socket);
+        resolve({ status: 101, socket });
+      });
+      req.on('response', res => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(body) }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+  const upgraded = (handshake: Handshake): Socket => {
+    expect(handshake.status).toBe(101);
+    return (handshake as { socket: Socket }).socket;
+  };
+
+  const nextData = (socket: Socket): Promise<Buffer> =>
+    new Promise(resolve => socket.once('data', resolve));
+
+  beforeEach(async () => {
+    resetCircuitBreakers();
+    resetLifecycle();
+    upstreamHeaders = [];
+    upstream = http.createServer();
+    upstream.on('upgrade', (req: http.IncomingMessage, socket: Socket) => {
+      upstreamHeaders.push(req.headers);
+      sockets.push(socket);
+      socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n'
+      );
+      socket.on('data', (data: Buffer) => socket.write(data));
+      socket.on('end', () => socket.end());
+      socket.on('error', () => socket.destroy());
+    });
+    await listen(upstream);
+  });
+
+  afterEach(async () => {
+    for (const socket of sockets.splice(0)) {
+      socket.destroy();
+    }
+    await wsProxy.closeAll(100);
+    await new Promise(resolve => gateway.close(resolve));
+    await new Promise(resolve => upstream.close(resolve));
+    resetLifecycle();
+  });
+
+  it('proxies upgrades on a configured prefix and pipes data both ways', async () => {
+    await createGateway();
+
+    const socket = upgraded(await connect('/chat/room-1', { 'X-Correlation-ID': 'corr-1' }));
+    socket.write('hello');
+
+    expect((await nextData(socket)).toString()).toBe('hello');
+    expect(upstreamHeaders[0]?.['x-correlation-id']).toBe('corr-1');
+    expect(wsProxy.getStats()).toEqual({ connections: 1, byService: { chat: 1 } });
+  });
+
+  it('assigns a correlation ID when the client sends none', async () => {
+    await createGateway();
+
+    upgraded(await connect('/chat'));
+
+    expect(upstreamHeaders[0]?.['x-correlation-id']).toMatch(/^ws-/);
+  });
+
+  it('refuses paths without a route', async () => {
+    await createGateway();
+
+    const handshake = await connect('/other');
+
+    expect(handshake).toMatchObject({ status: 404, body: { error: { code: 'NOT_FOUND' } } });
+    expect(upstreamHeaders).toHaveLength(0);
+  });
+
+  it('requires a valid token when authentication is required', async () => {
+    await createGateway({ authRequired: true, verifier: new JwtVerifier(jwtConfig) });
+    const token = jwt.sign({ sub: 'user-1' }, SECRET, { algorithm: 'HS256', expiresIn: 60 });
+
+    expect(await connect('/chat')).toMatchObject({
+      status: 401,
+      body: { error: { code: 'AUTH_REQUIRED' } },
+    });
+    expect(await connect('/chat?access_token=not-a-token')).toMatchObject({
+      status: 401,
+      body: { error: { code: 'INVALID_TOKEN' } },
+    });
+    upgraded(await connect(`/chat?access_token=${token}`));
+    upgraded(await connect('/chat', { Authorization: `Bearer ${token}` }));
+  });
+
+  it('limits connections per client', async () => {
+    await createGateway({ maxConnectionsPerIp: 1 });
+
+    const first = upgraded(await connect('/chat'));
+    expect(await connect('/chat')).toMatchObject({
+      status: 429,
+      body: { error: { code: 'RATE_LIMITED' } },
+    });
+
+    const closed = new Promise(resolve => first.once('close', resolve));
+    first.destroy();
+    await closed;
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    upgraded(await connect('/chat'));
+  });
+
+  it('refuses new connections while draining', async () => {
+    await createGateway();
+    setDraining(true);
+
+    expect(await connect('/chat')).toMatchObject({
+      status: 503,
+      body: { error: { code: 'SERVICE_UNAVAILABLE' } },
+    });
+  });
+
+  it('answers 502 when the upstream is unreachable', async () => {
+    await createGateway();
+    upstream.close();
+
+    expect(await connect('/chat')).toMatchObject({
+      status: 502,
+      body: { error: { code: 'GATEWAY_ERROR' } },
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(wsProxy.getStats().connections).toBe(0);
+  });
+
+  it('sends a going-away close frame on shutdown', async () => {
+    await createGateway();
+    const socket = upgraded(await connect('/chat'));
+    socket.write('ping');
+    await nextData(socket);
+
+    const frame = nextData(socket);
+    const closed = new Promise(resolve => socket.once('close', resolve));
+    await wsProxy.closeAll();
+
+    expect([...(await frame)]).toEqual([0x88, 0x02, 0x03, 0xe9]);
+    await closed;
+    expect(wsProxy.getStats().connections).toBe(0);
+  });
+});
@@ -10,6 +10,7 @@
  */
 
 import dotenv from 'dotenv';
+import { LoadBalancingStrategy, ServiceInstanceConfig } from '../types';
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +27,113 @@ export interface ServiceConfig {
   retries: number;
   /** Default headers to send with requests */
   headers: Record<string, string>;
+  /** Per-service circuit breaker overrides */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Share one upstream call between identical concurrent GET requests */
+  coalesceGets?: boolean;
+  /** Instances to balance across (the service uses `url` alone when omitted) */
+  instances?: ServiceInstanceConfig[];
+  /** Instance selection strategy */
+  loadBalancing?: LoadBalancingStrategy;
+  /** Gateway is not ready while a critical service is down; optional ones only degrade it */
+  critical?: boolean;
+  /** Search adapter; the service takes part in /api/search when set */
+  search?: SearchAdapterConfig;
+  /** Response adapter name: auto, gateway, mongodb, legacy, raw or a registered one */
+  responseFormat?: string;
+}
+
+/**
+ * Search adapter configuration interface
+ */
+export interface SearchAdapterConfig {
+  /** Search endpoint of the service */
+  path: string;
+  /** Query parameter carrying the search text */
+  queryParam: string;
+  /**
+   * Dotted path of the result array in the response data (the body, unwrapped from
+   * the service's envelope), used when the data is not the array itself
+   */
+  resultsPath: string;
+  /** Result field holding the relevance score (results are ranked by position without it) */
+  scoreField: string;
+}
+
+/**
+ * Circuit breaker configuration interface
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** Time in milliseconds the circuit stays open before probing */
+  openDuration: number;
+  /** Successful half-open probes required to close the circuit */
+  halfOpenMaxProbes: number;
+}
+
+/**
+ * Distributed tracing configuration interface
+ */
+export interface TracingConfig {
+  /** Create and export spans (W3C trace context is only propagated when enabled) */
+  enabled: boolean;
+  /** Span exporter: JSON lines on stdout, JSON lines in a file, or OTLP/HTTP */
+  exporter: 'console' | 'file' | 'otlp';
+  /** Output file for the 'file' exporter */
+  filePath: string;
+  /** OTLP/HTTP traces endpoint for the 'otlp' exporter */
+  otlpEndpoint: string;
+  /** service.name reported to the collector */
+  serviceName: string;
+}
+
+/**
+ * WebSocket proxying configuration interface
+ */
+export interface WebSocketConfig {
+  /** Path prefix -> service name for upgrade requests, e.g. { '/chat': 'serviceB' } */
+  routes: Record<string, string>;
+  /** Reject handshakes without a valid JWT (when JWT verification is configured) */
+  authRequired: boolean;
+  /** Maximum concurrent proxied connections (0 for no limit) */
+  maxConnections: number;
+  /** Maximum concurrent proxied connections per client IP (0 for no limit) */
+  maxConnectionsPerIp: number;
+}
+
+/**
+ * Batch endpoint configuration interface
+ */
+export interface BatchConfig {
+  /** Maximum sub-requests in one batch */
+  maxRequests: number;
+  /** Sub-requests executed at the same time */
+  concurrency: number;
+  /** Deadline for the whole batch (milliseconds) */
+  timeout: number;
+}
+
+/**
+ * JWT authentication configuration interface
+ */
+export interface JwtConfig {
+  /** Shared secret for HS256 tokens */
+  secret: string;
+  /** PEM public key for RS256 tokens (used when no JWKS document is configured) */
+  publicKey: string;
+  /** JWKS document (http(s) URL or file path) providing RS256 keys by `kid` */
+  jwksUri: string;
+  /** How long a loaded JWKS document is reused (milliseconds) */
+  jwksCacheTtl: number;
+  /** Required `iss` claim (not checked when empty) */
+  issuer: string;
+  /** Accepted `aud` claims (not checked when empty) */
+  audience: string[];
+  /** Accepted signing algorithms */
+  algorithms: Array<'HS256' | 'RS256'>;
+  /** Allowed clock skew when checking `exp` and `nbf` (seconds) */
+  clockTolerance: number;
 }
 
 /**
@@ -53,16 +161,32 @@ export interface ServerConfig {
   };
   /** Default retry attempts for failed requests */
   RETRY_ATTEMPTS: number;
+  /** Default circuit breaker settings applied to every service */
+  CIRCUIT_BREAKER: CircuitBreakerConfig;
   /** Default pagination limit */
   DEFAULT_LIMIT: number;
   /** Enable response caching */
   ENABLE_CACHE: boolean;
   /** Cache TTL in seconds */
   CACHE_TTL: number;
+  /** Maximum number of cached responses (LRU eviction beyond this) */
+  CACHE_MAX_ENTRIES: number;
+  /** Backend for rate limit counters and cached responses ('memory' or 'redis') */
+  STORE_BACKEND: 'memory' | 'redis';
+  /** Redis-protocol connection URL used when STORE_BACKEND is 'redis' */
+  REDIS_URL: string;
+  /** Prefix for every key written to the shared store */
+  STORE_KEY_PREFIX: string;
   /** Rate limit window in minutes */
   RATE_LIMIT_WINDOW: number;
   /** Maximum requests per window */
   RATE_LIMIT_MAX: number;
+  /** Algorithm of the default rate limiter */
+  RATE_LIMIT_ALGORITHM: 'fixed-window' | 'sliding-window' | 'token-bucket';
+  /** Header identifying the tenant for rate limits keyed by tenant */
+  RATE_LIMIT_TENANT_HEADER: string;
+  /** Distributed tracing settings */
+  TRACING: TracingConfig;
   /** Log level */
   LOG_LEVEL: string;
   /** Enable request logging */
@@ -71,8 +195,103 @@ export interface ServerConfig {
   HEALTH_CHECK_TIMEOUT: number;
   /** Health check interval (milliseconds) */
   HEALTH_CHECK_INTERVAL: number;
+  /** Consecutive successful probes before an unhealthy instance is healthy again */
+  HEALTH_CHECK_RISE: number;
+  /** Consecutive failed probes before a healthy instance is unhealthy */
+  HEALTH_CHECK_FALL: number;
+  /** Delay between failing readiness and closing the listener on shutdown (milliseconds) */
+  SHUTDOWN_PRE_STOP_DELAY: number;
+  /** Deadline for in-flight requests to finish on shutdown (milliseconds) */
+  SHUTDOWN_TIMEOUT: number;
+  /** Close streaming responses after this long without upstream data (milliseconds, 0 disables) */
+  STREAM_IDLE_TIMEOUT: number;
   /** CORS allowed origins */
   CORS_ORIGINS: string[];
+  /** Inbound headers forwarded to every upstream call (lower-cased) */
+  FORWARDED_HEADERS: string[];
+  /** Path to the declarative route table (JSON or YAML) */
+  ROUTES_FILE: string;
+  /** Bearer token protecting /api/admin endpoints (admin API disabled when empty) */
+  ADMIN_TOKEN: string;
+  /** Bearer token required to scrape /metrics (endpoint is public when empty) */
+  METRICS_TOKEN: string;
+  /** JWT verification settings (authentication is disabled when no key is configured) */
+  JWT: JwtConfig;
+  /** Path to the API key plans (and keys) file (JSON or YAML) */
+  API_KEYS_FILE: string;
+  /** Where API key records are looked up: the API keys file or the shared store */
+  API_KEYS_SOURCE: 'file' | 'store';
+  /** Watched file listing service instances (disabled when empty) */
+  SERVICE_REGISTRY_FILE: string;
+  /** Lease of instances registered through the admin API (milliseconds) */
+  SERVICE_REGISTRY_TTL: number;
+  /** WebSocket upgrade proxying (disabled when no routes are configured) */
+  WEBSOCKET: WebSocketConfig;
+  /** POST /api/batch limits */
+  BATCH: BatchConfig;
+  /** Deadline budget for /api/search; sources answering later are dropped (milliseconds) */
+  SEARCH_TIMEOUT: number;
+}
+
+const LOAD_BALANCING_STRATEGIES: LoadBalancingStrategy[] = [
+  'round-robin',
+  'weighted',
+  'least-outstanding',
+  'consistent-hash',
+];
+
+/**
+ * Parse a service's instance list from `<PREFIX>_URLS` (comma-separated, each
+ * entry `url` or `url|weight`) and its strategy from `<PREFIX>_LB_STRATEGY`
+ *
+ * @example
+ * SERVICE_A_URLS=http://a1:8080|3,http://a2:8080
+ * SERVICE_A_LB_STRATEGY=weighted
+ */
+function parseServiceInstances(prefix: string): Pick<ServiceConfig, 'instances' | 'loadBalancing'> {
+  const urls = process.env[`${prefix}_URLS`];
+  if (!urls) {
+    return {};
+  }
+
+  const instances = urls
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [url = '', weight] = entry.split('|').map(part => part.trim());
+      return weight ? { url, weight: parseInt(weight, 10) } : { url };
+    });
+  const strategy = process.env[`${prefix}_LB_STRATEGY`] as LoadBalancingStrategy | undefined;
+  const loadBalancing =
+    strategy && LOAD_BALANCING_STRATEGIES.includes(strategy) ? strategy : undefined;
+
+  return { instances, ...(loadBalancing ? { loadBalancing } : {}) };
+}
+
+/**
+ * Parse a service's search adapter from `<PREFIX>_SEARCH_PATH` (enables search)
+ * and the optional `_SEARCH_QUERY_PARAM`, `_SEARCH_RESULTS_PATH` and
+ * `_SEARCH_SCORE_FIELD`
+ *
+ * @example
+ * SERVICE_A_SEARCH_PATH=/api/items/search
+ * SERVICE_A_SEARCH_RESULTS_PATH=items
+ */
+function parseServiceSearch(prefix: string): Pick<ServiceConfig, 'search'> {
+  const path = process.env[`${prefix}_SEARCH_PATH`];
+  if (!path) {
+    return {};
+  }
+
+  return {
+    search: {
+      path,
+      queryParam: process.env[`${prefix}_SEARCH_QUERY_PARAM`] || 'q',
+      resultsPath: process.env[`${prefix}_SEARCH_RESULTS_PATH`] ?? 'data',
+      scoreField: process.env[`${prefix}_SEARCH_SCORE_FIELD`] || 'score',
+    },
+  };
 }
 
 /**
@@ -110,8 +329,13 @@ const config: ServerConfig = {
   SERVICES: {
     serviceA: {
       url: process.env.SERVICE_A_URL || 'http://localhost:8080',
+      ...parseServiceInstances('SERVICE_A'),
       timeout: parseInt(process.env.SERVICE_A_TIMEOUT || '15000', 10),
       retries: parseInt(process.env.SERVICE_A_RETRIES || '3', 10),
+      coalesceGets: process.env.SERVICE_A_COALESCE_GETS === 'true',
+      critical: process.env.SERVICE_A_CRITICAL === 'true',
+      ...parseServiceSearch('SERVICE_A'),
+      responseFormat: process.env.SERVICE_A_RESPONSE_FORMAT || 'auto',
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
@@ -119,8 +343,13 @@ const config: ServerConfig = {
     },
     serviceB: {
       url: process.env.SERVICE_B_URL || 'http://localhost:3002',
+      ...parseServiceInstances('SERVICE_B'),
       timeout: parseInt(process.env.SERVICE_B_TIMEOUT || '10000', 10),
       retries: parseInt(process.env.SERVICE_B_RETRIES || '2', 10),
+      coalesceGets: process.env.SERVICE_B_COALESCE_GETS === 'true',
+      critical: process.env.SERVICE_B_CRITICAL === 'true',
+      ...parseServiceSearch('SERVICE_B'),
+      responseFormat: process.env.SERVICE_B_RESPONSE_FORMAT || 'auto',
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
@@ -128,8 +357,13 @@ const config: ServerConfig = {
     },
     serviceC: {
       url: process.env.SERVICE_C_URL || 'http://localhost:3003',
+      ...parseServiceInstances('SERVICE_C'),
       timeout: parseInt(process.env.SERVICE_C_TIMEOUT || '5000', 10),
       retries: parseInt(process.env.SERVICE_C_RETRIES || '1', 10),
+      coalesceGets: process.env.SERVICE_C_COALESCE_GETS === 'true',
+      critical: process.env.SERVICE_C_CRITICAL === 'true',
+      ...parseServiceSearch('SERVICE_C'),
+      responseFormat: process.env.SERVICE_C_RESPONSE_FORMAT || 'auto',
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
@@ -137,6 +371,16 @@ const config: ServerConfig = {
     },
   },
 
+  // ===========================
+  // DECLARATIVE ROUTES
+  // ===========================
+
+  /**
+   * Route table file with RouteConfig entries mounted under /api
+   * Missing files are ignored so the gateway runs without a route table
+   */
+  ROUTES_FILE: process.env.ROUTES_FILE || 'config/routes.yaml',
+
   // ===========================
   // SECURITY AND CORS SETTINGS
   // ===========================
@@ -156,21 +400,92 @@ const config: ServerConfig = {
     ],
   },
 
+  ADMIN_TOKEN: process.env.ADMIN_TOKEN || '',
+  METRICS_TOKEN: process.env.METRICS_TOKEN || '',
+
+  JWT: {
+    secret: process.env.JWT_SECRET || '',
+    publicKey: (process.env.JWT_PUBLIC_KEY || '').replace(/\\n/g, '\n'),
+    jwksUri: process.env.JWT_JWKS_URI || '',
+    jwksCacheTtl: parseInt(process.env.JWT_JWKS_CACHE_TTL_MS || '600000', 10), // 10 minutes
+    issuer: process.env.JWT_ISSUER || '',
+    audience: (process.env.JWT_AUDIENCE || '')
+      .split(',')
+      .map(audience => audience.trim())
+      .filter(Boolean),
+    algorithms: (process.env.JWT_ALGORITHMS || 'HS256,RS256')
+      .split(',')
+      .map(algorithm => algorithm.trim().toUpperCase())
+      .filter((algorithm): algorithm is 'HS256' | 'RS256' =>
+        ['HS256', 'RS256'].includes(algorithm)
+      ),
+    clockTolerance: parseInt(process.env.JWT_CLOCK_TOLERANCE_SEC || '0', 10),
+  },
+
+  API_KEYS_FILE: process.env.API_KEYS_FILE || 'config/api-keys.yaml',
+  API_KEYS_SOURCE: process.env.API_KEYS_SOURCE === 'store' ? 'store' : 'file',
+
+  SERVICE_REGISTRY_FILE: process.env.SERVICE_REGISTRY_FILE || '',
+  SERVICE_REGISTRY_TTL: parseInt(process.env.SERVICE_REGISTRY_TTL_MS || '30000', 10), // 30 seconds
+
+  WEBSOCKET: {
+    routes: Object.fromEntries(
+      (process.env.WEBSOCKET_ROUTES || '')
+        .split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter((entry): entry is [string, string] => entry.length === 2 && entry.every(Boolean))
+    ),
+    authRequired: process.env.WEBSOCKET_AUTH_REQUIRED === 'true',
+    maxConnections: parseInt(process.env.WEBSOCKET_MAX_CONNECTIONS || '1000', 10),
+    maxConnectionsPerIp: parseInt(process.env.WEBSOCKET_MAX_CONNECTIONS_PER_IP || '50', 10),
+  },
+
+  BATCH: {
+    maxRequests: parseInt(process.env.BATCH_MAX_REQUESTS || '20', 10),
+    concurrency: parseInt(process.env.BATCH_CONCURRENCY || '5', 10),
+    timeout: parseInt(process.env.BATCH_TIMEOUT_MS || '10000', 10),
+  },
+
+  SEARCH_TIMEOUT: parseInt(process.env.SEARCH_TIMEOUT_MS || '2000', 10),
+
   // ===========================
   // REQUEST CONFIGURATION
   // ===========================
 
   REQUEST_TIMEOUT: parseInt(process.env.REQUEST_TIMEOUT || '30000', 10),
+  FORWARDED_HEADERS: (process.env.FORWARDED_HEADERS || 'authorization,accept-language')
+    .split(',')
+    .map(header => header.trim().toLowerCase())
+    .filter(Boolean),
   RETRY_ATTEMPTS: parseInt(process.env.RETRY_ATTEMPTS || '3', 10),
   DEFAULT_LIMIT: parseInt(process.env.DEFAULT_LIMIT || '20', 10),
   MAX_LIMIT: parseInt(process.env.MAX_LIMIT || '100', 10),
 
+  // ===========================
+  // CIRCUIT BREAKER
+  // ===========================
+
+  CIRCUIT_BREAKER: {
+    failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    openDuration: parseInt(process.env.CIRCUIT_BREAKER_OPEN_DURATION_MS || '30000', 10),
+    halfOpenMaxProbes: parseInt(process.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES || '1', 10),
+  },
+
   // ===========================
   // CACHING CONFIGURATION
   // ===========================
 
   ENABLE_CACHE: process.env.ENABLE_CACHE === 'true',
   CACHE_TTL: parseInt(process.env.CACHE_TTL || '300', 10), // 5 minutes
+  CACHE_MAX_ENTRIES: parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+
+  // ===========================
+  // SHARED STORE CONFIGURATION
+  // ===========================
+
+  STORE_BACKEND: process.env.STORE_BACKEND === 'redis' ? 'redis' : 'memory',
+  REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
+  STORE_KEY_PREFIX: process.env.STORE_KEY_PREFIX || 'gateway:',
 
   // ===========================
   // RATE LIMITING
@@ -178,6 +493,12 @@ const config: ServerConfig = {
 
   RATE_LIMIT_WINDOW: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
   RATE_LIMIT_MAX: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1000', 10),
+  RATE_LIMIT_ALGORITHM:
+    process.env.RATE_LIMIT_ALGORITHM === 'sliding-window' ||
+    process.env.RATE_LIMIT_ALGORITHM === 'token-bucket'
+      ? process.env.RATE_LIMIT_ALGORITHM
+      : 'fixed-window',
+  RATE_LIMIT_TENANT_HEADER: (process.env.RATE_LIMIT_TENANT_HEADER || 'x-tenant-id').toLowerCase(),
 
   // ===========================
   // LOGGING CONFIGURATION
@@ -186,12 +507,42 @@ const config: ServerConfig = {
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
   ENABLE_REQUEST_LOGGING: process.env.ENABLE_REQUEST_LOGGING !== 'false',
 
+  // ===========================
+  // TRACING CONFIGURATION
+  // ===========================
+
+  TRACING: {
+    enabled: process.env.TRACING_ENABLED === 'true',
+    exporter:
+      process.env.TRACING_EXPORTER === 'file' || process.env.TRACING_EXPORTER === 'otlp'
+        ? process.env.TRACING_EXPORTER
+        : 'console',
+    filePath: process.env.TRACING_FILE || 'logs/traces.jsonl',
+    otlpEndpoint: process.env.OTLP_TRACES_ENDPOINT || 'http://localhost:4318/v1/traces',
+    serviceName: process.env.TRACING_SERVICE_NAME || 'api-gateway',
+  },
+
   // ===========================
   // HEALTH CHECK CONFIGURATION
   // ===========================
 
   HEALTH_CHECK_TIMEOUT: parseInt(process.env.HEALTH_CHECK_TIMEOUT || '5000', 10),
   HEALTH_CHECK_INTERVAL: parseInt(process.env.HEALTH_CHECK_INTERVAL || '30000', 10),
+  HEALTH_CHECK_RISE: parseInt(process.env.HEALTH_CHECK_RISE || '2', 10),
+  HEALTH_CHECK_FALL: parseInt(process.env.HEALTH_CHECK_FALL || '3', 10),
+
+  // ===========================
+  // SHUTDOWN CONFIGURATION
+  // ===========================
+
+  SHUTDOWN_PRE_STOP_DELAY: parseInt(process.env.SHUTDOWN_PRE_STOP_DELAY_MS || '5000', 10),
+  SHUTDOWN_TIMEOUT: parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000', 10),
+
+  // ===========================
+  // STREAMING CONFIGURATION
+  // ===========================
+
+  STREAM_IDLE_TIMEOUT: parseInt(process.env.STREAM_IDLE_TIMEOUT_MS || '60000', 10),
 };
 
 /**
@@ -215,12 +566,33 @@ function validateConfig(): void {
     if (!serviceConfig || !serviceConfig.url) {
       throw new Error(`Missing required service configuration: SERVICES.${service}.url`);
     }
+    if (serviceConfig.search && !serviceConfig.search.path.startsWith('/')) {
+      throw new Error(`Invalid search path for SERVICES.${service}: ${serviceConfig.search.path}`);
+    }
 
     try {
       new URL(serviceConfig.url);
     } catch (error) {
       throw new Error(`Invalid URL for SERVICES.${service}.url: ${serviceConfig.url}`);
     }
+
+    for (const instance of serviceConfig.instances ?? []) {
+      try {
+        new URL(instance.url);
+      } catch (error) {
+        throw new Error(`Invalid instance URL for SERVICES.${service}: ${instance.url}`);
+      }
+    }
+  }
+
+  for (const [prefix, service] of Object.entries(config.WEBSOCKET.routes)) {
+    if (!prefix.startsWith('/') || !config.SERVICES[service]) {
+      throw new Error(`Invalid WEBSOCKET_ROUTES entry: ${prefix}=${service}`);
+    }
+  }
+
+  if (!(config.BATCH.maxRequests >= 1) || !(config.BATCH.concurrency >= 1)) {
+    throw new Error('BATCH_MAX_REQUESTS and BATCH_CONCURRENCY must be at least 1');
   }
 }
 
@@ -175,6 +175,15 @@ export class AuthenticationError extends AppError {
   }
 }
 
+/**
+ * Invalid token error class
+ */
+export class InvalidTokenError extends AppError {
+  constructor(message: string = 'Invalid or expired token') {
+    super(message, ERROR_CODES.INVALID_TOKEN, 401);
+  }
+}
+
 /**
  * Authorization error class
  */
@@ -264,6 +273,7 @@ export default {
   AppError,
   ValidationError,
   AuthenticationError,
+  InvalidTokenError,
   AuthorizationError,
   NotFoundError,
   ConflictError,
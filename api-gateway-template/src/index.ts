@@ -33,25 +33,50 @@ import compression from 'compression';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import path from 'path';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
 
 import config from './config';
 import routes from './routes';
 import {
   errorNormalizer,
   responseEnhancer,
+  responseShaping,
   cacheControl,
   healthCheck,
+  livenessProbe,
+  readinessProbe,
+  startupProbe,
+  startHealthMonitor,
   notFound,
   methodResolver,
   requestLogger,
   correlationMiddleware,
   defaultRateLimiter,
+  metricsMiddleware,
+  tracingMiddleware,
+  requireMetricsToken,
+  asyncHandler,
 } from './middleware';
+import { closeSharedRedisClient } from './utils/redisStore';
+import { prometheusRegistry, renderPrometheusMetrics } from './utils/prometheus';
+import { shutdownTracing } from './utils/tracing';
+import { ShutdownManager } from './utils/shutdown';
+import { serviceRegistry } from './utils/serviceRegistry';
+import { healthMonitor } from './utils/healthMonitor';
+import { markStarted } from './utils/lifecycle';
+import { getServiceProxies } from './utils/serviceProxy';
+import { WebSocketProxy } from './utils/websocketProxy';
+import { closeStreams, shouldCompress } from './utils/streamProxy';
 
 // Create Express application and HTTP server
 const app = express();
 const server = http.createServer(app);
 
+// Trust X-Forwarded-For from loopback peers only: /api/batch sub-requests loop
+// back through the gateway and carry the original client's IP
+app.set('trust proxy', 'loopback');
+
 // ===========================
 // SWAGGER CONFIGURATION
 // ===========================
@@ -176,6 +201,22 @@ const swaggerOptions = {
           },
         },
       },
+      parameters: {
+        Fields: {
+          in: 'query',
+          name: 'fields',
+          schema: { type: 'string' },
+          example: 'name,relatedData.title',
+          description: 'Comma-separated dot paths to keep in the response data',
+        },
+        Include: {
+          in: 'query',
+          name: 'include',
+          schema: { type: 'string' },
+          example: 'analytics',
+          description: 'Comma-separated optional enrichments to fetch',
+        },
+      },
       responses: {
         BadRequest: {
           description: 'Invalid request parameters',
@@ -279,9 +320,10 @@ app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 /**
- * Response compression - reduces bandwidth usage
+ * Response compression - reduces bandwidth usage (streaming responses are left
+ * uncompressed so each chunk reaches the client immediately)
  */
-app.use(compression());
+app.use(compression({ filter: shouldCompress }));
 
 /**
  * Request correlation and logging
@@ -289,11 +331,26 @@ app.use(compression());
 app.use(correlationMiddleware);
 app.use(requestLogger);
 
+/**
+ * Request metrics - per-route counts and latency for /api/metrics
+ */
+app.use(metricsMiddleware);
+
+/**
+ * Distributed tracing - server span per request (W3C traceparent in and out)
+ */
+app.use(tracingMiddleware);
+
 /**
  * Response enhancement - adds helper methods to response object
  */
 app.use(responseEnhancer);
 
+/**
+ * Response shaping - ?fields= projection and ?include= enrichments
+ */
+app.use(responseShaping);
+
 /**
  * Cache control - sets appropriate caching headers
  */
@@ -335,6 +392,85 @@ app.set('etag', 'strong');
 app.get('/health', healthCheck);
 app.get('/api/health', healthCheck);
 
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     tags: [Health]
+ *     summary: Liveness probe
+ *     description: Returns 200 while the gateway process is responsive
+ *     responses:
+ *       200:
+ *         description: Process is alive
+ */
+app.get('/health/live', livenessProbe);
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     tags: [Health]
+ *     summary: Readiness probe
+ *     description: |
+ *       Returns 200 when the gateway can serve traffic: startup has completed, it is
+ *       not draining for shutdown and no critical service (SERVICE_X_CRITICAL) is down.
+ *     responses:
+ *       200:
+ *         description: Ready to serve traffic
+ *       503:
+ *         description: Not ready
+ */
+app.get('/health/ready', asyncHandler(readinessProbe));
+
+/**
+ * @swagger
+ * /health/startup:
+ *   get:
+ *     tags: [Health]
+ *     summary: Startup probe
+ *     description: Returns 503 until the gateway has finished starting up
+ *     responses:
+ *       200:
+ *         description: Startup completed
+ *       503:
+ *         description: Still starting
+ */
+app.get('/health/startup', startupProbe);
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     tags: [Health]
+ *     summary: Prometheus metrics
+ *     description: |
+ *       Exposes gateway metrics in the Prometheus text exposition format: request duration
+ *       histograms by route template, method and status; upstream call histograms per
+ *       service; retry, coalescing and rate-limit rejection counters; and Node.js process
+ *       metrics. Requires `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Metrics in Prometheus text format
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+app.get(
+  '/metrics',
+  requireMetricsToken,
+  asyncHandler(async (req, res) => {
+    res.set('Content-Type', prometheusRegistry.contentType);
+    res.send(await renderPrometheusMetrics());
+  })
+);
+
 // ===========================
 // API ROUTES
 // ===========================
@@ -406,6 +542,8 @@ app.get('/api/info', (req, res) => {
       endpoints: {
         health: '/health - Service health check',
         info: '/api/info - Gateway information',
+        metrics: '/api/metrics - Route and service metrics',
+        prometheus: '/metrics - Prometheus metrics',
         docs: '/api-docs - API documentation',
       },
       services: Object.keys(config.SERVICES).reduce((acc, serviceName) => {
@@ -463,26 +601,56 @@ app.use(errorNormalizer);
 
 const PORT = config.PORT;
 
-// Graceful shutdown handling
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
+// WebSocket upgrades on WEBSOCKET_ROUTES prefixes are proxied to their services
+const websocketProxy = new WebSocketProxy({ proxies: getServiceProxies() });
+
+// Graceful shutdown: fail readiness, drain in-flight requests, then clean up
+const shutdownManager = new ShutdownManager(server)
+  .addDrainHook('websockets', () => websocketProxy.closeAll())
+  .addDrainHook('streams', closeStreams)
+  .addHook('health monitor', () => healthMonitor.stop())
+  .addHook('redis', closeSharedRedisClient)
+  .addHook('tracing', shutdownTracing);
+
+/**
+ * Shut down gracefully on the first signal; exit immediately on a second one
+ */
+const handleShutdownSignal = (signal: NodeJS.Signals): void => {
+  if (shutdownManager.isShuttingDown()) {
+    console.warn(`${signal} received again, exiting immediately`);
+    process.exit(1);
+  }
+
+  console.log(`${signal} received, shutting down gracefully`);
+  void shutdownManager.shutdown().finally(() => {
     console.log('Process terminated');
     process.exit(0);
   });
-});
+};
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
-    process.exit(0);
+process.on('SIGTERM', handleShutdownSignal);
+process.on('SIGINT', handleShutdownSignal);
+
+if (websocketProxy.isEnabled()) {
+  server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Upgraded connections are closed by the WebSocket proxy's drain hook
+    shutdownManager.releaseConnection(socket as Socket);
+    void websocketProxy.handleUpgrade(req, socket, head);
   });
-});
+}
 
 // Start server (skip when running tests)
 if (config.NODE_ENV !== 'test') {
+  // Load service instances from the registry file and pick up later edits
+  if (config.SERVICE_REGISTRY_FILE) {
+    serviceRegistry.watchFile(config.SERVICE_REGISTRY_FILE);
+  }
+
+  // Probe services in the background so /health serves cached results
+  startHealthMonitor();
+
   server.listen(PORT, config.HOST, () => {
+    markStarted();
     console.log(`
 🚀 API Gateway Server Started
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview API key authentication middleware
+ *
+ * This middleware authenticates server-to-server consumers by their `X-API-Key`
+ * header, populates `req.user` from the key record and enforces the key's plan:
+ * its rate limit (through createRateLimiter, counted per key) and its daily and
+ * monthly quotas.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticationError, InvalidTokenError, RateLimitError } from '../errors';
+import { ApiKeyPlan, ExtendedRequest } from '../types';
+import { ApiKeyRegistry, QuotaTracker, loadApiKeyRegistry } from '../utils/apiKeys';
+import { countRateLimitRejection } from '../utils/prometheus';
+import { createRateLimiter } from './rateLimiter';
+
+/**
+ * Header carrying the API key
+ */
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * API key authentication options
+ */
+export interface ApiKeyOptions {
+  /** Let requests without an API key through (a presented key must still be valid) */
+  optional?: boolean;
+  /** Plans and key lookup (defaults to the registry loaded from config.API_KEYS_FILE) */
+  registry?: ApiKeyRegistry;
+  /** Quota counters (defaults to counters in the shared store) */
+  quotas?: QuotaTracker;
+}
+
+/**
+ * User populated from an API key
+ */
+interface ApiKeyUser {
+  sub: string;
+  roles: string[];
+  plan: string;
+  authMethod: 'api-key';
+}
+
+/**
+ * Return the API key user of a request, if it was authenticated by API key
+ */
+function getApiKeyUser(req: Request): ApiKeyUser | undefined {
+  const user = (req as ExtendedRequest).user as ApiKeyUser | undefined;
+  return user?.authMethod === 'api-key' ? user : undefined;
+}
+
+/**
+ * Reject a request whose key has exhausted a quota
+ */
+function sendQuotaExceeded(res: Response, retryAfter: number): void {
+  const error = new RateLimitError('API key quota exceeded');
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Authenticate requests by API key and enforce the key's plan limits and quotas
+ *
+ * Missing keys fail with AUTH_REQUIRED (unless `optional`), unknown or disabled
+ * keys with INVALID_TOKEN. Exhausted quotas return RATE_LIMITED with
+ * `Retry-After`; every quota-checked response carries `X-Quota-Remaining`.
+ * Does nothing when no plan is configured.
+ *
+ * @param options - API key options
+ * @returns Express middleware chain
+ *
+ * @example
+ * ```typescript
+ * router.use('/partners', requireApiKey(), partnerRoutes);
+ * ```
+ */
+export const requireApiKey = (options: ApiKeyOptions = {}): RequestHandler[] => {
+  const registry = options.registry ?? loadApiKeyRegistry();
+  const quotas = options.quotas ?? new QuotaTracker();
+
+  // One rate limiter per plan, shared by every key on the plan and counting per key
+  const planLimiters = new Map<string, RequestHandler>();
+  for (const plan of registry.getPlans()) {
+    if (plan.rateLimit) {
+      planLimiters.set(
+        plan.name,
+        createRateLimiter({
+          name: `plan:${plan.name}`,
+          windowMs: plan.rateLimit.windowMs,
+          max: plan.rateLimit.max,
+          message: 'API key rate limit exceeded',
+          keyBy: 'apiKey',
+        })
+      );
+    }
+  }
+
+  const authenticateKey = (req: Request, res: Response, next: NextFunction): void => {
+    if (!registry.isEnabled()) {
+      return next();
+    }
+
+    const apiKey = req.get(API_KEY_HEADER);
+    if (!apiKey) {
+      return next(options.optional ? undefined : new AuthenticationError('API key required'));
+    }
+
+    registry.resolve(apiKey).then(resolved => {
+      if (!resolved) {
+        return next(new InvalidTokenError('Invalid API key'));
+      }
+
+      const user: ApiKeyUser = {
+        sub: resolved.key.id,
+        roles: resolved.key.roles ?? [],
+        plan: resolved.plan.name,
+        authMethod: 'api-key',
+      };
+      (req as ExtendedRequest).user = user;
+      res.locals.apiKeyPlan = resolved.plan;
+      next();
+    }, next);
+  };
+
+  const enforcePlanRateLimit = (req: Request, res: Response, next: NextFunction): void => {
+    const plan = res.locals.apiKeyPlan as ApiKeyPlan | undefined;
+    const limiter = plan && planLimiters.get(plan.name);
+    if (!limiter) {
+      return next();
+    }
+    void limiter(req, res, next);
+  };
+
+  const enforceQuota = (req: Request, res: Response, next: NextFunction): void => {
+    const plan = res.locals.apiKeyPlan as ApiKeyPlan | undefined;
+    const user = getApiKeyUser(req);
+    if (!plan?.quota || !user) {
+      return next();
+    }
+
+    quotas.consume(user.sub, plan.quota).then(
+      result => {
+        if (result.remaining !== undefined) {
+          res.set('X-Quota-Remaining', String(result.remaining));
+        }
+        if (!result.allowed) {
+          countRateLimitRejection(`quota:${plan.name}`);
+          return sendQuotaExceeded(res, result.retryAfter ?? 0);
+        }
+        next();
+      },
+      // Fail open when the quota store is unreachable, like the rate limiters
+      () => next()
+    );
+  };
+
+  return [authenticateKey, enforcePlanRateLimit, enforceQuota];
+};
+
+export default requireApiKey;
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Authentication and authorization guards
+ *
+ * This middleware verifies JWT bearer tokens (populating `req.user`), enforces
+ * that a request has an authenticated user and, optionally, that the user
+ * holds one of the required roles.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { AuthenticationError, AuthorizationError } from '../errors';
+import { ExtendedRequest } from '../types';
+import { jwtVerifier, JwtVerifier } from '../utils/jwt';
+
+/**
+ * JWT authentication options
+ */
+export interface AuthenticateOptions {
+  /** Let requests without a bearer token through (a presented token must still be valid) */
+  optional?: boolean;
+  /** Token verifier (defaults to the one built from config.JWT) */
+  verifier?: JwtVerifier;
+}
+
+/**
+ * Extract the roles of an authenticated user
+ */
+function getUserRoles(user: unknown): string[] {
+  const { roles, role } = (user ?? {}) as { roles?: unknown; role?: unknown };
+
+  if (Array.isArray(roles)) {
+    return roles.map(String);
+  }
+  if (typeof role === 'string') {
+    return [role];
+  }
+  return [];
+}
+
+/**
+ * Extract the bearer token from the Authorization header ('' when absent)
+ */
+function getBearerToken(req: Request): string {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7) : '';
+}
+
+/**
+ * Verify the JWT bearer token and populate `req.user` with its claims
+ *
+ * Missing tokens fail with AUTH_REQUIRED (unless `optional`), invalid or
+ * expired tokens with INVALID_TOKEN. Does nothing when no JWT key is configured.
+ *
+ * @param options - Authentication options
+ * @returns Express middleware function
+ *
+ * @example
+ * ```typescript
+ * router.get('/profile', authenticate(), asyncHandler(getProfile));
+ * ```
+ */
+export const authenticate = (options: AuthenticateOptions = {}) => {
+  const verifier = options.verifier ?? jwtVerifier;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!verifier.isEnabled()) {
+      return next();
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+      return next(options.optional ? undefined : new AuthenticationError());
+    }
+
+    verifier.verify(token).then(claims => {
+      (req as ExtendedRequest).user = claims;
+      next();
+    }, next);
+  };
+};
+
+/**
+ * Require an authenticated user, optionally holding at least one of the given roles
+ *
+ * @param roles - Roles accepted for the route (any match grants access)
+ * @returns Express middleware function
+ *
+ * @example
+ * ```typescript
+ * router.delete('/items/:id', requireAuth(['admin']), asyncHandler(deleteItem));
+ * ```
+ */
+export const requireAuth = (roles: string[] = []) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user: unknown = (req as ExtendedRequest).user;
+
+    if (!user) {
+      return next(new AuthenticationError());
+    }
+
+    if (roles.length > 0) {
+      const userRoles = getUserRoles(user);
+      if (!roles.some(role => userRoles.includes(role))) {
+        return next(new AuthorizationError(`Requires one of roles: ${roles.join(', ')}`));
+      }
+    }
+
+    next();
+  };
+};
+
+/**
+ * Require an authenticated user holding at least one of the given roles
+ *
+ * @param roles - Roles accepted for the route (any match grants access)
+ * @returns Express middleware function
+ *
+ * @example
+ * ```typescript
+ * router.post('/orders', authenticate(), requireRoles('admin', 'sales'), asyncHandler(create));
+ * ```
+ */
+export const requireRoles = (...roles: string[]) => requireAuth(roles);
+
+/**
+ * Compare a provided token with the expected one in constant time
+ */
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return (
+    expectedBuffer.length === providedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, providedBuffer)
+  );
+}
+
+/**
+ * Require the static admin token (ADMIN_TOKEN) as a bearer token.
+ * Admin endpoints are disabled entirely when no token is configured.
+ */
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction): void => {
+  if (!config.ADMIN_TOKEN) {
+    return next(new AuthorizationError('Admin API is disabled'));
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return next(new AuthenticationError('Admin token required'));
+  }
+
+  if (!tokensMatch(config.ADMIN_TOKEN, token)) {
+    return next(new AuthorizationError('Invalid admin token'));
+  }
+
+  next();
+};
+
+/**
+ * Require the metrics scrape token (METRICS_TOKEN) as a bearer token.
+ * The metrics endpoint is public when no token is configured.
+ */
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  if (!config.METRICS_TOKEN) {
+    return next();
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return next(new AuthenticationError('Metrics token required'));
+  }
+
+  if (!tokensMatch(config.METRICS_TOKEN, token)) {
+    return next(new AuthorizationError('Invalid metrics token'));
+  }
+
+  next();
+};
+
+export default requireAuth;
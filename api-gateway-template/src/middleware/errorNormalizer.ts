@@ -66,6 +66,12 @@ function normalizeKnownShapes(err: any): {
     const status = err.response.status;
     const data = err.response.data || {};
 
+    // Service proxy errors, already mapped by the service's response adapter
+    if (err.envelope) {
+      const { code, message, details } = err.envelope as ErrorEnvelope;
+      return { status, code, message, details };
+    }
+
     // New services: { success:false, error:{code,message}, details? }
     if (
       data &&
@@ -2,34 +2,30 @@
  * @fileoverview Health check middleware
  *
  * This middleware provides comprehensive health checking for the API gateway
- * including service availability, system metrics, and overall status.
+ * including service availability, system metrics, and overall status. Service
+ * availability comes from the background health monitor's cached probe results,
+ * so polling `/health` does not put load on the services. Request stats come
+ * from the same shared proxies the routes use.
+ *
+ * It also provides Kubernetes-style probes: `/health/live` (the process
+ * responds), `/health/ready` (started, not draining and no critical service
+ * down) and `/health/startup` (startup has completed).
  *
  * @author API Gateway Template
  * @version 1.0.0
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { createServiceProxies } from '../utils/serviceProxy';
+import { getServiceProxies } from '../utils/serviceProxy';
+import { healthMonitor } from '../utils/healthMonitor';
+import { isDraining, isStarted } from '../utils/lifecycle';
 import { HealthCheckResult, ServiceHealthStatus, SystemHealth } from '../types';
 import config from '../config';
 
-// Cache for service proxies
-let serviceProxies: ReturnType<typeof createServiceProxies> | null = null;
-
-/**
- * Get or create service proxies
- */
-function getServiceProxies() {
-  if (!serviceProxies) {
-    serviceProxies = createServiceProxies();
-  }
-  return serviceProxies;
-}
-
 /**
  * Check system health metrics
  */
-function getSystemHealth(): SystemHealth {
+export function getSystemHealth(): SystemHealth {
   const memUsage = process.memoryUsage();
   const cpuUsage = process.cpuUsage();
   
@@ -47,60 +43,51 @@ function getSystemHealth(): SystemHealth {
 }
 
 /**
- * Check health of all configured services
+ * Start probing all configured services in the background
  */
-async function checkServicesHealth(): Promise<Record<string, ServiceHealthStatus>> {
-  const proxies = getServiceProxies();
-  const serviceStatuses: Record<string, ServiceHealthStatus> = {};
+export function startHealthMonitor(): void {
+  healthMonitor.watch(getServiceProxies());
+  healthMonitor.start();
+}
 
-  // Check all services in parallel
-  const healthChecks = Object.entries(proxies).map(async ([serviceName, proxy]) => {
-    const startTime = Date.now();
-    
-    try {
-      const result = await proxy.healthCheck();
-      serviceStatuses[serviceName] = {
-        status: result.status,
-        responseTime: result.responseTime,
-        lastChecked: new Date().toISOString(),
-        ...(result.error && { error: result.error }),
-      };
-    } catch (error) {
-      serviceStatuses[serviceName] = {
-        status: 'unhealthy',
-        responseTime: Date.now() - startTime,
-        error: (error as Error).message,
-        lastChecked: new Date().toISOString(),
-      };
-    }
-  });
+/**
+ * Health of all configured services from the monitor's cache. Probes once on
+ * the spot when background monitoring is not running (e.g. in tests).
+ */
+async function checkServicesHealth(): Promise<Record<string, ServiceHealthStatus>> {
+  if (!healthMonitor.hasTargets()) {
+    healthMonitor.watch(getServiceProxies());
+  }
+  if (!healthMonitor.isRunning()) {
+    await healthMonitor.probe();
+  }
 
-  // Wait for all health checks to complete (with timeout)
-  await Promise.allSettled(healthChecks);
-  
-  return serviceStatuses;
+  const services = healthMonitor.getServiceHealth();
+  for (const [serviceName, status] of Object.entries(services)) {
+    status.critical = config.SERVICES[serviceName]?.critical ?? false;
+  }
+  return services;
 }
 
 /**
  * Determine overall health status based on service statuses
+ *
+ * The gateway is unhealthy when a critical service is down, degraded when only
+ * optional services are down (even all of them), and healthy otherwise.
  */
-function determineOverallStatus(services: Record<string, ServiceHealthStatus>): 'healthy' | 'unhealthy' | 'degraded' {
+export function determineOverallStatus(
+  services: Record<string, ServiceHealthStatus>
+): 'healthy' | 'unhealthy' | 'degraded' {
   const statuses = Object.values(services);
-  
-  if (statuses.length === 0) {
-    return 'healthy'; // No services configured
-  }
+  const down = statuses.filter(s => s.status !== 'healthy');
 
-  const healthyCount = statuses.filter(s => s.status === 'healthy').length;
-  const totalCount = statuses.length;
-
-  if (healthyCount === totalCount) {
-    return 'healthy';
-  } else if (healthyCount === 0) {
+  if (down.length === 0) {
+    return 'healthy'; // Includes no services configured
+  }
+  if (down.some(s => s.critical)) {
     return 'unhealthy';
-  } else {
-    return 'degraded'; // Some services are down
   }
+  return 'degraded'; // Only optional services are down
 }
 
 /**
@@ -172,4 +159,58 @@ export const simpleHealthCheck = (req: Request, res: Response): void => {
   });
 };
 
+// ===========================
+// ORCHESTRATOR PROBES
+// ===========================
+
+/**
+ * Liveness probe: the process is up and its event loop responds
+ */
+export const livenessProbe = (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: { status: 'alive', uptime: process.uptime() },
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Readiness probe: the gateway can serve traffic (startup completed, not
+ * draining, no critical service down). Answers 503 otherwise.
+ */
+export const readinessProbe = async (req: Request, res: Response): Promise<void> => {
+  const services = await checkServicesHealth();
+  const status = determineOverallStatus(services);
+  const ready = isStarted() && !isDraining() && status !== 'unhealthy';
+
+  res.status(ready ? 200 : 503).json({
+    success: ready,
+    data: {
+      status: ready ? 'ready' : 'not_ready',
+      started: isStarted(),
+      draining: isDraining(),
+      services: Object.fromEntries(
+        Object.entries(services).map(([name, service]) => [
+          name,
+          { status: service.status, critical: service.critical ?? false },
+        ])
+      ),
+    },
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Startup probe: startup has completed. Answers 503 until then.
+ */
+export const startupProbe = (req: Request, res: Response): void => {
+  const started = isStarted();
+
+  res.status(started ? 200 : 503).json({
+    success: started,
+    data: { status: started ? 'started' : 'starting' },
+    timestamp: new Date().toISOString(),
+  });
+};
+
 export default healthCheck;
\ No newline at end of file
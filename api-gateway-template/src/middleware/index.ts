@@ -11,10 +11,30 @@
 export { default as asyncHandler } from './asyncHandler';
 export { default as errorNormalizer } from './errorNormalizer';
 export { default as responseEnhancer } from './responseEnhancer';
+export { default as responseShaping } from './responseShaping';
 export { default as validation } from './validation';
+export { validateBody, validateQuery, validateParams, validateHeaders } from './validation';
 export { default as cacheControl } from './cacheControl';
-export { default as healthCheck } from './healthCheck';
+export {
+  default as healthCheck,
+  startHealthMonitor,
+  livenessProbe,
+  readinessProbe,
+  startupProbe,
+} from './healthCheck';
+export { default as metricsMiddleware } from './metrics';
+export { default as tracingMiddleware } from './tracing';
 export { default as notFound } from './notFound';
 export { default as methodResolver } from './methodResolver';
-export { default as requestLogger } from './requestLogger';
-export { default as rateLimiter } from './rateLimiter';
\ No newline at end of file
+export { default as requestLogger, correlationMiddleware } from './requestLogger';
+export { default as rateLimiter } from './rateLimiter';
+export { createRateLimiter, defaultRateLimiter } from './rateLimiter';
+export {
+  default as requireAuth,
+  authenticate,
+  requireRoles,
+  requireAdminToken,
+  requireMetricsToken,
+} from './auth';
+export { default as requireApiKey } from './apiKey';
+export { default as cacheResponse } from './responseCache';
\ No newline at end of file
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Request metrics middleware
+ *
+ * This middleware times every inbound request and records it in the gateway
+ * metrics collector and the Prometheus registry under its route template (e.g.
+ * `GET /api/example/:id`), so metrics stay grouped per route instead of per
+ * concrete URL.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { metricsCollector, MetricsCollector } from '../utils/metrics';
+import { observeHttpRequest } from '../utils/prometheus';
+
+// Route templates captured when the router matched a route (see trackMatchedRoute)
+const matchedRouteTemplates = new WeakMap<Request, string>();
+
+/**
+ * Build the full route template for the route currently matched by the router
+ */
+function buildRouteTemplate(req: Request, route: unknown): string | undefined {
+  const path = (route as { path?: unknown } | undefined)?.path;
+  return typeof path === 'string' ? `${req.baseUrl}${path}` : undefined;
+}
+
+/**
+ * Remember the full route template as soon as the router matches a route
+ *
+ * The router resets `req.baseUrl` when a request leaves a nested router (e.g.
+ * on its way to the error handler), so the label has to be captured while the
+ * mount path is still known.
+ */
+function trackMatchedRoute(req: Request): void {
+  let matchedRoute: unknown = req.route;
+
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => matchedRoute,
+    set: (route: unknown) => {
+      matchedRoute = route;
+      const template = buildRouteTemplate(req, route);
+      if (template) {
+        matchedRouteTemplates.set(req, template);
+      }
+    },
+  });
+}
+
+/**
+ * Route template for a request, e.g. `/api/example/:id`
+ *
+ * Unmatched requests share one template so unknown URLs cannot grow the metrics.
+ */
+export function getRouteTemplate(req: Request): string {
+  return matchedRouteTemplates.get(req) ?? buildRouteTemplate(req, req.route) ?? '(unmatched)';
+}
+
+/**
+ * Route label for a request, e.g. `GET /api/example/:id`
+ */
+export function getRouteLabel(req: Request): string {
+  return `${req.method} ${getRouteTemplate(req)}`;
+}
+
+/**
+ * Request metrics middleware factory
+ *
+ * @param collector - Metrics collector (defaults to the shared gateway collector)
+ * @returns Express middleware function
+ */
+export const createMetricsMiddleware = (collector: MetricsCollector = metricsCollector) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const start = process.hrtime.bigint();
+    trackMatchedRoute(req);
+
+    res.on('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      collector.recordRequest(getRouteLabel(req), res.statusCode, durationMs);
+      observeHttpRequest(getRouteTemplate(req), req.method, res.statusCode, durationMs);
+    });
+
+    next();
+  };
+};
+
+/**
+ * Request metrics middleware using the shared gateway collector
+ */
+export const metricsMiddleware = createMetricsMiddleware();
+
+export default metricsMiddleware;
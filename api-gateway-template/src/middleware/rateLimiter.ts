@@ -2,16 +2,341 @@
  * @fileoverview Rate limiting middleware
  *
  * This middleware provides configurable rate limiting for the API gateway
- * with different limits for different endpoint types.
+ * with different limits for different endpoint types. Limits are counted in
+ * the shared store with a fixed window, sliding window or token bucket.
  *
  * @author API Gateway Template
  * @version 1.0.0
  */
 
-import rateLimit from 'express-rate-limit';
-import { Request, Response } from 'express';
+import rateLimit, { Store, Options, ClientRateLimitInfo, RateLimitInfo } from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import config from '../config';
 import { RateLimitError } from '../errors';
+import { ExtendedRequest } from '../types';
+import { KeyValueStore, createStore } from '../utils/store';
+import { countRateLimitRejection } from '../utils/prometheus';
+
+// ===========================
+// SHARED STORE ADAPTER
+// ===========================
+
+/**
+ * express-rate-limit store backed by the gateway key/value store
+ *
+ * Hit counters live in the configured shared store (STORE_BACKEND), so every
+ * gateway replica enforces the same limit for a client.
+ */
+export class SharedRateLimitStore implements Store {
+  readonly localKeys: boolean;
+  readonly prefix: string;
+  private readonly store: KeyValueStore;
+  private windowMs: number = config.RATE_LIMIT_WINDOW;
+
+  constructor(name: string, store: KeyValueStore = createStore(`ratelimit:${name}`)) {
+    this.store = store;
+    this.prefix = `${name}:`;
+    this.localKeys = store.backend === 'memory';
+  }
+
+  /**
+   * Receive the limiter options (used for the counter window)
+   */
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  /**
+   * Build the reset time from the counter's remaining TTL
+   */
+  private async info(key: string, totalHits: number): Promise<ClientRateLimitInfo> {
+    const remaining = await this.store.ttl(key);
+    return {
+      totalHits,
+      resetTime: new Date(Date.now() + (remaining ?? this.windowMs)),
+    };
+  }
+
+  /**
+   * Fetch a client's hit count
+   */
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const totalHits = await this.store.get<number>(key);
+    return totalHits === undefined ? undefined : this.info(key, totalHits);
+  }
+
+  /**
+   * Count a hit, starting a new window when the counter does not exist
+   */
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const totalHits = await this.store.incr(key, 1, this.windowMs);
+    return this.info(key, totalHits);
+  }
+
+  /**
+   * Undo a hit (used by skipSuccessfulRequests / skipFailedRequests)
+   */
+  async decrement(key: string): Promise<void> {
+    await this.store.incr(key, -1, this.windowMs);
+  }
+
+  /**
+   * Reset a client's counter
+   */
+  async resetKey(key: string): Promise<void> {
+    await this.store.del(key);
+  }
+}
+
+// ===========================
+// ALGORITHMS
+// ===========================
+
+/**
+ * Rate limiting algorithm of a limiter
+ *
+ * - `fixed-window`: hit counter reset every window (default)
+ * - `sliding-window`: weighted counter over the current and previous windows, so
+ *   a client cannot spend two budgets across a window boundary
+ * - `token-bucket`: `burst` tokens refilled at `max` per window
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * express-rate-limit store implementing a sliding window counter
+ *
+ * The estimated hit count is the current window's counter plus the previous
+ * window's counter weighted by how much of it still overlaps the sliding window.
+ * Counters are updated with atomic increments, so replicas sharing the store
+ * enforce the same limit. A client's first hit in a window deletes the counter
+ * of the window before the previous one, which is never read again.
+ */
+export class SlidingWindowRateLimitStore implements Store {
+  readonly localKeys: boolean;
+  readonly prefix: string;
+  private readonly store: KeyValueStore;
+  private readonly now: () => number;
+  private windowMs: number = config.RATE_LIMIT_WINDOW;
+
+  constructor(
+    name: string,
+    store: KeyValueStore = createStore(`ratelimit:${name}`),
+    now: () => number = Date.now
+  ) {
+    this.store = store;
+    this.now = now;
+    this.prefix = `${name}:`;
+    this.localKeys = store.backend === 'memory';
+  }
+
+  /**
+   * Receive the limiter options (used for the window length)
+   */
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  /**
+   * Add to the current window's counter and estimate the sliding window's hits
+   */
+  private async count(key: string, amount: number): Promise<ClientRateLimitInfo> {
+    const now = this.now();
+    const window = Math.floor(now / this.windowMs);
+    const overlap = 1 - (now - window * this.windowMs) / this.windowMs;
+
+    const currentKey = `${key}:${String(window)}`;
+    const current =
+      amount === 0
+        ? ((await this.store.get<number>(currentKey)) ?? 0)
+        : await this.store.incr(currentKey, amount, 2 * this.windowMs);
+    const previous = (await this.store.get<number>(`${key}:${String(window - 1)}`)) ?? 0;
+
+    if (amount > 0 && current === amount) {
+      await this.store.del(`${key}:${String(window - 2)}`);
+    }
+
+    return {
+      totalHits: current + Math.floor(previous * overlap),
+      resetTime: new Date((window + 1) * this.windowMs),
+    };
+  }
+
+  /**
+   * Fetch a client's estimated hit count
+   */
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const info = await this.count(key, 0);
+    return info.totalHits === 0 ? undefined : info;
+  }
+
+  /**
+   * Count a hit in the current window
+   */
+  increment(key: string): Promise<ClientRateLimitInfo> {
+    return this.count(key, 1);
+  }
+
+  /**
+   * Undo a hit (used by skipSuccessfulRequests / skipFailedRequests)
+   */
+  async decrement(key: string): Promise<void> {
+    await this.count(key, -1);
+  }
+
+  /**
+   * Reset a client's counters
+   */
+  async resetKey(key: string): Promise<void> {
+    const window = Math.floor(this.now() / this.windowMs);
+    await Promise.all([
+      this.store.del(`${key}:${String(window)}`),
+      this.store.del(`${key}:${String(window - 1)}`),
+    ]);
+  }
+}
+
+/**
+ * Token bucket state of one client
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * express-rate-limit store implementing a token bucket
+ *
+ * Each client starts with `capacity` tokens; a request takes one and tokens are
+ * refilled continuously at `refillPerMs`. The limiter's limit must equal the
+ * capacity: hits are reported as `capacity - tokens left`, and as
+ * `capacity + 1` when the bucket is empty. Buckets in a shared store are
+ * updated read-modify-write, so concurrent replicas may briefly over-admit.
+ */
+export class TokenBucketRateLimitStore implements Store {
+  readonly localKeys: boolean;
+  readonly prefix: string;
+  private readonly store: KeyValueStore;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    name: string,
+    options: { capacity: number; refillPerMs: number },
+    store: KeyValueStore = createStore(`ratelimit:${name}`),
+    now: () => number = Date.now
+  ) {
+    this.store = store;
+    this.capacity = options.capacity;
+    this.refillPerMs = options.refillPerMs;
+    this.now = now;
+    this.prefix = `${name}:`;
+    this.localKeys = store.backend === 'memory';
+  }
+
+  /**
+   * Load a client's bucket, refilled up to the current time
+   */
+  private async load(key: string, now: number): Promise<number> {
+    const bucket = await this.store.get<TokenBucket>(key);
+    if (!bucket) {
+      return this.capacity;
+    }
+    return Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+  }
+
+  /**
+   * Persist a bucket until it would be full again (a full bucket needs no state)
+   */
+  private async save(key: string, tokens: number, now: number): Promise<void> {
+    const msUntilFull = Math.ceil((this.capacity - tokens) / this.refillPerMs);
+    if (msUntilFull <= 0) {
+      await this.store.del(key);
+      return;
+    }
+    await this.store.set<TokenBucket>(key, { tokens, updatedAt: now }, msUntilFull);
+  }
+
+  /**
+   * Report the bucket as express-rate-limit hits
+   *
+   * The reset time is when the next token arrives for an empty bucket, and when
+   * the bucket is full again otherwise.
+   */
+  private info(tokens: number, rejected: boolean, now: number): ClientRateLimitInfo {
+    const missing = rejected ? 1 - tokens : this.capacity - tokens;
+    return {
+      totalHits: rejected ? this.capacity + 1 : this.capacity - Math.floor(tokens),
+      resetTime: new Date(now + Math.ceil(missing / this.refillPerMs)),
+    };
+  }
+
+  /**
+   * Fetch a client's bucket without taking a token
+   */
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const now = this.now();
+    const tokens = await this.load(key, now);
+    return tokens >= this.capacity ? undefined : this.info(tokens, false, now);
+  }
+
+  /**
+   * Take a token, or report the request as over the limit when none is left
+   */
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const now = this.now();
+    const tokens = await this.load(key, now);
+
+    if (tokens < 1) {
+      return this.info(tokens, true, now);
+    }
+
+    await this.save(key, tokens - 1, now);
+    return this.info(tokens - 1, false, now);
+  }
+
+  /**
+   * Return a token (used by skipSuccessfulRequests / skipFailedRequests)
+   */
+  async decrement(key: string): Promise<void> {
+    const now = this.now();
+    const tokens = await this.load(key, now);
+    await this.save(key, Math.min(this.capacity, tokens + 1), now);
+  }
+
+  /**
+   * Refill a client's bucket
+   */
+  async resetKey(key: string): Promise<void> {
+    await this.store.del(key);
+  }
+}
+
+/**
+ * Create the store implementing a limiter's algorithm
+ *
+ * @param burst - Token bucket capacity (defaults to `max`)
+ */
+export function createRateLimitStore(
+  name: string,
+  algorithm: RateLimitAlgorithm,
+  windowMs: number,
+  max: number,
+  burst: number = max
+): Store {
+  switch (algorithm) {
+    case 'sliding-window':
+      return new SlidingWindowRateLimitStore(name);
+    case 'token-bucket':
+      return new TokenBucketRateLimitStore(name, { capacity: burst, refillPerMs: max / windowMs });
+    default:
+      return new SharedRateLimitStore(name);
+  }
+}
+
+// ===========================
+// RATE LIMITERS
+// ===========================
 
 /**
  * Default rate limiter for general API endpoints
@@ -21,8 +346,17 @@ export const defaultRateLimiter = rateLimit({
   max: config.RATE_LIMIT_MAX,
   standardHeaders: true,
   legacyHeaders: false,
+  store: createRateLimitStore(
+    'default',
+    config.RATE_LIMIT_ALGORITHM,
+    config.RATE_LIMIT_WINDOW,
+    config.RATE_LIMIT_MAX
+  ),
+  // Keep serving traffic if the shared store is unreachable
+  passOnStoreError: true,
   message: 'Too many requests from this IP, please try again later',
   handler: (req: Request, res: Response) => {
+    countRateLimitRejection('default');
     const error = new RateLimitError('Too many requests from this IP, please try again later');
     res.status(429).json({
       success: false,
@@ -47,8 +381,11 @@ export const strictRateLimiter = rateLimit({
   max: 10, // 10 requests per window
   standardHeaders: true,
   legacyHeaders: false,
+  store: new SharedRateLimitStore('strict'),
+  passOnStoreError: true,
   message: 'Too many attempts, please try again later',
   handler: (req: Request, res: Response) => {
+    countRateLimitRejection('strict');
     const error = new RateLimitError('Too many attempts, please try again later');
     res.status(429).json({
       success: false,
@@ -69,8 +406,11 @@ export const lenientRateLimiter = rateLimit({
   max: 2000, // 2000 requests per window
   standardHeaders: true,
   legacyHeaders: false,
+  store: new SharedRateLimitStore('lenient'),
+  passOnStoreError: true,
   message: 'Too many requests, please try again later',
   handler: (req: Request, res: Response) => {
+    countRateLimitRejection('lenient');
     const error = new RateLimitError('Too many requests, please try again later');
     res.status(429).json({
       success: false,
@@ -83,39 +423,200 @@ export const lenientRateLimiter = rateLimit({
   },
 });
 
+// ===========================
+// KEY STRATEGIES
+// ===========================
+
 /**
- * Create custom rate limiter with specific configuration
+ * What a rate limit counts requests by
+ *
+ * - `ip`: client IP address (default)
+ * - `user`: authenticated user (`req.user.sub`, set by JWT or API key authentication)
+ * - `apiKey`: authenticated API key
+ * - `tenant`: tenant header (config.RATE_LIMIT_TENANT_HEADER)
+ * - a function returning a custom key
+ *
+ * Requests without the chosen identity (e.g. anonymous requests keyed by user)
+ * are counted by client IP.
+ */
+export type RateLimitKeyStrategy =
+  | 'ip'
+  | 'user'
+  | 'apiKey'
+  | 'tenant'
+  | ((req: Request) => string | undefined);
+
+/**
+ * Resolve the counter key of a request for a key strategy
  */
-export function createRateLimiter(options: {
+export function getRateLimitKey(req: Request, strategy: RateLimitKeyStrategy = 'ip'): string {
+  const user = (req as ExtendedRequest).user as { sub?: unknown; authMethod?: unknown } | undefined;
+  let identity: string | undefined;
+
+  if (typeof strategy === 'function') {
+    identity = strategy(req);
+  } else if (strategy === 'user' && user?.sub !== undefined) {
+    identity = String(user.sub);
+  } else if (strategy === 'apiKey' && user?.authMethod === 'api-key') {
+    identity = String(user.sub);
+  } else if (strategy === 'tenant') {
+    identity = req.get(config.RATE_LIMIT_TENANT_HEADER);
+  }
+
+  if (identity) {
+    return `${typeof strategy === 'function' ? 'custom' : strategy}:${identity}`;
+  }
+  return `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+// ===========================
+// CUSTOM RATE LIMITERS
+// ===========================
+
+/**
+ * One limit: a window, a maximum and what requests are counted by
+ */
+export interface RateLimitLayer {
   windowMs?: number;
+  /** Requests per window (for token buckets: tokens refilled per window) */
   max?: number;
+  keyBy?: RateLimitKeyStrategy;
+  /** Counting algorithm (defaults to fixed-window) */
+  algorithm?: RateLimitAlgorithm;
+  /** Token bucket capacity, i.e. the largest burst (defaults to `max`) */
+  burst?: number;
+}
+
+/**
+ * Custom rate limiter options
+ */
+export interface RateLimiterOptions extends RateLimitLayer {
+  /** Stable counter name, shared by every replica */
+  name?: string;
   message?: string;
   skipPaths?: string[];
-}) {
-  return rateLimit({
-    windowMs: options.windowMs || config.RATE_LIMIT_WINDOW,
-    max: options.max || config.RATE_LIMIT_MAX,
-    standardHeaders: true,
-    legacyHeaders: false,
-    message: options.message || 'Too many requests',
-    handler: (req: Request, res: Response) => {
-      const error = new RateLimitError(options.message || 'Too many requests');
-      res.status(429).json({
-        success: false,
-        error: {
-          code: error.code,
-          message: error.message,
-        },
-        timestamp: new Date().toISOString(),
-      });
-    },
-    skip: (req: Request) => {
-      if (options.skipPaths) {
-        return options.skipPaths.some(path => req.path.includes(path));
-      }
-      return false;
-    },
+  /** Limits enforced together (e.g. per user and per IP); replaces windowMs/max/keyBy */
+  layers?: RateLimitLayer[];
+}
+
+/**
+ * Set the draft-6 RateLimit headers for a limit
+ */
+function setRateLimitHeaders(res: Response, info: RateLimitInfo, windowMs: number): void {
+  if (res.headersSent) {
+    return;
+  }
+
+  res.setHeader('RateLimit-Policy', `${info.limit};w=${Math.ceil(windowMs / 1000)}`);
+  res.setHeader('RateLimit-Limit', String(info.limit));
+  res.setHeader('RateLimit-Remaining', String(info.remaining));
+  if (info.resetTime) {
+    const resetSeconds = Math.max(0, Math.ceil((info.resetTime.getTime() - Date.now()) / 1000));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+  }
+}
+
+// Sequence used to give unnamed custom limiters their own counters
+let customLimiterCount = 0;
+
+/**
+ * Create custom rate limiter with specific configuration
+ *
+ * `name` identifies the limiter's counters in the shared store; give limiters a
+ * stable name when several replicas must share them. `keyBy` chooses what
+ * requests are counted by (see RateLimitKeyStrategy). With `layers`, every
+ * limit must pass and the RateLimit headers report the most restrictive one.
+ *
+ * @example
+ * ```typescript
+ * router.post(
+ *   '/orders',
+ *   createRateLimiter({
+ *     name: 'orders',
+ *     layers: [
+ *       { keyBy: 'user', windowMs: 60000, max: 30 },
+ *       { keyBy: 'ip', windowMs: 60000, max: 300 },
+ *     ],
+ *   }),
+ *   asyncHandler(createOrder)
+ * );
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions): RequestHandler {
+  const name = options.name ?? `custom-${++customLimiterCount}`;
+  const message = options.message || 'Too many requests';
+  const layers = options.layers ?? [options];
+
+  const limiters = layers.map((layer, index) => {
+    const keyBy = layer.keyBy;
+    const layerName = layers.length > 1 ? `${name}:${String(index)}` : name;
+    const windowMs = layer.windowMs || config.RATE_LIMIT_WINDOW;
+    const max = layer.max || config.RATE_LIMIT_MAX;
+    const algorithm = layer.algorithm ?? 'fixed-window';
+
+    const limiter = rateLimit({
+      windowMs,
+      // A token bucket's limit is its capacity
+      max: algorithm === 'token-bucket' ? (layer.burst ?? max) : max,
+      standardHeaders: true,
+      legacyHeaders: false,
+      store: createRateLimitStore(layerName, algorithm, windowMs, max, layer.burst),
+      passOnStoreError: true,
+      requestPropertyName: `rateLimit:${layerName}`,
+      ...(keyBy ? { keyGenerator: (req: Request) => getRateLimitKey(req, keyBy) } : {}),
+      message,
+      handler: (req: Request, res: Response) => {
+        countRateLimitRejection(layerName);
+        const error = new RateLimitError(message);
+        res.status(429).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      },
+      skip: (req: Request) => {
+        if (options.skipPaths) {
+          return options.skipPaths.some(path => req.path.includes(path));
+        }
+        return false;
+      },
+    });
+    return { name: layerName, windowMs, limiter };
   });
+
+  if (limiters.length === 1 && limiters[0]) {
+    return limiters[0].limiter;
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const runLayer = (index: number): void => {
+      const layer = limiters[index];
+      if (layer) {
+        void layer.limiter(req, res, error => (error ? next(error) : runLayer(index + 1)));
+        return;
+      }
+
+      // Every layer passed: report the limit closest to exhaustion
+      let tightest: { info: RateLimitInfo; windowMs: number } | undefined;
+      for (const { name: layerName, windowMs } of limiters) {
+        const info = (req as unknown as Record<string, RateLimitInfo | undefined>)[
+          `rateLimit:${layerName}`
+        ];
+        if (info && (!tightest || info.remaining < tightest.info.remaining)) {
+          tightest = { info, windowMs };
+        }
+      }
+      if (tightest) {
+        setRateLimitHeaders(res, tightest.info, tightest.windowMs);
+      }
+      next();
+    };
+
+    runLayer(0);
+  };
 }
 
 export default defaultRateLimiter;
\ No newline at end of file
@@ -11,6 +11,7 @@
 import { Request, Response, NextFunction } from 'express';
 import morgan from 'morgan';
 import config from '../config';
+import { createRequestContext, runWithRequestContext } from '../utils/requestContext';
 
 /**
  * Generate correlation ID for request tracking
@@ -21,7 +22,8 @@ function generateCorrelationId(): string {
 
 /**
  * Request correlation middleware
- * Adds correlation ID to requests for tracking across services
+ * Adds correlation ID to requests for tracking across services and runs the rest
+ * of the pipeline inside a request context that ServiceProxy reads automatically
  */
 export const correlationMiddleware = (req: Request, res: Response, next: NextFunction): void => {
   // Get correlation ID from header or generate new one
@@ -36,7 +38,7 @@ export const correlationMiddleware = (req: Request, res: Response, next: NextFun
   // Add start time for performance tracking
   (req as any).startTime = Date.now();
   
-  next();
+  runWithRequestContext(createRequestContext(req, correlationId), () => next());
 };
 
 /**
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Response cache middleware
+ *
+ * This middleware serves GET responses from the gateway's server-side cache and
+ * stores successful JSON responses for later requests. Every cacheable response
+ * carries an `X-Cache: HIT` or `X-Cache: MISS` header, and varies on the
+ * caller's credentials so that responses are cached per caller.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  responseCache,
+  buildBaseKey,
+  parseVaryHeader,
+  CREDENTIAL_HEADERS,
+  CachedResponse,
+  ResponseCache,
+} from '../utils/responseCache';
+import { getRequestContext } from '../utils/requestContext';
+import { shapeToQuery } from '../utils/responseShaping';
+
+/**
+ * Whether a response's Cache-Control allows storing it in a shared cache
+ */
+function isStorable(cacheControl: string | undefined): boolean {
+  if (!cacheControl) {
+    return true;
+  }
+  return !/\b(no-store|no-cache|private)\b/i.test(cacheControl);
+}
+
+/**
+ * Response cache middleware factory
+ *
+ * @param options.ttl - TTL in seconds (defaults to CACHE_TTL)
+ * @param options.cache - Cache instance (defaults to the shared gateway cache)
+ * @returns Express middleware function
+ *
+ * @example
+ * ```typescript
+ * router.get('/items', cacheResponse({ ttl: 60 }), asyncHandler(listItems));
+ * ```
+ */
+export const cacheResponse = (options: { ttl?: number; cache?: ResponseCache } = {}) => {
+  const cache = options.cache ?? responseCache;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!cache.isEnabled() || req.method !== 'GET') {
+      return next();
+    }
+
+    const ttl = options.ttl ?? cache.getDefaultTtl();
+    res.vary(CREDENTIAL_HEADERS.join(', '));
+    // Query validation may strip ?fields= and ?include=, which still shape the response
+    const baseKey = buildBaseKey(req.method, req.baseUrl + req.path, {
+      ...req.query,
+      ...shapeToQuery(getRequestContext()?.responseShape),
+    });
+
+    /**
+     * Capture the JSON body of a storable response as it is sent
+     */
+    const storeOnSend = (): void => {
+      const originalJson = res.json.bind(res);
+      res.json = ((body: unknown) => {
+        const cacheControl = res.get('Cache-Control');
+        // Handlers may have replaced the Vary header set above
+        res.vary(CREDENTIAL_HEADERS.join(', '));
+
+        if (res.statusCode === 200 && isStorable(cacheControl)) {
+          const headers: CachedResponse['headers'] = {};
+          if (cacheControl) {
+            headers['Cache-Control'] = cacheControl;
+          }
+
+          const vary = res.get('Vary');
+          if (vary) {
+            headers.Vary = vary;
+          }
+
+          // A failed write only means the next request misses
+          cache
+            .set(
+              baseKey,
+              parseVaryHeader(vary),
+              req.headers,
+              { status: res.statusCode, headers, body },
+              ttl
+            )
+            .catch((error: Error) => {
+              console.error('Response cache write failed:', error.message);
+            });
+        }
+
+        return originalJson(body);
+      }) as Response['json'];
+    };
+
+    cache
+      .resolveKey(baseKey, req.headers)
+      .then(key => cache.get(key))
+      .then(cached => {
+        if (cached) {
+          res.set(cached.data.headers);
+          res.set('X-Cache', 'HIT');
+          res.set('Age', String(Math.floor((Date.now() - cached.timestamp) / 1000)));
+          res.status(cached.data.status).json(cached.data.body);
+          return;
+        }
+
+        res.set('X-Cache', 'MISS');
+        storeOnSend();
+        next();
+      })
+      .catch((error: Error) => {
+        // Serve the request uncached when the store is unavailable
+        console.error('Response cache lookup failed:', error.message);
+        next();
+      });
+  };
+};
+
+export default cacheResponse;
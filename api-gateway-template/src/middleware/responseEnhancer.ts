@@ -10,6 +10,8 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse, ResponseMeta, ErrorEnvelope } from '../types';
+import { getRequestContext } from '../utils/requestContext';
+import { projectFields } from '../utils/responseShaping';
 
 /**
  * Extends Express Response with helper methods for consistent API responses
@@ -17,15 +19,18 @@ import { ApiResponse, ResponseMeta, ErrorEnvelope } from '../types';
 const responseEnhancer = (req: Request, res: Response, next: NextFunction): void => {
   /**
    * Send a successful response with data
+   *
+   * Data is projected onto the fields requested with `?fields=`.
    * 
    * @param data - Response data
    * @param message - Optional success message
    * @param meta - Optional metadata (pagination, etc.)
    */
   res.success = function(data?: any, message?: string, meta?: ResponseMeta): void {
+    const fields = getRequestContext()?.responseShape?.fields;
     const response: ApiResponse = {
       success: true,
-      data,
+      data: fields ? projectFields(data, fields) : data,
       meta: {
         ...meta,
         timestamp: new Date().toISOString(),
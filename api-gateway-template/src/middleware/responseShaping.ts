@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Response shaping middleware
+ *
+ * This middleware reads the `?fields=` and `?include=` query parameters into
+ * the request context, where `res.success` projects response data onto the
+ * requested fields and `enrichData` skips enrichments nobody asked for.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getRequestContext } from '../utils/requestContext';
+import { parseResponseShape } from '../utils/responseShaping';
+
+/**
+ * Parse the response shape of a request and attach it to the request context
+ * (must run after correlationMiddleware)
+ */
+const responseShaping = (req: Request, _res: Response, next: NextFunction): void => {
+  try {
+    const shape = parseResponseShape(req.query as Record<string, unknown>);
+    const context = getRequestContext();
+    if (shape && context) {
+      context.responseShape = shape;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default responseShaping;
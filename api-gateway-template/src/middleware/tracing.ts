@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Tracing middleware
+ *
+ * This middleware opens a server span for every inbound request, continuing the
+ * caller's trace when a valid W3C `traceparent` header is present. The span
+ * context is stored in the request context so ServiceProxy can open child spans
+ * for upstream calls, and is returned to the caller in the `traceparent`
+ * response header.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getTracer, parseTraceparent, formatTraceparent, Tracer } from '../utils/tracing';
+import {
+  createRequestContext,
+  getRequestContext,
+  runWithRequestContext,
+} from '../utils/requestContext';
+import { getRouteTemplate } from './metrics';
+
+/**
+ * Tracing middleware factory
+ *
+ * @param resolveTracer - Returns the tracer to use (defaults to the gateway tracer)
+ * @returns Express middleware function (a no-op while tracing is disabled)
+ */
+export const createTracingMiddleware = (resolveTracer: () => Tracer | undefined = getTracer) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const tracer = resolveTracer();
+    if (!tracer) {
+      return next();
+    }
+
+    const parent = parseTraceparent(req.get('traceparent'), req.get('tracestate'));
+    const span = tracer.startSpan(`${req.method} ${req.path}`, 'server', parent);
+
+    span
+      .setAttribute('http.method', req.method)
+      .setAttribute('http.target', req.originalUrl)
+      .setAttribute('http.client_ip', req.ip ?? '');
+
+    res.set('traceparent', formatTraceparent(span.context));
+
+    res.on('finish', () => {
+      const route = getRouteTemplate(req);
+      span
+        .updateName(`${req.method} ${route}`)
+        .setAttribute('http.route', route)
+        .setAttribute('http.status_code', res.statusCode);
+
+      if (res.statusCode >= 500) {
+        span.setStatus('ERROR', `HTTP ${res.statusCode}`);
+      }
+      span.end();
+    });
+
+    const context = getRequestContext();
+    if (context) {
+      context.traceContext = span.context;
+      return next();
+    }
+
+    // Requests that bypassed the correlation middleware still need a context for child spans
+    const fallback = createRequestContext(req, span.context.traceId);
+    fallback.traceContext = span.context;
+    runWithRequestContext(fallback, () => next());
+  };
+};
+
+/**
+ * Tracing middleware using the gateway tracer
+ */
+export const tracingMiddleware = createTracingMiddleware();
+
+export default tracingMiddleware;
@@ -77,7 +77,13 @@ const validate = (validationSchema: ValidationSchema) => {
         req.body = value;
         break;
       case 'query':
-        req.query = value;
+        // Express 5 exposes req.query through a getter, so shadow it on the request
+        Object.defineProperty(req, 'query', {
+          value,
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
         break;
       case 'params':
         req.params = value;
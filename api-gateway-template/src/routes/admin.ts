@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Admin routes for the API Gateway
+ *
+ * This module exposes operational endpoints (cache inspection and invalidation,
+ * service instance registration) protected by the static admin token configured
+ * via ADMIN_TOKEN.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Router } from 'express';
+import Joi from 'joi';
+import config from '../config';
+import { NotFoundError } from '../errors';
+import { asyncHandler, requireAdminToken, validateBody, validateQuery } from '../middleware';
+import { responseCache } from '../utils/responseCache';
+import { InstanceRegistration, serviceRegistry } from '../utils/serviceRegistry';
+import { ExtendedResponse } from '../types';
+
+const router = Router();
+
+router.use(requireAdminToken);
+
+// ===========================
+// VALIDATION SCHEMAS
+// ===========================
+
+const cacheInvalidationSchema = Joi.object({
+  prefix: Joi.string().min(1).required(),
+});
+
+const instanceRegistrationSchema = Joi.object({
+  id: Joi.string().max(200).optional(),
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .required(),
+  weight: Joi.number().integer().min(1).optional(),
+  ttl: Joi.number().integer().min(1000).optional(),
+});
+
+const heartbeatSchema = Joi.object({
+  ttl: Joi.number().integer().min(1000).optional(),
+});
+
+/**
+ * Name of the configured service addressed by the request
+ *
+ * @throws {NotFoundError} If the service is not configured
+ */
+function getServiceParam(req: Request): string {
+  const service = String(req.params.service);
+  if (!Object.prototype.hasOwnProperty.call(config.SERVICES, service)) {
+    throw new NotFoundError(`Unknown service: ${service}`);
+  }
+  return service;
+}
+
+// ===========================
+// CACHE ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/admin/cache:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Response cache statistics
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cache backend, size and hit/miss counters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get(
+  '/cache',
+  asyncHandler(async (req, res) => {
+    res.success(await responseCache.getStats(), 'Cache statistics retrieved');
+  })
+);
+
+/**
+ * @swagger
+ * /api/admin/cache:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Invalidate cached responses
+ *     description: |
+ *       Removes every cached response whose key starts with the given prefix.
+ *       Keys have the form `GET:/api/example/42?page=1`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: prefix
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cache key prefix, e.g. `GET:/api/example`
+ *     responses:
+ *       200:
+ *         description: Number of invalidated entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete(
+  '/cache',
+  validateQuery(cacheInvalidationSchema),
+  asyncHandler(async (req, res) => {
+    const prefix = String(req.query.prefix);
+    const removed = await responseCache.invalidate(prefix);
+
+    res.success({ prefix, removed }, 'Cache entries invalidated');
+  })
+);
+
+// ===========================
+// SERVICE REGISTRY ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/admin/services:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Registered service instances
+ *     description: |
+ *       Live instances per service. Services without registrations use their
+ *       configured URLs.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Instances keyed by service name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/services', (req, res) => {
+  (res as ExtendedResponse).success(serviceRegistry.listServices(), 'Service instances retrieved');
+});
+
+/**
+ * @swagger
+ * /api/admin/services/{service}/instances:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Register a service instance
+ *     description: |
+ *       Adds (or refreshes) an instance. It is dropped unless a heartbeat arrives
+ *       within its TTL (SERVICE_REGISTRY_TTL_MS by default). The instance ID
+ *       defaults to its URL.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: service
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url]
+ *             properties:
+ *               id: { type: string }
+ *               url: { type: string, format: uri }
+ *               weight: { type: integer, minimum: 1 }
+ *               ttl: { type: integer, minimum: 1000, description: Lease in milliseconds }
+ *     responses:
+ *       201:
+ *         description: Registered instance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.post(
+  '/services/:service/instances',
+  validateBody(instanceRegistrationSchema),
+  (req, res) => {
+    const instance = serviceRegistry.register(
+      getServiceParam(req),
+      req.body as InstanceRegistration
+    );
+
+    (res.status(201) as ExtendedResponse).success(instance, 'Instance registered');
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/services/{service}/instances/{id}/heartbeat:
+ *   put:
+ *     tags: [Admin]
+ *     summary: Renew a service instance's lease
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: service
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Renewed instance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.put(
+  '/services/:service/instances/:id/heartbeat',
+  validateBody(heartbeatSchema),
+  (req, res) => {
+    const { ttl } = req.body as { ttl?: number };
+    const instance = serviceRegistry.heartbeat(getServiceParam(req), String(req.params.id), ttl);
+    if (!instance) {
+      throw new NotFoundError('Instance is not registered');
+    }
+
+    (res as ExtendedResponse).success(instance, 'Instance lease renewed');
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/services/{service}/instances/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Deregister a service instance
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: service
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Instance removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.delete('/services/:service/instances/:id', (req, res) => {
+  const service = getServiceParam(req);
+  const id = String(req.params.id);
+  if (!serviceRegistry.deregister(service, id)) {
+    throw new NotFoundError('Instance is not registered');
+  }
+
+  (res as ExtendedResponse).success({ service, id }, 'Instance deregistered');
+});
+
+export default router;
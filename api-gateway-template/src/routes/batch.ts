@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Batch route for the API Gateway
+ *
+ * This module exposes POST /api/batch, which executes several gateway
+ * sub-requests in one HTTP call so clients can render a screen without a
+ * round trip per resource. Sub-requests carry the batch request's
+ * credentials and client IP, so authentication, plans and rate limits apply
+ * to each of them exactly as to direct calls.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import net from 'net';
+import { Request, Router } from 'express';
+import Joi from 'joi';
+import config from '../config';
+import { ValidationError } from '../errors';
+import { asyncHandler, validateBody } from '../middleware';
+import { BATCH_SUBREQUEST_HEADER, BatchItem, executeBatch } from '../utils/batch';
+import { getRequestContext } from '../utils/requestContext';
+
+const router = Router();
+
+// Batch request headers passed on to every sub-request
+const INHERITED_HEADERS = ['authorization', 'x-api-key', 'cookie', 'accept-language', 'user-agent'];
+
+// ===========================
+// VALIDATION SCHEMAS
+// ===========================
+
+const batchRequestSchema = Joi.object({
+  requests: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().max(100).optional(),
+        method: Joi.string().valid('GET', 'POST', 'PUT', 'DELETE', 'PATCH').default('GET'),
+        // Gateway API paths only, and no nested batches (routing ignores case)
+        path: Joi.string()
+          .pattern(/^\/api\/(?!batch(?:[/?#]|$))/i)
+          .required(),
+        headers: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+        body: Joi.any().optional(),
+        dependsOn: Joi.array().items(Joi.string()).optional(),
+      })
+    )
+    .min(1)
+    .max(config.BATCH.maxRequests)
+    .required(),
+});
+
+/**
+ * Assign default IDs (the item's index) and check that IDs are unique and
+ * that every dependency is an earlier sub-request
+ *
+ * @throws {ValidationError} On a duplicate ID or an invalid dependency
+ */
+function prepareItems(requests: Array<Omit<BatchItem, 'id'> & { id?: string }>): BatchItem[] {
+  const seen = new Set<string>();
+
+  return requests.map((request, index) => {
+    const item: BatchItem = { ...request, id: request.id ?? String(index) };
+    if (seen.has(item.id)) {
+      throw new ValidationError(`Duplicate sub-request id: ${item.id}`);
+    }
+    for (const dependency of item.dependsOn ?? []) {
+      if (!seen.has(dependency)) {
+        throw new ValidationError(
+          `Sub-request ${item.id} depends on ${dependency}, which is not an earlier sub-request`
+        );
+      }
+    }
+    seen.add(item.id);
+    return item;
+  });
+}
+
+/**
+ * Base URL under which this gateway is reachable over loopback
+ */
+function getLoopbackUrl(req: Request): string {
+  const host = ['0.0.0.0', '::', ''].includes(config.HOST) ? '127.0.0.1' : config.HOST;
+  return `http://${net.isIPv6(host) ? `[${host}]` : host}:${req.socket.localPort ?? config.PORT}`;
+}
+
+// ===========================
+// BATCH ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/batch:
+ *   post:
+ *     tags: [Gateway]
+ *     summary: Execute several sub-requests in one call
+ *     description: |
+ *       Runs each sub-request through the gateway's router and middleware with
+ *       the batch request's credentials, at most BATCH_CONCURRENCY at a time.
+ *       `dependsOn` lists earlier sub-requests that must succeed first;
+ *       otherwise the sub-request is answered with 424. Sub-requests still
+ *       running at the BATCH_TIMEOUT_MS deadline are answered with 504.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             requests:
+ *               - id: user
+ *                 method: GET
+ *                 path: /api/example/42
+ *               - id: create
+ *                 method: POST
+ *                 path: /api/example
+ *                 body: { name: Widget, category: typeA }
+ *                 dependsOn: [user]
+ *     responses:
+ *       200:
+ *         description: |
+ *           One `{ id, status, headers, body }` entry per sub-request, in
+ *           request order, where `body` is the sub-request's ApiResponse
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+router.post(
+  '/',
+  validateBody(batchRequestSchema),
+  asyncHandler(async (req, res) => {
+    // Paths that reach this route despite validation (encoded, duplicate slashes)
+    if (req.headers[BATCH_SUBREQUEST_HEADER] !== undefined) {
+      throw new ValidationError('Batches cannot be nested');
+    }
+
+    const { requests } = req.body as { requests: Array<Omit<BatchItem, 'id'> & { id?: string }> };
+    const items = prepareItems(requests);
+
+    const headers: Record<string, string> = {};
+    for (const name of INHERITED_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') {
+        headers[name] = value;
+      }
+    }
+    // Trusted from loopback peers, so sub-requests are attributed to the client
+    if (req.ip) {
+      headers['x-forwarded-for'] = req.ip;
+    }
+
+    const correlationId = getRequestContext()?.correlationId;
+    const results = await executeBatch(items, {
+      baseUrl: getLoopbackUrl(req),
+      headers,
+      concurrency: config.BATCH.concurrency,
+      timeout: config.BATCH.timeout,
+      ...(correlationId ? { correlationId } : {}),
+    });
+
+    const failed = results.filter(result => result.status >= 400).length;
+    res.success(results, 'Batch executed', {
+      total: results.length,
+      succeeded: results.length - failed,
+      failed,
+    });
+  })
+);
+
+export default router;
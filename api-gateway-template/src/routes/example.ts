@@ -10,24 +10,82 @@
  */
 
 import { Router } from 'express';
-import { createServiceProxies, aggregateServiceData, enrichData } from '../utils/serviceProxy';
-import { asyncHandler, validateQuery, validateParams, validateBody } from '../middleware';
+import { getServiceProxies } from '../utils/serviceProxy';
+import { Composition } from '../utils/composition';
+import {
+  asyncHandler,
+  cacheResponse,
+  validateQuery,
+  validateParams,
+  validateBody,
+} from '../middleware';
+import { invalidateCachedPath } from '../utils/responseCache';
 import { paginationSchema, idParamSchema } from '../middleware/validation';
 import Joi from 'joi';
 
 const router = Router();
 
-// Create service proxy instances
-const serviceProxies = createServiceProxies();
+// The gateway's shared service proxies
+const serviceProxies = getServiceProxies();
+
+// ===========================
+// COMPOSITIONS
+// ===========================
+
+// Items from Service A, with optional category metadata from Service B
+const itemList = new Composition(
+  [
+    {
+      name: 'primaryItems',
+      service: 'serviceA',
+      path: '/api/items',
+      params: {
+        query: '{{input.query}}',
+        category: '{{input.category}}',
+        page: '{{input.page}}',
+        limit: '{{input.limit}}',
+      },
+    },
+    {
+      name: 'metadata',
+      service: 'serviceB',
+      path: '/api/metadata',
+      params: { category: '{{input.category}}' },
+      required: false,
+    },
+  ],
+  serviceProxies
+);
+
+// An item from Service A, enriched by Services B and C once it is found
+const itemDetails = new Composition(
+  [
+    { name: 'item', service: 'serviceA', path: '/api/items/{{input.id}}' },
+    {
+      name: 'relatedData',
+      service: 'serviceB',
+      path: '/api/related/{{input.id}}',
+      dependsOn: ['item'],
+      required: false,
+    },
+    {
+      name: 'analytics',
+      service: 'serviceC',
+      path: '/api/analytics/{{input.id}}',
+      dependsOn: ['item'],
+      required: false,
+    },
+  ],
+  serviceProxies
+);
 
 // ===========================
 // VALIDATION SCHEMAS
 // ===========================
 
-const exampleSearchSchema = Joi.object({
+const exampleSearchSchema = paginationSchema.keys({
   query: Joi.string().min(1).max(255).trim().optional(),
   category: Joi.string().valid('all', 'typeA', 'typeB').default('all'),
-  ...paginationSchema.describe().keys,
 });
 
 const exampleCreateSchema = Joi.object({
@@ -50,6 +108,8 @@ const exampleCreateSchema = Joi.object({
  *     description: |
  *       Demonstrates how to aggregate data from multiple backend services.
  *       This endpoint fetches data from Service A and enriches it with data from Service B.
+ *       Service A is required; without Service B the items are returned with
+ *       empty metadata. `meta.sources` reports the outcome of each call.
  *     parameters:
  *       - in: query
  *         name: query
@@ -79,6 +139,7 @@ const exampleCreateSchema = Joi.object({
  *           maximum: 100
  *           default: 20
  *         description: Items per page
+ *       - $ref: '#/components/parameters/Fields'
  *     responses:
  *       200:
  *         description: List of items from multiple services
@@ -94,29 +155,22 @@ const exampleCreateSchema = Joi.object({
 router.get(
   '/',
   validateQuery(exampleSearchSchema),
+  cacheResponse(),
   asyncHandler(async (req, res) => {
-    const { query, category, page, limit } = req.query;
+    const { page, limit } = req.query;
 
     try {
       // Example: Aggregate data from multiple services
-      const aggregatedData = await aggregateServiceData([
-        {
-          service: serviceProxies.serviceA,
-          path: '/api/items',
-          params: { query, category, page, limit },
-          key: 'primaryItems',
-        },
-        {
-          service: serviceProxies.serviceB,
-          path: '/api/metadata',
-          params: { category },
-          key: 'metadata',
-        },
-      ]);
+      const { data, meta, sources } = await itemList.execute(req.query);
 
-      // Process and combine the results
-      const items = aggregatedData.primaryItems?.items || [];
-      const metadata = aggregatedData.metadata || {};
+      // Process and combine the results (services may answer with a list in an
+      // envelope with pagination, or with an { items, total } object)
+      const primaryItems = data.primaryItems as
+        | unknown[]
+        | { items?: unknown[]; total?: number }
+        | null;
+      const items = Array.isArray(primaryItems) ? primaryItems : (primaryItems?.items ?? []);
+      const metadata = data.metadata ?? {};
 
       res.success(
         {
@@ -128,7 +182,9 @@ router.get(
         {
           page: parseInt(page as string, 10),
           limit: parseInt(limit as string, 10),
-          total: aggregatedData.primaryItems?.total || 0,
+          total: Array.isArray(primaryItems) ? primaryItems.length : (primaryItems?.total ?? 0),
+          ...meta.primaryItems,
+          sources,
         }
       );
     } catch (error) {
@@ -148,7 +204,8 @@ router.get(
  *     summary: Get item details with enriched data
  *     description: |
  *       Demonstrates how to fetch an item from one service and enrich it
- *       with related data from other services.
+ *       with related data from other services. Enrichments that fail are
+ *       null; `meta.sources` reports the outcome of each call.
  *     parameters:
  *       - in: path
  *         name: id
@@ -162,9 +219,14 @@ router.get(
  *             - type: string
  *               format: uuid
  *         description: Item ID (MongoDB ObjectId, integer, or UUID)
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Include'
  *     responses:
  *       200:
- *         description: Item details with enriched data
+ *         description: |
+ *           Item details with enriched data. `relatedData` and `analytics` are
+ *           only fetched when requested via `include` or `fields`, or when
+ *           neither parameter is given.
  *         content:
  *           application/json:
  *             schema:
@@ -177,29 +239,21 @@ router.get(
 router.get(
   '/:id',
   validateParams(idParamSchema),
+  cacheResponse(),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
     try {
-      // First, get the base item from Service A
-      const baseItemResponse = await serviceProxies.serviceA.get(`/api/items/${id}`);
-      const baseItem = baseItemResponse.data;
+      // Get the base item from Service A, then enrich it with data from other
+      // services (skipping enrichments the client left out with ?fields= or ?include=)
+      const { data, sources } = await itemDetails.execute({ id });
+      const { item, ...enrichments } = data;
 
-      // Then enrich it with data from other services
-      const enrichedItem = await enrichData(baseItem, [
-        {
-          service: serviceProxies.serviceB,
-          path: `/api/related/${id}`,
-          key: 'relatedData',
-        },
-        {
-          service: serviceProxies.serviceC,
-          path: `/api/analytics/${id}`,
-          key: 'analytics',
-        },
-      ]);
-
-      res.success(enrichedItem, 'Item details retrieved successfully');
+      res.success(
+        { ...(item as Record<string, unknown>), ...enrichments },
+        'Item details retrieved successfully',
+        { sources }
+      );
     } catch (error) {
       console.error('Error in example detail endpoint:', error);
       throw error;
@@ -269,6 +323,9 @@ router.post(
       const createResponse = await serviceProxies.serviceA.post('/api/items', itemData);
       const createdItem = createResponse.data;
 
+      // Cached listings no longer reflect the collection
+      await invalidateCachedPath('/api/example');
+
       // Trigger related actions in other services (fire and forget)
       Promise.allSettled([
         serviceProxies.serviceB.post('/api/index', {
@@ -358,6 +415,9 @@ router.put(
       const updateResponse = await serviceProxies.serviceA.put(`/api/items/${id}`, updateData);
       const updatedItem = updateResponse.data;
 
+      // Drop cached listings and the cached detail of this item
+      await invalidateCachedPath('/api/example');
+
       // Sync changes to other services (fire and forget)
       Promise.allSettled([
         serviceProxies.serviceB.put(`/api/index/${id}`, {
@@ -419,6 +479,7 @@ router.delete(
     try {
       // Delete from primary service first
       await serviceProxies.serviceA.delete(`/api/items/${id}`);
+      await invalidateCachedPath('/api/example');
 
       // Clean up from other services
       await Promise.allSettled([
@@ -12,6 +12,16 @@ import { Router } from 'express';
 
 // Import route modules
 import exampleRoutes from './example';
+import adminRoutes from './admin';
+import batchRoutes from './batch';
+import { loadRouteTableRouter } from './routeTable';
+import { getSystemHealth } from '../middleware/healthCheck';
+import Joi from 'joi';
+import { asyncHandler, authenticate, requireApiKey, validateQuery } from '../middleware';
+import { ServiceUnavailableError } from '../errors';
+import { metricsCollector } from '../utils/metrics';
+import { createFederatedSearch } from '../utils/search';
+import { getServiceProxies } from '../utils/serviceProxy';
 // Add more route imports here as you build your gateway
 // import userRoutes from './users';
 // import productRoutes from './products';
@@ -19,16 +29,59 @@ import exampleRoutes from './example';
 
 const router = Router();
 
+// Services with a search adapter, queried by /api/search
+const federatedSearch = createFederatedSearch(getServiceProxies());
+
+const searchSchema = Joi.object({
+  q: Joi.string().trim().min(2).max(255).required(),
+  // Checked per request, since adapters can be registered after startup
+  type: Joi.string()
+    .default('all')
+    .custom((value: string, helpers) => {
+      const valids = ['all', ...federatedSearch.getSources()];
+      return valids.includes(value) ? value : helpers.error('any.only', { valids });
+    }),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+});
+
 // ===========================
 // ROUTE MOUNTING
 // ===========================
 
+/**
+ * Admin routes - operational endpoints protected by ADMIN_TOKEN
+ * (mounted before JWT authentication, which would reject the static token)
+ */
+router.use('/admin', adminRoutes);
+
+/**
+ * JWT authentication - populates req.user from a valid bearer token; routes
+ * enforce it with requireAuth()/requireRoles()
+ */
+router.use(authenticate({ optional: true }));
+
+/**
+ * API key authentication - populates req.user from X-API-Key and enforces the
+ * key's plan rate limit and quotas (config.API_KEYS_FILE)
+ */
+router.use(requireApiKey({ optional: true }));
+
 /**
  * Example routes - demonstrates basic gateway functionality
  * Replace these with your actual domain routes
  */
 router.use('/example', exampleRoutes);
 
+/**
+ * Batch route - executes several sub-requests through this router in one call
+ */
+router.use('/batch', batchRoutes);
+
+/**
+ * Declarative pass-through routes loaded from the route table file (config.ROUTES_FILE)
+ */
+router.use(loadRouteTableRouter(getServiceProxies()));
+
 // Mount your actual routes here:
 // router.use('/users', userRoutes);
 // router.use('/products', productRoutes);
@@ -73,6 +126,8 @@ router.get('/status', (req, res) => {
       timestamp: new Date().toISOString(),
       routes: {
         example: '/api/example',
+        batch: '/api/batch',
+        metrics: '/api/metrics',
         // Add your actual routes here:
         // users: '/api/users',
         // products: '/api/products',
@@ -84,15 +139,76 @@ router.get('/status', (req, res) => {
   });
 });
 
+/**
+ * @swagger
+ * /api/metrics:
+ *   get:
+ *     tags: [Gateway]
+ *     summary: Gateway metrics
+ *     description: |
+ *       Returns request counts, success/error counts, latency percentiles (p50/p95/p99),
+ *       availability and the last error for every inbound route and upstream service
+ *       since the gateway started. Responses with a 5xx status count as errors.
+ *     responses:
+ *       200:
+ *         description: GatewayMetrics snapshot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 uptime: 3600
+ *                 requests:
+ *                   total: 1200
+ *                   success: 1195
+ *                   errors: 5
+ *                   averageResponseTime: 42.5
+ *                   successRate: 99.58
+ *                   latency: { p50: 30, p95: 120, p99: 250 }
+ *                 routes:
+ *                   "GET /api/example/:id":
+ *                     total: 800
+ *                     success: 798
+ *                     errors: 2
+ *                     averageResponseTime: 51.2
+ *                     successRate: 99.75
+ *                     latency: { p50: 40, p95: 130, p99: 260 }
+ *                 services:
+ *                   serviceA:
+ *                     requests:
+ *                       total: 820
+ *                       success: 815
+ *                       errors: 5
+ *                       averageResponseTime: 35.1
+ *                       successRate: 99.39
+ *                       latency: { p50: 25, p95: 90, p99: 200 }
+ *                     availability: 99.39
+ *                     coalesced: 12
+ *                     lastError: "Request to serviceA timed out"
+ *                     lastErrorTime: "2024-01-01T00:00:00.000Z"
+ *               timestamp: "2024-01-01T00:00:00.000Z"
+ */
+router.get('/metrics', (req, res) => {
+  res.json({
+    success: true,
+    data: metricsCollector.getMetrics(getSystemHealth()),
+    timestamp: new Date().toISOString(),
+  });
+});
+
 /**
  * @swagger
  * /api/search:
  *   get:
  *     tags: [Gateway]
- *     summary: Multi-service search
+ *     summary: Federated search across services
  *     description: |
- *       Performs search across multiple services and aggregates results.
- *       This is a template implementation - customize based on your services.
+ *       Queries every service with a search adapter (SERVICE_X_SEARCH_PATH) in
+ *       parallel and merges the hits into one ranking by score, normalized per
+ *       service. Services that have not answered within SEARCH_TIMEOUT_MS are
+ *       dropped and reported with status `timeout` in `meta.sources`.
  *     parameters:
  *       - in: query
  *         name: q
@@ -105,9 +221,8 @@ router.get('/status', (req, res) => {
  *         name: type
  *         schema:
  *           type: string
- *           enum: [all, serviceA, serviceB, serviceC]
  *           default: all
- *         description: Limit search to specific service type
+ *         description: Limit search to one service (`all` or a service with a search adapter)
  *       - in: query
  *         name: limit
  *         schema:
@@ -115,7 +230,7 @@ router.get('/status', (req, res) => {
  *           minimum: 1
  *           maximum: 100
  *           default: 10
- *         description: Maximum items per service
+ *         description: Maximum items per service, and in the merged ranking
  *     responses:
  *       200:
  *         description: Search results from multiple services
@@ -135,67 +250,67 @@ router.get('/status', (req, res) => {
  *                           type: string
  *                         results:
  *                           type: object
+ *                           description: Hits per service, plus the total across services
+ *                           additionalProperties:
+ *                             type: array
+ *                             items: {}
  *                           properties:
- *                             serviceA:
- *                               type: array
- *                               items: {}
- *                             serviceB:
- *                               type: array
- *                               items: {}
- *                             serviceC:
- *                               type: array
- *                               items: {}
  *                             total:
  *                               type: integer
+ *                         ranked:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               source:
+ *                                 type: string
+ *                               score:
+ *                                 type: number
+ *                                 description: Score normalized to 0..1 within its source
+ *                               item: {}
+ *                     meta:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: integer
+ *                         searchTime:
+ *                           type: string
+ *                           example: 42ms
+ *                         sources:
+ *                           type: object
+ *                           description: Status (ok, failed, timeout), count and latency
+ *                             per service
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       503:
+ *         description: No queried service answered
  */
-router.get('/search', async (req, res, next) => {
-  try {
-    const { q: query, type = 'all', limit = 10 } = req.query;
-
-    if (!query || (query as string).trim().length < 2) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Search query must be at least 2 characters long',
-        },
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    // This is a template implementation
-    // In a real gateway, you would:
-    // 1. Create service proxy instances
-    // 2. Make parallel requests to relevant services
-    // 3. Aggregate and normalize the results
-    // 4. Handle errors gracefully
-
-    const searchResults = {
-      success: true,
-      data: {
-        query: (query as string).trim(),
-        type,
-        results: {
-          serviceA: [], // Results from Service A
-          serviceB: [], // Results from Service B
-          serviceC: [], // Results from Service C
-          total: 0,
-        },
-      },
-      meta: {
-        limit: parseInt(limit as string, 10),
-        timestamp: new Date().toISOString(),
-        searchTime: '0ms',
-      },
-      timestamp: new Date().toISOString(),
+router.get(
+  '/search',
+  validateQuery(searchSchema),
+  asyncHandler(async (req, res) => {
+    const { q: query, type, limit } = req.query as unknown as {
+      q: string;
+      type: string;
+      limit: number;
     };
 
-    res.json(searchResults);
-  } catch (error) {
-    next(error);
-  }
-});
+    const { results, ranked, total, sources, searchTime } = await federatedSearch.search(query, {
+      type,
+      limit,
+    });
+
+    const queried = Object.values(sources);
+    if (queried.length > 0 && queried.every(source => source.status !== 'ok')) {
+      throw new ServiceUnavailableError('Search is unavailable', { sources });
+    }
+
+    res.success({ query, type, results: { ...results, total }, ranked }, 'Search completed', {
+      limit,
+      searchTime: `${searchTime}ms`,
+      sources,
+    });
+  })
+);
 
 export default router;
\ No newline at end of file
@@ -9,6 +9,7 @@
  * @version 1.0.0
  */
 
+import { Readable } from 'stream';
 import { Request, Response } from 'express';
 
 // ===========================
@@ -71,6 +72,17 @@ export interface HealthCheckResult {
   system: SystemHealth;
 }
 
+/**
+ * Health of one service instance, as seen by the background health monitor
+ */
+export interface InstanceHealthStatus {
+  url: string;
+  status: 'healthy' | 'unhealthy';
+  responseTime?: number;
+  error?: string;
+  lastChecked: string;
+}
+
 /**
  * Individual service health status
  */
@@ -79,6 +91,19 @@ export interface ServiceHealthStatus {
   responseTime?: number;
   error?: string;
   lastChecked: string;
+  circuit?: {
+    state: 'closed' | 'open' | 'half-open';
+    failures: number;
+    failureThreshold: number;
+    openDuration: number;
+    lastFailure?: string;
+    openedAt?: string;
+    nextAttemptAt?: string;
+  };
+  requests?: ServiceProxyStats;
+  instances?: InstanceHealthStatus[];
+  /** Whether the gateway is unhealthy (and not ready) while this service is down */
+  critical?: boolean;
 }
 
 /**
@@ -121,6 +146,24 @@ export interface ExtendedResponse extends Response {
 // SERVICE PROXY TYPES
 // ===========================
 
+/**
+ * Instance selection strategy for services with several instances
+ */
+export type LoadBalancingStrategy =
+  | 'round-robin'
+  | 'weighted'
+  | 'least-outstanding'
+  | 'consistent-hash';
+
+/**
+ * One instance of a horizontally scaled service
+ */
+export interface ServiceInstanceConfig {
+  url: string;
+  /** Relative share of traffic for the weighted and consistent-hash strategies */
+  weight?: number;
+}
+
 /**
  * Service proxy configuration
  */
@@ -129,18 +172,54 @@ export interface ServiceProxyConfig {
   timeout: number;
   retries: number;
   headers: Record<string, string>;
+  circuitBreaker?: {
+    failureThreshold?: number;
+    openDuration?: number;
+    halfOpenMaxProbes?: number;
+  };
+  coalesceGets?: boolean;
+  /** Instances to balance across (defaults to the single baseUrl) */
+  instances?: ServiceInstanceConfig[];
+  /** Instance selection strategy (defaults to round-robin) */
+  loadBalancing?: LoadBalancingStrategy;
+  /** Response adapter name (defaults to auto) */
+  responseFormat?: string;
+}
+
+/**
+ * Service proxy request statistics
+ */
+export interface ServiceProxyStats {
+  /** GET requests currently in flight that others can join */
+  inFlightGets: number;
+  /** GET calls answered by joining an identical in-flight request */
+  coalescedRequests: number;
 }
 
 /**
  * Service proxy response
  */
 export interface ServiceProxyResponse<T = any> {
+  /** Response data, unwrapped from the service's envelope */
   data: T;
+  /** Metadata from the service's envelope (pagination lifted into page, total, ...) */
+  meta?: ResponseMeta;
   status: number;
   headers: Record<string, string>;
   responseTime: number;
 }
 
+/**
+ * Streaming service proxy response: the body is read as it arrives
+ */
+export interface ServiceProxyStreamResponse {
+  data: Readable;
+  status: number;
+  headers: Record<string, string>;
+  /** Time until the response headers arrived (milliseconds) */
+  responseTime: number;
+}
+
 /**
  * Service proxy error
  */
@@ -154,6 +233,8 @@ export interface ServiceProxyError extends Error {
   };
   isTimeout?: boolean;
   isNetworkError?: boolean;
+  /** Upstream error body, mapped by the service's response adapter */
+  envelope?: ErrorEnvelope;
 }
 
 // ===========================
@@ -228,6 +309,16 @@ export interface RequestMetrics {
   errors: number;
   averageResponseTime: number;
   successRate: number;
+  latency: LatencyPercentiles;
+}
+
+/**
+ * Latency percentiles in milliseconds
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
 }
 
 /**
@@ -237,6 +328,7 @@ export interface ServiceMetrics {
   [serviceName: string]: {
     requests: RequestMetrics;
     availability: number;
+    coalesced?: number;
     lastError?: string;
     lastErrorTime?: string;
   };
@@ -248,6 +340,7 @@ export interface ServiceMetrics {
 export interface GatewayMetrics {
   uptime: number;
   requests: RequestMetrics;
+  routes: Record<string, RequestMetrics>;
   services: ServiceMetrics;
   system: SystemHealth;
   timestamp: string;
@@ -274,11 +367,54 @@ export interface RouteConfig {
   rateLimit?: {
     windowMs: number;
     max: number;
+    /** What requests are counted by (defaults to client IP) */
+    keyBy?: 'ip' | 'user' | 'apiKey' | 'tenant';
+    /** Counting algorithm (defaults to fixed-window) */
+    algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket';
+    /** Token bucket capacity (defaults to max) */
+    burst?: number;
   };
   auth?: {
     required: boolean;
     roles?: string[];
   };
+  /** Pipe the upstream response through as it arrives (SSE, downloads, NDJSON) */
+  stream?: {
+    enabled: boolean;
+    /** Close the stream after this long without data (defaults to STREAM_IDLE_TIMEOUT_MS) */
+    idleTimeout?: number;
+  };
+}
+
+/**
+ * API key plan: rate limit and calendar quotas shared by every key on the plan
+ */
+export interface ApiKeyPlan {
+  name: string;
+  rateLimit?: {
+    windowMs: number;
+    max: number;
+  };
+  quota?: {
+    /** Requests per UTC day */
+    daily?: number;
+    /** Requests per UTC calendar month */
+    monthly?: number;
+  };
+}
+
+/**
+ * API key record (the key itself is never stored, only its SHA-256 hash)
+ */
+export interface ApiKeyRecord {
+  /** Stable key identifier, used as `req.user.sub` and in quota counters */
+  id: string;
+  /** Hex-encoded SHA-256 hash of the key */
+  hash: string;
+  /** Name of the plan the key is tied to */
+  plan: string;
+  roles?: string[];
+  disabled?: boolean;
 }
 
 // ===========================
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview API key registry and plan quotas
+ *
+ * This module resolves `X-API-Key` values to key records and their plans. Keys
+ * are stored as SHA-256 hashes, either listed in the API keys file (JSON or
+ * YAML) or kept in the shared key/value store. Daily and monthly plan quotas
+ * are counted per key in the shared store on UTC calendar boundaries.
+ *
+ * Example (YAML):
+ * ```yaml
+ * plans:
+ *   partner:
+ *     rateLimit: { windowMs: 60000, max: 120 }
+ *     quota: { daily: 10000, monthly: 200000 }
+ * keys:
+ *   - id: acme
+ *     hash: 3f1c...   # sha256 of the key
+ *     plan: partner
+ *     roles: [partner]
+ * ```
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import YAML from 'yaml';
+import config from '../config';
+import { ApiKeyPlan, ApiKeyRecord } from '../types';
+import { KeyValueStore, createStore } from './store';
+
+// ===========================
+// VALIDATION SCHEMAS
+// ===========================
+
+const planSchema = Joi.object({
+  rateLimit: Joi.object({
+    windowMs: Joi.number().integer().min(1).required(),
+    max: Joi.number().integer().min(1).required(),
+  }).optional(),
+  quota: Joi.object({
+    daily: Joi.number().integer().min(1).optional(),
+    monthly: Joi.number().integer().min(1).optional(),
+  }).optional(),
+});
+
+const keySchema = Joi.object({
+  id: Joi.string().required(),
+  hash: Joi.string()
+    .pattern(/^[a-f0-9]{64}$/)
+    .required(),
+  plan: Joi.string().required(),
+  roles: Joi.array().items(Joi.string()).optional(),
+  disabled: Joi.boolean().optional(),
+});
+
+const apiKeysFileSchema = Joi.object({
+  plans: Joi.object().pattern(Joi.string(), planSchema).required(),
+  keys: Joi.array().items(keySchema).default([]),
+});
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+// ===========================
+// KEY SOURCES
+// ===========================
+
+/**
+ * Lookup of key records by hash
+ */
+export interface ApiKeySource {
+  find(hash: string): Promise<ApiKeyRecord | undefined>;
+}
+
+/**
+ * Key records listed statically (e.g. in the API keys file)
+ */
+export class StaticApiKeySource implements ApiKeySource {
+  private readonly records: Map<string, ApiKeyRecord>;
+
+  constructor(records: ApiKeyRecord[]) {
+    this.records = new Map(records.map(record => [record.hash, record]));
+  }
+
+  /**
+   * Find a record by key hash
+   */
+  find(hash: string): Promise<ApiKeyRecord | undefined> {
+    return Promise.resolve(this.records.get(hash));
+  }
+}
+
+/**
+ * Key records kept in the shared key/value store, so keys can be issued and
+ * revoked at runtime without redeploying every replica
+ */
+export class StoreApiKeySource implements ApiKeySource {
+  private readonly store: KeyValueStore;
+
+  constructor(store: KeyValueStore = createStore('apikeys')) {
+    this.store = store;
+  }
+
+  /**
+   * Find a record by key hash
+   */
+  find(hash: string): Promise<ApiKeyRecord | undefined> {
+    return this.store.get<ApiKeyRecord>(hash);
+  }
+
+  /**
+   * Add or replace a key record
+   */
+  save(record: ApiKeyRecord): Promise<void> {
+    return this.store.set(record.hash, record);
+  }
+
+  /**
+   * Revoke a key
+   */
+  remove(hash: string): Promise<void> {
+    return this.store.del(hash);
+  }
+}
+
+// ===========================
+// REGISTRY
+// ===========================
+
+/**
+ * Authenticated API key together with its plan
+ */
+export interface ResolvedApiKey {
+  key: ApiKeyRecord;
+  plan: ApiKeyPlan;
+}
+
+/**
+ * Plans plus the source their keys are looked up in
+ */
+export class ApiKeyRegistry {
+  private readonly plans: Map<string, ApiKeyPlan>;
+  private readonly source: ApiKeySource;
+
+  constructor(plans: ApiKeyPlan[], source: ApiKeySource) {
+    this.plans = new Map(plans.map(plan => [plan.name, plan]));
+    this.source = source;
+  }
+
+  /**
+   * Whether any plan is configured (API key authentication is off otherwise)
+   */
+  isEnabled(): boolean {
+    return this.plans.size > 0;
+  }
+
+  /**
+   * Every configured plan
+   */
+  getPlans(): ApiKeyPlan[] {
+    return [...this.plans.values()];
+  }
+
+  /**
+   * Resolve a raw API key, or undefined when it is unknown, disabled or on an unknown plan
+   */
+  async resolve(apiKey: string): Promise<ResolvedApiKey | undefined> {
+    const key = await this.source.find(hashApiKey(apiKey));
+    if (!key || key.disabled) {
+      return undefined;
+    }
+
+    const plan = this.plans.get(key.plan);
+    return plan ? { key, plan } : undefined;
+  }
+}
+
+/**
+ * Load the API keys file and build the registry.
+ * Returns a disabled registry when the file does not exist.
+ *
+ * @throws {Error} If the file cannot be parsed or is invalid
+ */
+export function loadApiKeyRegistry(filePath: string = config.API_KEYS_FILE): ApiKeyRegistry {
+  const resolved = path.resolve(filePath);
+
+  if (!fs.existsSync(resolved)) {
+    return new ApiKeyRegistry([], new StaticApiKeySource([]));
+  }
+
+  const raw = fs.readFileSync(resolved, 'utf8');
+  const extension = path.extname(resolved).toLowerCase();
+  const parsed: unknown =
+    extension === '.yaml' || extension === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+  const result = apiKeysFileSchema.validate(parsed ?? {}, { abortEarly: false });
+  if (result.error) {
+    throw new Error(`Invalid API keys file ${resolved}: ${result.error.message}`);
+  }
+
+  const value = result.value as {
+    plans: Record<string, Omit<ApiKeyPlan, 'name'>>;
+    keys: ApiKeyRecord[];
+  };
+  const plans = Object.entries(value.plans).map(([name, plan]) => ({ name, ...plan }));
+  const source =
+    config.API_KEYS_SOURCE === 'store'
+      ? new StoreApiKeySource()
+      : new StaticApiKeySource(value.keys);
+
+  return new ApiKeyRegistry(plans, source);
+}
+
+// ===========================
+// QUOTAS
+// ===========================
+
+/**
+ * Outcome of counting a request against a key's quotas
+ */
+export interface QuotaResult {
+  allowed: boolean;
+  /** Requests left in the tightest quota period (undefined when the plan has no quota) */
+  remaining?: number;
+  /** Seconds until the exhausted period resets (only when not allowed) */
+  retryAfter?: number;
+}
+
+/**
+ * Start of the next UTC day or month after `time`
+ */
+function nextPeriodStart(time: Date, period: 'daily' | 'monthly'): number {
+  return period === 'daily'
+    ? Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate() + 1)
+    : Date.UTC(time.getUTCFullYear(), time.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Counts requests per key against daily and monthly quotas
+ */
+export class QuotaTracker {
+  private readonly store: KeyValueStore;
+  private readonly now: () => number;
+
+  constructor(store: KeyValueStore = createStore('quota'), now: () => number = Date.now) {
+    this.store = store;
+    this.now = now;
+  }
+
+  /**
+   * Count one request for a key and report whether it is within the plan quotas.
+   * A rejected request is not counted against any period.
+   */
+  async consume(keyId: string, quota: ApiKeyPlan['quota']): Promise<QuotaResult> {
+    const time = new Date(this.now());
+    const counters: Array<{ key: string; limit: number; used: number; resetIn: number }> = [];
+
+    // Increment atomically first, so concurrent requests cannot all pass a check
+    for (const period of ['daily', 'monthly'] as const) {
+      const limit = quota?.[period];
+      if (!limit) {
+        continue;
+      }
+
+      const resetIn = nextPeriodStart(time, period) - time.getTime();
+      const key = `${keyId}:${period}:${time.toISOString().slice(0, period === 'daily' ? 10 : 7)}`;
+      counters.push({ key, limit, used: await this.store.incr(key, 1, resetIn), resetIn });
+    }
+
+    if (counters.length === 0) {
+      return { allowed: true };
+    }
+
+    const exceeded = counters.filter(counter => counter.used > counter.limit);
+    if (exceeded.length === 0) {
+      return {
+        allowed: true,
+        remaining: Math.min(...counters.map(counter => counter.limit - counter.used)),
+      };
+    }
+
+    // Roll back every period, so rejected calls do not use up the others
+    await Promise.all(counters.map(counter => this.store.incr(counter.key, -1)));
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfter: Math.max(...exceeded.map(counter => Math.ceil(counter.resetIn / 1000))),
+    };
+  }
+}
+
+export default {
+  hashApiKey,
+  StaticApiKeySource,
+  StoreApiKeySource,
+  ApiKeyRegistry,
+  loadApiKeyRegistry,
+  QuotaTracker,
+};
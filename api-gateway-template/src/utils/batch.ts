@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Batch execution of gateway sub-requests
+ *
+ * This module executes the sub-requests of a batch against the gateway
+ * itself, over loopback HTTP, so every sub-request passes through the same
+ * router and middleware as a direct call (authentication, API key plans,
+ * rate limits, validation, caching). Sub-requests run with bounded
+ * concurrency, wait for the sub-requests they depend on, and share one
+ * deadline for the whole batch.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import axios, { Method } from 'axios';
+import { ERROR_CODES } from '../errors';
+import { formatErrorResponse } from './serviceProxy';
+
+/**
+ * Header marking loopback sub-requests, so that a batch route reached from
+ * inside a batch refuses to run a nested batch
+ */
+export const BATCH_SUBREQUEST_HEADER = 'x-gateway-batch-subrequest';
+
+// Headers a sub-request may not set: they describe the loopback connection
+// or the original client, which the gateway fills in itself
+const RESERVED_HEADERS = new Set([
+  BATCH_SUBREQUEST_HEADER,
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'x-forwarded-for',
+  'x-forwarded-host',
+  'x-forwarded-proto',
+]);
+
+// Sub-response headers returned to the client
+const RETURNED_HEADERS = [
+  'content-type',
+  'cache-control',
+  'etag',
+  'last-modified',
+  'location',
+  'retry-after',
+];
+
+/**
+ * One sub-request of a batch
+ */
+export interface BatchItem {
+  /** Unique within the batch; referenced by dependsOn */
+  id: string;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /** Gateway path including the query string, e.g. /api/users/42?fields=name */
+  path: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Earlier sub-requests that must succeed before this one runs */
+  dependsOn?: string[];
+}
+
+/**
+ * Response to one sub-request
+ */
+export interface BatchItemResult {
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+  /** ApiResponse envelope (or the raw text of a non-JSON response) */
+  body: unknown;
+}
+
+/**
+ * Batch execution options
+ */
+export interface BatchOptions {
+  /** Gateway base URL reachable over loopback, e.g. http://127.0.0.1:3000 */
+  baseUrl: string;
+  /** Headers sent with every sub-request (credentials, client IP, ...) */
+  headers: Record<string, string>;
+  /** Sub-requests executed at the same time */
+  concurrency: number;
+  /** Deadline for the whole batch (milliseconds) */
+  timeout: number;
+  /** Correlation ID of the batch; sub-requests get `<id>-<item id>` */
+  correlationId?: string;
+}
+
+/**
+ * Limit the number of tasks running at the same time
+ */
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    while (active >= concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+/**
+ * Result for a sub-request the gateway answered itself
+ */
+function errorResult(id: string, status: number, code: string, message: string): BatchItemResult {
+  return {
+    id,
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    body: formatErrorResponse({ code, message }),
+  };
+}
+
+/**
+ * Execute the sub-requests of a batch and return their responses in request
+ * order. A sub-request whose dependency failed (status 400 or above) is
+ * answered with 424; sub-requests unfinished at the deadline with 504.
+ */
+export async function executeBatch(
+  items: BatchItem[],
+  options: BatchOptions
+): Promise<BatchItemResult[]> {
+  const limit = createLimiter(options.concurrency);
+  const controller = new AbortController();
+  const deadline = setTimeout(() => controller.abort(), options.timeout);
+  const results = new Map<string, Promise<BatchItemResult>>();
+
+  /**
+   * Send one sub-request through the gateway
+   */
+  const send = async (item: BatchItem): Promise<BatchItemResult> => {
+    if (controller.signal.aborted) {
+      return errorResult(item.id, 504, ERROR_CODES.TIMEOUT, 'Batch deadline exceeded');
+    }
+
+    const headers: Record<string, string> = { ...options.headers };
+    for (const [name, value] of Object.entries(item.headers ?? {})) {
+      if (!RESERVED_HEADERS.has(name.toLowerCase())) {
+        headers[name.toLowerCase()] = value;
+      }
+    }
+    if (options.correlationId) {
+      headers['x-correlation-id'] = `${options.correlationId}-${item.id}`;
+    }
+    headers[BATCH_SUBREQUEST_HEADER] = '1';
+
+    try {
+      const response = await axios.request<unknown>({
+        baseURL: options.baseUrl,
+        url: item.path,
+        method: item.method as Method,
+        headers,
+        data: item.body,
+        signal: controller.signal,
+        maxRedirects: 0,
+        // Every status is a valid sub-response
+        validateStatus: () => true,
+      });
+
+      const returned: Record<string, string> = {};
+      for (const name of RETURNED_HEADERS) {
+        const value: unknown = response.headers[name];
+        if (typeof value === 'string') {
+          returned[name] = value;
+        }
+      }
+      return { id: item.id, status: response.status, headers: returned, body: response.data };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return errorResult(item.id, 504, ERROR_CODES.TIMEOUT, 'Batch deadline exceeded');
+      }
+      return errorResult(
+        item.id,
+        502,
+        ERROR_CODES.GATEWAY_ERROR,
+        `Sub-request failed: ${(error as Error).message}`
+      );
+    }
+  };
+
+  // Dependencies come earlier in the batch, so their results are already scheduled
+  for (const item of items) {
+    const dependencies = (item.dependsOn ?? []).map(
+      id => results.get(id) as Promise<BatchItemResult>
+    );
+    results.set(
+      item.id,
+      Promise.all(dependencies).then(settled => {
+        const failed = settled.find(result => result.status >= 400);
+        if (failed) {
+          return errorResult(
+            item.id,
+            424,
+            'DEPENDENCY_FAILED',
+            `Dependency ${failed.id} did not succeed (status ${failed.status})`
+          );
+        }
+        return limit(() => send(item));
+      })
+    );
+  }
+
+  try {
+    return await Promise.all(items.map(item => results.get(item.id) as Promise<BatchItemResult>));
+  } finally {
+    clearTimeout(deadline);
+  }
+}
+
+export default {
+  executeBatch,
+};
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Circuit breaker for backend service calls
+ *
+ * This module provides a per-service circuit breaker that stops the gateway from
+ * hammering a failing dependency. Breakers are shared per service name so every
+ * ServiceProxy instance (routes, health checks) observes the same state.
+ *
+ * State machine:
+ * - closed: requests flow; consecutive failures are counted
+ * - open: requests fail fast until the open duration has elapsed
+ * - half-open: a limited number of probe requests decide whether to close again
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import config from '../config';
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker tuning options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** Time in milliseconds the circuit stays open before probing */
+  openDuration: number;
+  /** Number of successful probes required to close a half-open circuit */
+  halfOpenMaxProbes: number;
+}
+
+/**
+ * Point-in-time view of a circuit breaker, safe to expose in health payloads
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failures: number;
+  failureThreshold: number;
+  openDuration: number;
+  lastFailure?: string;
+  openedAt?: string;
+  nextAttemptAt?: string;
+}
+
+/**
+ * Circuit breaker guarding calls to a single backend service
+ */
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private readonly now: () => number;
+
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(name: string, options: CircuitBreakerOptions, now: () => number = Date.now) {
+    this.name = name;
+    this.options = options;
+    this.now = now;
+  }
+
+  /**
+   * Ask the breaker whether a request may be attempted.
+   * Moves an expired open circuit to half-open and reserves a probe slot.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.openedAt !== null && this.now() - this.openedAt >= this.options.openDuration) {
+        this.transition('half-open');
+      } else {
+        return false;
+      }
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probesInFlight + this.probeSuccesses >= this.options.halfOpenMaxProbes) {
+        return false;
+      }
+      this.probesInFlight++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.probeSuccesses++;
+
+      if (this.probeSuccesses >= this.options.halfOpenMaxProbes) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.failures = 0;
+  }
+
+  /**
+   * Give back an acquired call without an outcome (the caller gave up before
+   * the service answered), freeing its half-open probe slot
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  /**
+   * Record a failed call (network error, timeout or 5xx)
+   */
+  recordFailure(): void {
+    this.lastFailureAt = this.now();
+    this.failures++;
+
+    if (this.state === 'half-open') {
+      this.transition('open');
+      return;
+    }
+
+    if (this.state === 'closed' && this.failures >= this.options.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Current state, accounting for an open duration that has already elapsed
+   */
+  getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== null &&
+      this.now() - this.openedAt >= this.options.openDuration
+    ) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Serializable snapshot of the breaker
+   */
+  getSnapshot(): CircuitBreakerSnapshot {
+    const snapshot: CircuitBreakerSnapshot = {
+      state: this.getState(),
+      failures: this.failures,
+      failureThreshold: this.options.failureThreshold,
+      openDuration: this.options.openDuration,
+    };
+
+    if (this.lastFailureAt !== null) {
+      snapshot.lastFailure = new Date(this.lastFailureAt).toISOString();
+    }
+    if (this.openedAt !== null) {
+      snapshot.openedAt = new Date(this.openedAt).toISOString();
+      snapshot.nextAttemptAt = new Date(this.openedAt + this.options.openDuration).toISOString();
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Force the breaker back to closed (used by tests and admin tooling)
+   */
+  reset(): void {
+    this.transition('closed');
+    this.lastFailureAt = null;
+  }
+
+  private transition(next: CircuitState): void {
+    if (next !== this.state) {
+      console.warn(`Circuit breaker for ${this.name}: ${this.state} -> ${next}`);
+    }
+
+    this.state = next;
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+
+    if (next === 'open') {
+      this.openedAt = this.now();
+    } else if (next === 'closed') {
+      this.openedAt = null;
+      this.failures = 0;
+    }
+  }
+}
+
+// Breakers are keyed by service name and shared across ServiceProxy instances
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Default breaker options from gateway configuration
+ */
+export function getDefaultCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: config.CIRCUIT_BREAKER.failureThreshold,
+    openDuration: config.CIRCUIT_BREAKER.openDuration,
+    halfOpenMaxProbes: config.CIRCUIT_BREAKER.halfOpenMaxProbes,
+  };
+}
+
+/**
+ * Get (or lazily create) the circuit breaker for a service
+ */
+export function getCircuitBreaker(
+  serviceName: string,
+  options?: Partial<CircuitBreakerOptions>
+): CircuitBreaker {
+  let breaker = breakers.get(serviceName);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(serviceName, {
+      ...getDefaultCircuitBreakerOptions(),
+      ...options,
+    });
+    breakers.set(serviceName, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * Snapshot of every known circuit breaker keyed by service name
+ */
+export function getCircuitBreakerSnapshots(): Record<string, CircuitBreakerSnapshot> {
+  const snapshots: Record<string, CircuitBreakerSnapshot> = {};
+
+  for (const [serviceName, breaker] of breakers) {
+    snapshots[serviceName] = breaker.getSnapshot();
+  }
+
+  return snapshots;
+}
+
+/**
+ * Drop all breakers (primarily for tests)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+export default {
+  CircuitBreaker,
+  getCircuitBreaker,
+  getCircuitBreakerSnapshots,
+  getDefaultCircuitBreakerOptions,
+  resetCircuitBreakers,
+};
@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Declarative multi-service composition
+ *
+ * This module composes one response from several upstream calls. Each step
+ * names its service and path, may template its path and params from the
+ * results of earlier steps (`{{user.profileId}}`) or from the caller's input
+ * (`{{input.id}}`), and is either required or optional. Steps run as a
+ * dependency graph: independent steps in parallel, dependent ones as soon as
+ * what they reference has resolved. Every step is reported as a source with
+ * its status, latency and error code, so clients can tell "no data" from
+ * "service down". Optional steps the client left out with `?fields=` or
+ * `?include=` are not run.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { AppError, GatewayError } from '../errors';
+import { ResponseMeta, ServiceProxyError } from '../types';
+import { getRequestContext } from './requestContext';
+import { isFieldRequested } from './responseShaping';
+import { ServiceProxy } from './serviceProxy';
+
+// `{{step.path.to.value}}` placeholders; `input` refers to the caller's input
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)((?:\.[\w-]+)*)\s*\}\}/g;
+const INPUT = 'input';
+// A parameter that is exactly one `{{input.path}}` placeholder
+const INPUT_PARAM_PATTERN = /^\{\{\s*input((?:\.[\w-]+)+)\s*\}\}$/;
+
+/**
+ * One upstream call of a composition
+ */
+export interface CompositionStep {
+  /** Key of the step's result in the composed data, and its name in templates */
+  name: string;
+  /** Service the call goes to */
+  service: string;
+  /** Upstream path, may contain templates */
+  path: string;
+  /** HTTP method (defaults to GET) */
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /**
+   * Query parameters; string values may contain templates. A parameter that is
+   * only `{{input.name}}` is left out when the input has no such value.
+   */
+  params?: Record<string, unknown>;
+  /** Steps to wait for besides the ones referenced by templates */
+  dependsOn?: string[];
+  /** Timeout per upstream attempt (defaults to the service timeout) */
+  timeout?: number;
+  /** Whether the composition fails when this step fails (defaults to true) */
+  required?: boolean;
+}
+
+/**
+ * Outcome of one step, reported in the response meta
+ */
+export interface CompositionSource {
+  name: string;
+  service: string;
+  required: boolean;
+  /** `skipped` when not requested by the client or a step it depends on did not succeed */
+  status: 'ok' | 'failed' | 'skipped';
+  /** Time spent on the upstream call (milliseconds) */
+  latency: number;
+  /** Upstream status code, when the service answered */
+  statusCode?: number;
+  errorCode?: string;
+}
+
+/**
+ * Composed data, keyed by step name (null for steps that did not succeed),
+ * and the outcome of every step in declaration order
+ */
+export interface CompositionResult {
+  data: Record<string, unknown>;
+  /** Metadata of the services' envelopes (such as pagination), by step name */
+  meta: Record<string, ResponseMeta>;
+  sources: CompositionSource[];
+}
+
+/**
+ * Outcome of one step, with the error to throw if a required step failed
+ */
+interface StepOutcome {
+  source: CompositionSource;
+  meta?: ResponseMeta;
+  error?: Error;
+}
+
+/**
+ * Names of the steps a string's templates reference
+ */
+function referencedSteps(value: string): string[] {
+  return [...value.matchAll(TEMPLATE_PATTERN)]
+    .map(match => match[1] ?? '')
+    .filter(name => name !== INPUT);
+}
+
+/**
+ * Look up a dotted path in a value
+ */
+function lookup(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+/**
+ * Render a template value as text (arrays become comma-separated lists)
+ */
+function stringify(value: unknown): string {
+  return Array.isArray(value) ? value.map(item => String(item)).join(',') : String(value);
+}
+
+/**
+ * Composes responses from several services, as declared by a list of steps
+ *
+ * @example
+ * ```typescript
+ * const userProfile = new Composition([
+ *   { name: 'user', service: 'serviceA', path: '/api/users/{{input.id}}' },
+ *   { name: 'profile', service: 'serviceB', path: '/api/profiles/{{user.profileId}}' },
+ *   { name: 'activity', service: 'serviceC', path: '/api/activity',
+ *     params: { userId: '{{input.id}}' }, required: false, timeout: 2000 },
+ * ], getServiceProxies());
+ *
+ * const { data, sources } = await userProfile.execute({ id: req.params.id });
+ * res.success(data, 'Profile retrieved', { sources });
+ * ```
+ */
+export class Composition {
+  private readonly steps: CompositionStep[];
+  private readonly proxies: Record<string, ServiceProxy>;
+  // Steps each step waits for, from templates and dependsOn
+  private readonly dependencies: Map<string, string[]>;
+
+  /**
+   * @throws {Error} If a step is declared twice, targets an unknown service,
+   * depends on an unknown step or the dependencies form a cycle
+   */
+  constructor(steps: CompositionStep[], proxies: Record<string, ServiceProxy>) {
+    this.steps = steps;
+    this.proxies = proxies;
+    this.dependencies = new Map();
+
+    for (const step of steps) {
+      if (step.name === INPUT || this.dependencies.has(step.name)) {
+        throw new Error(`Composition step name "${step.name}" is reserved or used twice`);
+      }
+      if (!proxies[step.service]) {
+        throw new Error(`Composition step "${step.name}" targets unknown service: ${step.service}`);
+      }
+
+      const templated = [step.path, ...Object.values(step.params ?? {})].filter(
+        (value): value is string => typeof value === 'string'
+      );
+      this.dependencies.set(step.name, [
+        ...new Set([...(step.dependsOn ?? []), ...templated.flatMap(referencedSteps)]),
+      ]);
+    }
+
+    this.validateGraph();
+  }
+
+  /**
+   * Run the steps and compose their results
+   *
+   * Optional steps that fail (and steps depending on them) are reported in
+   * `sources` with a null result. Optional steps that no other step depends on
+   * are skipped, without a result, when the client's `?fields=` / `?include=`
+   * leave them out. A failed required step fails the whole composition with
+   * that step's error, once every started step has settled.
+   *
+   * @param input - Values available to templates as `{{input.name}}`
+   */
+  async execute(input: Record<string, unknown> = {}): Promise<CompositionResult> {
+    const data: Record<string, unknown> = {};
+    const outcomes = new Map<string, Promise<StepOutcome>>();
+    const shape = getRequestContext()?.responseShape;
+    const dependedOn = new Set([...this.dependencies.values()].flat());
+
+    // Dependencies are started before their dependents, since the graph is acyclic
+    for (const step of this.orderSteps()) {
+      const dependencies = this.dependencies.get(step.name) ?? [];
+      outcomes.set(
+        step.name,
+        Promise.all(dependencies.map(name => outcomes.get(name))).then(settled =>
+          this.runStep(
+            step,
+            dependencies.filter((_name, index) => settled[index]?.source.status !== 'ok'),
+            { ...data, [INPUT]: input },
+            data,
+            (step.required ?? true) ||
+              dependedOn.has(step.name) ||
+              isFieldRequested(shape, step.name)
+          )
+        )
+      );
+    }
+
+    const settled = await Promise.all(this.steps.map(step => outcomes.get(step.name)));
+    const sources = settled.map(outcome => (outcome as StepOutcome).source);
+    const meta: Record<string, ResponseMeta> = {};
+    for (const outcome of settled) {
+      if (outcome?.meta) {
+        meta[outcome.source.name] = outcome.meta;
+      }
+    }
+
+    const requiredFailure = settled.find(outcome => outcome?.error && outcome.source.required);
+    if (requiredFailure?.error) {
+      throw requiredFailure.error;
+    }
+
+    return { data, meta, sources };
+  }
+
+  /**
+   * Run one step once its dependencies have settled
+   *
+   * @param failedDependencies - Dependencies that did not succeed
+   * @param scope - Results available to the step's templates
+   * @param requested - Whether the client asked for the step's result
+   */
+  private async runStep(
+    step: CompositionStep,
+    failedDependencies: string[],
+    scope: Record<string, unknown>,
+    data: Record<string, unknown>,
+    requested: boolean
+  ): Promise<StepOutcome> {
+    const required = step.required ?? true;
+    const source: CompositionSource = {
+      name: step.name,
+      service: step.service,
+      required,
+      status: 'ok',
+      latency: 0,
+    };
+
+    if (!requested) {
+      source.status = 'skipped';
+      return { source };
+    }
+    data[step.name] = null;
+
+    if (failedDependencies.length > 0) {
+      source.status = 'skipped';
+      source.errorCode = 'DEPENDENCY_FAILED';
+      return {
+        source,
+        error: new GatewayError(
+          `Composition step "${step.name}" skipped: ${failedDependencies.join(', ')} failed`
+        ),
+      };
+    }
+
+    const startTime = Date.now();
+    try {
+      const path = this.render(step.path, scope, true);
+      const params = Object.fromEntries(
+        Object.entries(step.params ?? {})
+          .filter(([, value]) => !this.isMissingInput(value, scope))
+          .map(([key, value]) => [
+            key,
+            typeof value === 'string' ? this.render(value, scope, false) : value,
+          ])
+      );
+
+      // Services are checked in the constructor
+      const proxy = this.proxies[step.service] as ServiceProxy;
+      const options = step.timeout !== undefined ? { timeout: step.timeout } : {};
+
+      // GETs go through get(), so services with coalescing share identical calls
+      const response =
+        step.method === undefined || step.method === 'GET'
+          ? await proxy.get(path, params, options)
+          : await proxy.request(step.method, path, { params, ...options });
+
+      source.latency = Date.now() - startTime;
+      source.statusCode = response.status;
+      data[step.name] = response.data;
+      return { source, ...(response.meta ? { meta: response.meta } : {}) };
+    } catch (error) {
+      const failure = error as ServiceProxyError;
+      source.status = 'failed';
+      source.latency = Date.now() - startTime;
+      source.errorCode = error instanceof AppError ? error.code : (failure.code ?? 'GATEWAY_ERROR');
+      if (failure.response?.status !== undefined) {
+        source.statusCode = failure.response.status;
+      }
+      return { source, error: failure };
+    }
+  }
+
+  /**
+   * Whether a parameter is a lone `{{input.name}}` placeholder without a value
+   */
+  private isMissingInput(value: unknown, scope: Record<string, unknown>): boolean {
+    const match = typeof value === 'string' ? INPUT_PARAM_PATTERN.exec(value) : null;
+    if (!match) {
+      return false;
+    }
+    const input = lookup(scope[INPUT], match[1] ?? '');
+    return input === undefined || input === null;
+  }
+
+  /**
+   * Substitute the templates of a path or parameter value
+   *
+   * @param encode - URI-encode substituted values (for paths)
+   * @throws {GatewayError} If a template references a missing value
+   */
+  private render(template: string, scope: Record<string, unknown>, encode: boolean): string {
+    return template.replace(TEMPLATE_PATTERN, (placeholder, name: string, path: string) => {
+      const value = lookup(scope[name], path);
+      if (value === undefined || value === null) {
+        throw new GatewayError(`Composition template ${placeholder} has no value`);
+      }
+      return encode ? encodeURIComponent(stringify(value)) : stringify(value);
+    });
+  }
+
+  /**
+   * Steps in an order where every step comes after its dependencies
+   */
+  private orderSteps(): CompositionStep[] {
+    const ordered: CompositionStep[] = [];
+    const visited = new Set<string>();
+    const byName = new Map(this.steps.map(step => [step.name, step]));
+
+    const visit = (step: CompositionStep): void => {
+      if (visited.has(step.name)) {
+        return;
+      }
+      visited.add(step.name);
+      for (const name of this.dependencies.get(step.name) ?? []) {
+        const dependency = byName.get(name);
+        if (dependency) {
+          visit(dependency);
+        }
+      }
+      ordered.push(step);
+    };
+
+    this.steps.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Check that every dependency exists and that there is no cycle
+   *
+   * @throws {Error} On an unknown dependency or a cycle
+   */
+  private validateGraph(): void {
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (name: string, trail: string[]): void => {
+      if (state.get(name) === 'done') {
+        return;
+      }
+      if (state.get(name) === 'visiting') {
+        throw new Error(`Composition steps form a cycle: ${[...trail, name].join(' -> ')}`);
+      }
+
+      state.set(name, 'visiting');
+      for (const dependency of this.dependencies.get(name) ?? []) {
+        if (!this.dependencies.has(dependency)) {
+          throw new Error(`Composition step "${name}" depends on unknown step: ${dependency}`);
+        }
+        visit(dependency, [...trail, name]);
+      }
+      state.set(name, 'done');
+    };
+
+    for (const step of this.steps) {
+      visit(step.name, []);
+    }
+  }
+}
+
+export default {
+  Composition,
+};
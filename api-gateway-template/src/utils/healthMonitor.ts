@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Background health monitoring of service instances
+ *
+ * This module probes every instance of every service on a fixed interval and
+ * keeps a healthy/unhealthy state per instance. An instance turns unhealthy
+ * after `fall` consecutive failed probes and healthy again after `rise`
+ * consecutive successful ones, so a single blip does not flap its state.
+ * `/health` is answered from this cached state, and service proxies skip
+ * instances that are currently unhealthy.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import config from '../config';
+import { InstanceHealthStatus, ServiceHealthStatus } from '../types';
+import type { ServiceProxy } from './serviceProxy';
+
+/**
+ * Health monitor options
+ */
+export interface HealthMonitorOptions {
+  /** Time between probe rounds (milliseconds) */
+  interval?: number;
+  /** Timeout of one probe (milliseconds) */
+  timeout?: number;
+  /** Consecutive successes before an unhealthy instance is healthy again */
+  rise?: number;
+  /** Consecutive failures before a healthy instance is unhealthy */
+  fall?: number;
+}
+
+/**
+ * Probe state of one instance
+ */
+interface InstanceState extends InstanceHealthStatus {
+  successes: number;
+  failures: number;
+}
+
+/**
+ * Periodically probes service instances and caches their health
+ */
+export class HealthMonitor {
+  private readonly interval: number;
+  private readonly timeout: number;
+  private readonly rise: number;
+  private readonly fall: number;
+  private proxies: Record<string, ServiceProxy> = {};
+  // Instance states per service, keyed by instance URL
+  private readonly states = new Map<string, Map<string, InstanceState>>();
+  private timer: NodeJS.Timeout | undefined;
+  private probing: Promise<void> | undefined;
+
+  constructor(options: HealthMonitorOptions = {}) {
+    this.interval = options.interval ?? config.HEALTH_CHECK_INTERVAL;
+    this.timeout = options.timeout ?? config.HEALTH_CHECK_TIMEOUT;
+    this.rise = Math.max(1, options.rise ?? config.HEALTH_CHECK_RISE);
+    this.fall = Math.max(1, options.fall ?? config.HEALTH_CHECK_FALL);
+  }
+
+  /**
+   * Set the services to probe
+   */
+  watch(proxies: Record<string, ServiceProxy>): void {
+    this.proxies = proxies;
+  }
+
+  /**
+   * Whether services to probe have been set
+   */
+  hasTargets(): boolean {
+    return Object.keys(this.proxies).length > 0;
+  }
+
+  /**
+   * Probe now and then on every interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.probe();
+    this.timer = setInterval(() => void this.probe(), this.interval);
+    // Never keep the process alive just for health checks
+    this.timer.unref();
+  }
+
+  /**
+   * Stop probing (cached states are kept)
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Whether background probing is running
+   */
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Probe every instance of every watched service once. Concurrent callers
+   * share the round in progress.
+   */
+  probe(): Promise<void> {
+    if (!this.probing) {
+      this.probing = this.probeAll().finally(() => {
+        this.probing = undefined;
+      });
+    }
+    return this.probing;
+  }
+
+  /**
+   * URLs of a service's unhealthy instances (instances not probed yet count as healthy)
+   */
+  getUnhealthyInstances(service: string): Set<string> {
+    const unhealthy = new Set<string>();
+    for (const [url, state] of this.states.get(service) ?? []) {
+      if (state.status === 'unhealthy') {
+        unhealthy.add(url);
+      }
+    }
+    return unhealthy;
+  }
+
+  /**
+   * Cached health of every watched service. A service is healthy while at least
+   * one of its instances is.
+   */
+  getServiceHealth(): Record<string, ServiceHealthStatus> {
+    const services: Record<string, ServiceHealthStatus> = {};
+
+    for (const [serviceName, proxy] of Object.entries(this.proxies)) {
+      const instances = [...(this.states.get(serviceName)?.values() ?? [])].map(
+        ({ successes: _successes, failures: _failures, ...status }) => status
+      );
+      const healthy = instances.filter(instance => instance.status === 'healthy');
+      const error = instances.find(instance => instance.error)?.error;
+      const responseTimes = healthy.flatMap(instance =>
+        instance.responseTime !== undefined ? [instance.responseTime] : []
+      );
+      const lastChecked = instances
+        .map(instance => instance.lastChecked)
+        .sort()
+        .at(-1);
+
+      services[serviceName] = {
+        status: instances.length === 0 || healthy.length > 0 ? 'healthy' : 'unhealthy',
+        ...(responseTimes.length > 0 ? { responseTime: Math.min(...responseTimes) } : {}),
+        ...(healthy.length === 0 && error ? { error } : {}),
+        lastChecked: lastChecked ?? new Date().toISOString(),
+        circuit: proxy.getCircuitState(),
+        requests: proxy.getStats(),
+        instances,
+      };
+    }
+
+    return services;
+  }
+
+  /**
+   * Probe all instances in parallel
+   */
+  private async probeAll(): Promise<void> {
+    const probes = Object.entries(this.proxies).flatMap(([serviceName, proxy]) => {
+      const urls = proxy.getInstances().map(instance => instance.url);
+      this.forgetRemovedInstances(serviceName, urls);
+      return urls.map(url => this.probeInstance(serviceName, proxy, url));
+    });
+
+    await Promise.allSettled(probes);
+  }
+
+  /**
+   * Probe one instance and apply the rise/fall thresholds (the first probe of
+   * an instance sets its state directly)
+   */
+  private async probeInstance(
+    serviceName: string,
+    proxy: ServiceProxy,
+    url: string
+  ): Promise<void> {
+    const result = await proxy.healthCheck(url, this.timeout);
+    const state = this.getState(serviceName, url, result.status);
+
+    state.lastChecked = new Date().toISOString();
+    if (result.responseTime !== undefined) {
+      state.responseTime = result.responseTime;
+    }
+
+    if (result.status === 'healthy') {
+      state.successes++;
+      state.failures = 0;
+      delete state.error;
+      if (state.status === 'unhealthy' && state.successes >= this.rise) {
+        this.transition(serviceName, state, 'healthy');
+      }
+    } else {
+      state.failures++;
+      state.successes = 0;
+      state.error = result.error ?? 'Health check failed';
+      if (state.status === 'healthy' && state.failures >= this.fall) {
+        this.transition(serviceName, state, 'unhealthy');
+      }
+    }
+  }
+
+  /**
+   * State of an instance, created with the status of its first probe
+   */
+  private getState(
+    serviceName: string,
+    url: string,
+    initialStatus: InstanceHealthStatus['status']
+  ): InstanceState {
+    let states = this.states.get(serviceName);
+    if (!states) {
+      states = new Map();
+      this.states.set(serviceName, states);
+    }
+
+    let state = states.get(url);
+    if (!state) {
+      state = {
+        url,
+        status: initialStatus,
+        lastChecked: new Date().toISOString(),
+        successes: 0,
+        failures: 0,
+      };
+      states.set(url, state);
+    }
+    return state;
+  }
+
+  /**
+   * Drop states of instances that left the service
+   */
+  private forgetRemovedInstances(serviceName: string, urls: string[]): void {
+    const states = this.states.get(serviceName);
+    for (const url of states?.keys() ?? []) {
+      if (!urls.includes(url)) {
+        states?.delete(url);
+      }
+    }
+  }
+
+  private transition(
+    serviceName: string,
+    state: InstanceState,
+    status: InstanceHealthStatus['status']
+  ): void {
+    console.warn(`Instance ${state.url} of ${serviceName}: ${state.status} -> ${status}`);
+    state.status = status;
+  }
+}
+
+/**
+ * Monitor shared by /health and the service proxies
+ */
+export const healthMonitor = new HealthMonitor();
+
+export default {
+  HealthMonitor,
+  healthMonitor,
+};
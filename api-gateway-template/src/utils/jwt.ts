@@ -0,0 +1,243 @@
+/**
+ * @fileoverview JWT verification for the API Gateway
+ *
+ * This module verifies HS256 tokens against a shared secret and RS256 tokens
+ * against a static PEM public key or a JWKS document (loaded from a URL or a
+ * file and cached). Issuer, audience, expiry and not-before claims are checked
+ * against the JWT configuration.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto, { KeyObject, JsonWebKey } from 'crypto';
+import fs from 'fs';
+import axios from 'axios';
+import jwt, { JwtPayload, VerifyOptions } from 'jsonwebtoken';
+import config, { JwtConfig } from '../config';
+import { InvalidTokenError, ServiceUnavailableError } from '../errors';
+
+// ===========================
+// JWKS KEY STORE
+// ===========================
+
+/**
+ * JWKS key store options
+ */
+export interface JwksKeyStoreOptions {
+  /** http(s) URL or file path of the JWKS document */
+  uri: string;
+  /** How long a loaded document is reused (milliseconds) */
+  cacheTtl?: number;
+  /** Minimum time between reloads triggered by an unknown `kid` (milliseconds) */
+  minRefreshInterval?: number;
+  /** Clock used for cache expiry (overridable for tests) */
+  now?: () => number;
+}
+
+/**
+ * RS256 public keys from a JWKS document, indexed by `kid`
+ *
+ * The document is reloaded when the cache expires, or earlier when a token
+ * references an unknown `kid` (signing key rotation). When a reload fails the
+ * previously loaded keys stay in use.
+ */
+export class JwksKeyStore {
+  private readonly uri: string;
+  private readonly cacheTtl: number;
+  private readonly minRefreshInterval: number;
+  private readonly now: () => number;
+  private keys = new Map<string, KeyObject>();
+  private loadedAt = -Infinity;
+  private loading: Promise<void> | undefined;
+
+  constructor(options: JwksKeyStoreOptions) {
+    this.uri = options.uri;
+    this.cacheTtl = options.cacheTtl ?? 600000;
+    this.minRefreshInterval = options.minRefreshInterval ?? 30000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Find the verification key for a token
+   *
+   * @param kid - Key ID from the token header; may be omitted when the document has one key
+   */
+  async getKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    const age = this.now() - this.loadedAt;
+
+    if (age >= this.cacheTtl || (!this.findKey(kid) && age >= this.minRefreshInterval)) {
+      await this.refresh();
+    }
+
+    return this.findKey(kid);
+  }
+
+  /**
+   * Look up a loaded key
+   */
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid !== undefined) {
+      return this.keys.get(kid);
+    }
+    return this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+  }
+
+  /**
+   * Reload the document, sharing one load between concurrent callers
+   */
+  private refresh(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Load the document and convert its RSA signing keys
+   */
+  private async load(): Promise<void> {
+    let document: { keys?: JsonWebKey[] };
+
+    try {
+      document = await this.fetchDocument();
+    } catch (error) {
+      if (this.keys.size === 0) {
+        throw new ServiceUnavailableError('Token signing keys are unavailable');
+      }
+      console.warn(`Failed to reload JWKS from ${this.uri}:`, (error as Error).message);
+      // Keep the stale keys and retry after the minimum refresh interval
+      this.loadedAt = this.now() - this.cacheTtl + this.minRefreshInterval;
+      return;
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of document.keys ?? []) {
+      if (jwk.kty !== 'RSA' || (jwk.use !== undefined && jwk.use !== 'sig')) {
+        continue;
+      }
+      keys.set(String(jwk.kid ?? ''), crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    this.keys = keys;
+    this.loadedAt = this.now();
+  }
+
+  /**
+   * Read the raw JWKS document from its URL or file
+   */
+  private async fetchDocument(): Promise<{ keys?: JsonWebKey[] }> {
+    if (/^https?:\/\//i.test(this.uri)) {
+      const response = await axios.get<{ keys?: JsonWebKey[] }>(this.uri, { timeout: 5000 });
+      return response.data;
+    }
+    return JSON.parse(await fs.promises.readFile(this.uri, 'utf8')) as { keys?: JsonWebKey[] };
+  }
+}
+
+// ===========================
+// JWT VERIFIER
+// ===========================
+
+/**
+ * Verifies bearer tokens against the configured keys and claims
+ */
+export class JwtVerifier {
+  private readonly options: JwtConfig;
+  private readonly jwks: JwksKeyStore | undefined;
+
+  constructor(options: JwtConfig, jwks?: JwksKeyStore) {
+    this.options = options;
+    this.jwks =
+      jwks ??
+      (options.jwksUri
+        ? new JwksKeyStore({ uri: options.jwksUri, cacheTtl: options.jwksCacheTtl })
+        : undefined);
+  }
+
+  /**
+   * Whether any verification key is configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.options.secret || this.options.publicKey || this.jwks);
+  }
+
+  /**
+   * Verify a token and return its claims
+   *
+   * @throws InvalidTokenError for malformed, unsigned, expired or mis-addressed tokens
+   */
+  async verify(token: string): Promise<JwtPayload> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new InvalidTokenError('Malformed token');
+    }
+
+    const { alg, kid } = decoded.header;
+    const key = await this.resolveKey(alg, kid);
+
+    const verifyOptions: VerifyOptions = {
+      algorithms: [alg as 'HS256' | 'RS256'],
+      clockTolerance: this.options.clockTolerance,
+    };
+    if (this.options.issuer) {
+      verifyOptions.issuer = this.options.issuer;
+    }
+    if (this.options.audience.length > 0) {
+      verifyOptions.audience = this.options.audience as [string, ...string[]];
+    }
+
+    try {
+      return jwt.verify(token, key, verifyOptions) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new InvalidTokenError('Token expired');
+      }
+      if (error instanceof jwt.NotBeforeError) {
+        throw new InvalidTokenError('Token not yet valid');
+      }
+      throw new InvalidTokenError(`Invalid token: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Select the verification key for the token's algorithm
+   */
+  private async resolveKey(alg: string, kid: string | undefined): Promise<string | KeyObject> {
+    if (!(this.options.algorithms as string[]).includes(alg)) {
+      throw new InvalidTokenError(`Unsupported token algorithm: ${alg}`);
+    }
+
+    if (alg === 'HS256' && this.options.secret) {
+      return this.options.secret;
+    }
+
+    if (alg === 'RS256') {
+      const key = this.jwks ? await this.jwks.getKey(kid) : undefined;
+      if (key) {
+        return key;
+      }
+      if (this.options.publicKey) {
+        return this.options.publicKey;
+      }
+      if (this.jwks) {
+        throw new InvalidTokenError(`Unknown signing key: ${kid ?? '(none)'}`);
+      }
+    }
+
+    throw new InvalidTokenError(`No key configured for ${alg} tokens`);
+  }
+}
+
+/**
+ * Verifier using the gateway JWT configuration
+ */
+export const jwtVerifier = new JwtVerifier(config.JWT);
+
+export default {
+  JwksKeyStore,
+  JwtVerifier,
+  jwtVerifier,
+};
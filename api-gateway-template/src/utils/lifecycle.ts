@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Process lifecycle state for the API Gateway
+ *
+ * This module records whether the gateway has finished starting up and whether
+ * it is draining for shutdown. The startup and readiness probes report from
+ * this state.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+let started = false;
+let draining = false;
+
+/**
+ * Record that startup has completed (the server is listening)
+ */
+export function markStarted(): void {
+  started = true;
+}
+
+/**
+ * Whether startup has completed
+ */
+export function isStarted(): boolean {
+  return started;
+}
+
+/**
+ * Enter or leave draining mode. A draining gateway fails its readiness probe
+ * so the orchestrator stops routing new traffic to it.
+ */
+export function setDraining(value: boolean): void {
+  draining = value;
+}
+
+/**
+ * Whether the gateway is draining for shutdown
+ */
+export function isDraining(): boolean {
+  return draining;
+}
+
+/**
+ * Reset the lifecycle state (used by tests)
+ */
+export function resetLifecycle(): void {
+  started = false;
+  draining = false;
+}
+
+export default {
+  markStarted,
+  isStarted,
+  setDraining,
+  isDraining,
+  resetLifecycle,
+};
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Client-side load balancing across service instances
+ *
+ * This module picks one of a service's instance URLs for each upstream attempt
+ * using round-robin, smooth weighted round-robin, least outstanding requests or
+ * consistent hashing on a request key. Instances that already failed for a
+ * request can be excluded so retries move to a different instance.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { LoadBalancingStrategy, ServiceInstanceConfig } from '../types';
+
+// Points per unit of weight on the consistent hash ring
+const VIRTUAL_NODES_PER_WEIGHT = 100;
+
+/**
+ * One upstream instance and its balancing state
+ */
+export interface ServiceInstance {
+  url: string;
+  weight: number;
+  /** Requests currently in flight to this instance */
+  outstanding: number;
+}
+
+/**
+ * Instance selection options
+ */
+export interface PickOptions {
+  /** Request key for consistent hashing (e.g. a user or resource ID) */
+  key?: string;
+  /** Instance URLs to avoid (e.g. ones that already failed for this request) */
+  exclude?: ReadonlySet<string>;
+}
+
+/**
+ * Hash a string onto the 32-bit ring
+ */
+function hashToRing(value: string): number {
+  return createHash('md5').update(value).digest().readUInt32BE(0);
+}
+
+/**
+ * Picks instances of one service
+ */
+export class LoadBalancer {
+  private instances: ServiceInstance[] = [];
+  private readonly strategy: LoadBalancingStrategy;
+  private nextIndex = 0;
+  // Smooth weighted round-robin state, per instance
+  private currentWeights: number[] = [];
+  // Consistent hash ring points sorted by hash
+  private ring: Array<{ hash: number; instance: ServiceInstance }> = [];
+
+  constructor(instances: ServiceInstanceConfig[], strategy: LoadBalancingStrategy = 'round-robin') {
+    this.strategy = strategy;
+    this.setInstances(instances);
+  }
+
+  /**
+   * Replace the instance set. Instances whose URL is unchanged keep their
+   * requests-in-flight count.
+   */
+  setInstances(instances: ServiceInstanceConfig[]): void {
+    if (instances.length === 0) {
+      throw new Error('A load balancer needs at least one instance');
+    }
+
+    const previous = new Map(this.instances.map(instance => [instance.url, instance]));
+    this.instances = instances.map(config => {
+      const instance = previous.get(config.url) ?? { url: config.url, weight: 1, outstanding: 0 };
+      instance.weight = Math.max(1, config.weight ?? 1);
+      return instance;
+    });
+    this.currentWeights = this.instances.map(() => 0);
+    this.ring =
+      this.strategy === 'consistent-hash'
+        ? this.instances
+            .flatMap(instance =>
+              Array.from({ length: instance.weight * VIRTUAL_NODES_PER_WEIGHT }, (_, point) => ({
+                hash: hashToRing(`${instance.url}#${point}`),
+                instance,
+              }))
+            )
+            .sort((a, b) => a.hash - b.hash)
+        : [];
+  }
+
+  /**
+   * Number of instances
+   */
+  get size(): number {
+    return this.instances.length;
+  }
+
+  /**
+   * Pick an instance for an attempt
+   *
+   * Excluded instances are skipped unless every instance is excluded.
+   */
+  pick(options: PickOptions = {}): ServiceInstance {
+    const exclude = options.exclude ?? new Set<string>();
+    let candidates = this.instances.filter(instance => !exclude.has(instance.url));
+    if (candidates.length === 0) {
+      candidates = this.instances;
+    }
+
+    switch (this.strategy) {
+      case 'weighted':
+        return this.pickWeighted(candidates);
+      case 'least-outstanding':
+        return this.pickLeastOutstanding(candidates);
+      case 'consistent-hash':
+        return this.pickByHash(candidates, options.key ?? '');
+      default:
+        return this.pickRoundRobin(candidates);
+    }
+  }
+
+  /**
+   * Count a request as in flight to an instance until the returned release
+   * function is called
+   */
+  acquire(instance: ServiceInstance): () => void {
+    instance.outstanding++;
+    let released = false;
+
+    return () => {
+      if (!released) {
+        released = true;
+        instance.outstanding--;
+      }
+    };
+  }
+
+  /**
+   * Snapshot of every instance
+   */
+  getInstances(): ServiceInstance[] {
+    return this.instances.map(instance => ({ ...instance }));
+  }
+
+  /**
+   * Cycle through the candidates
+   */
+  private pickRoundRobin(candidates: ServiceInstance[]): ServiceInstance {
+    const instance = candidates[this.nextIndex % candidates.length] as ServiceInstance;
+    this.nextIndex = (this.nextIndex + 1) % Number.MAX_SAFE_INTEGER;
+    return instance;
+  }
+
+  /**
+   * Smooth weighted round-robin: spreads picks in proportion to weight without
+   * sending bursts to the heaviest instance
+   */
+  private pickWeighted(candidates: ServiceInstance[]): ServiceInstance {
+    let total = 0;
+    let bestIndex = -1;
+
+    for (const candidate of candidates) {
+      const index = this.instances.indexOf(candidate);
+      this.currentWeights[index] = (this.currentWeights[index] ?? 0) + candidate.weight;
+      total += candidate.weight;
+
+      if (
+        bestIndex === -1 ||
+        (this.currentWeights[index] ?? 0) > (this.currentWeights[bestIndex] ?? 0)
+      ) {
+        bestIndex = index;
+      }
+    }
+
+    this.currentWeights[bestIndex] = (this.currentWeights[bestIndex] ?? 0) - total;
+    return this.instances[bestIndex] as ServiceInstance;
+  }
+
+  /**
+   * Fewest requests in flight, ties broken round-robin
+   */
+  private pickLeastOutstanding(candidates: ServiceInstance[]): ServiceInstance {
+    const fewest = Math.min(...candidates.map(candidate => candidate.outstanding));
+    return this.pickRoundRobin(candidates.filter(candidate => candidate.outstanding === fewest));
+  }
+
+  /**
+   * First candidate clockwise from the key's position on the ring, so a key keeps
+   * hitting the same instance while the instance set is unchanged
+   */
+  private pickByHash(candidates: ServiceInstance[], key: string): ServiceInstance {
+    const hash = hashToRing(key);
+    let low = 0;
+    let high = this.ring.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if ((this.ring[middle]?.hash ?? 0) < hash) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    for (let offset = 0; offset < this.ring.length; offset++) {
+      const point = this.ring[(low + offset) % this.ring.length];
+      if (point && candidates.includes(point.instance)) {
+        return point.instance;
+      }
+    }
+
+    return this.pickRoundRobin(candidates);
+  }
+}
+
+export default {
+  LoadBalancer,
+};
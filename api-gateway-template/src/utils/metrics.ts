@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Gateway metrics collector
+ *
+ * This module gathers request counts, success/error counts, latency percentiles,
+ * availability and the last error for every inbound route and every upstream
+ * service called through `ServiceProxy`, and exposes them in the `GatewayMetrics`
+ * shape used by the /api/metrics endpoint.
+ *
+ * Requests answered with a 5xx status (and upstream calls failing with a network
+ * error, timeout, open circuit or 5xx) count as errors; 4xx responses are the
+ * client's fault and count as successes.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import {
+  GatewayMetrics,
+  LatencyPercentiles,
+  RequestMetrics,
+  ServiceMetrics,
+  SystemHealth,
+} from '../types';
+
+// Number of most recent latency samples kept per route/service
+const LATENCY_SAMPLE_SIZE = 1024;
+
+/**
+ * Round to two decimal places
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ===========================
+// LATENCY SAMPLES
+// ===========================
+
+/**
+ * Fixed-size ring buffer of recent latencies used to compute percentiles
+ */
+export class LatencyHistogram {
+  private readonly samples: number[] = [];
+  private readonly capacity: number;
+  private next = 0;
+
+  constructor(capacity: number = LATENCY_SAMPLE_SIZE) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Record a latency in milliseconds, overwriting the oldest sample when full
+   */
+  record(durationMs: number): void {
+    if (this.samples.length < this.capacity) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Nearest-rank percentile of the recorded samples (0 when empty)
+   */
+  percentile(p: number): number {
+    if (this.samples.length === 0) {
+      return 0;
+    }
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1] ?? 0;
+  }
+
+  /**
+   * p50/p95/p99 latencies
+   */
+  getPercentiles(): LatencyPercentiles {
+    return {
+      p50: round(this.percentile(50)),
+      p95: round(this.percentile(95)),
+      p99: round(this.percentile(99)),
+    };
+  }
+}
+
+// ===========================
+// REQUEST SERIES
+// ===========================
+
+/**
+ * Counters for one route or service
+ */
+class RequestSeries {
+  total = 0;
+  success = 0;
+  errors = 0;
+  coalesced = 0;
+  lastError?: string;
+  lastErrorTime?: string;
+  private totalDuration = 0;
+  private readonly latency = new LatencyHistogram();
+
+  /**
+   * Record one completed request
+   */
+  record(durationMs: number, error?: string): void {
+    this.total++;
+    this.totalDuration += durationMs;
+    this.latency.record(durationMs);
+
+    if (error === undefined) {
+      this.success++;
+    } else {
+      this.errors++;
+      this.lastError = error;
+      this.lastErrorTime = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Counters in the RequestMetrics shape
+   */
+  toRequestMetrics(): RequestMetrics {
+    return {
+      total: this.total,
+      success: this.success,
+      errors: this.errors,
+      averageResponseTime: this.total > 0 ? round(this.totalDuration / this.total) : 0,
+      successRate: this.total > 0 ? round((this.success / this.total) * 100) : 100,
+      latency: this.latency.getPercentiles(),
+    };
+  }
+}
+
+// ===========================
+// METRICS COLLECTOR
+// ===========================
+
+/**
+ * Collects inbound route and upstream service metrics
+ */
+export class MetricsCollector {
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private overall = new RequestSeries();
+  private routes = new Map<string, RequestSeries>();
+  private services = new Map<string, RequestSeries>();
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+    this.startedAt = now();
+  }
+
+  /**
+   * Get (or create) the series for a key
+   */
+  private series(map: Map<string, RequestSeries>, key: string): RequestSeries {
+    let series = map.get(key);
+    if (!series) {
+      series = new RequestSeries();
+      map.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Record a completed inbound request
+   *
+   * @param route - Route template label, e.g. `GET /api/example/:id`
+   * @param status - Response status code
+   * @param durationMs - Time from request start to response finish
+   */
+  recordRequest(route: string, status: number, durationMs: number): void {
+    const error = status >= 500 ? `HTTP ${status}` : undefined;
+    this.overall.record(durationMs, error);
+    this.series(this.routes, route).record(durationMs, error);
+  }
+
+  /**
+   * Record a completed upstream call (including its retries)
+   *
+   * @param service - Service name
+   * @param durationMs - Total call duration
+   * @param error - Error message when the call failed
+   */
+  recordServiceCall(service: string, durationMs: number, error?: string): void {
+    this.series(this.services, service).record(durationMs, error);
+  }
+
+  /**
+   * Record a GET answered by joining an identical in-flight upstream call
+   */
+  recordCoalescedCall(service: string): void {
+    this.series(this.services, service).coalesced++;
+  }
+
+  /**
+   * Current metrics in the GatewayMetrics shape
+   *
+   * @param system - System health snapshot to include
+   */
+  getMetrics(system: SystemHealth): GatewayMetrics {
+    const routes: Record<string, RequestMetrics> = {};
+    for (const [route, series] of this.routes) {
+      routes[route] = series.toRequestMetrics();
+    }
+
+    const services: ServiceMetrics = {};
+    for (const [service, series] of this.services) {
+      const requests = series.toRequestMetrics();
+      services[service] = {
+        requests,
+        availability: requests.successRate,
+        coalesced: series.coalesced,
+        ...(series.lastError !== undefined && { lastError: series.lastError }),
+        ...(series.lastErrorTime !== undefined && { lastErrorTime: series.lastErrorTime }),
+      };
+    }
+
+    return {
+      uptime: Math.floor((this.now() - this.startedAt) / 1000),
+      requests: this.overall.toRequestMetrics(),
+      routes,
+      services,
+      system,
+      timestamp: new Date(this.now()).toISOString(),
+    };
+  }
+
+  /**
+   * Clear all counters
+   */
+  reset(): void {
+    this.overall = new RequestSeries();
+    this.routes = new Map();
+    this.services = new Map();
+  }
+}
+
+/**
+ * Shared gateway metrics collector
+ */
+export const metricsCollector = new MetricsCollector();
+
+export default metricsCollector;
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Redis-protocol implementation of the gateway key/value store
+ *
+ * This module backs `KeyValueStore` with any server speaking the Redis protocol
+ * so that rate limit counters and cached responses are shared between gateway
+ * replicas. All stores created by the gateway share one lazily opened connection.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis';
+import config from '../config';
+import { KeyValueStore } from './store';
+
+/**
+ * Redis store options
+ */
+export interface RedisStoreOptions {
+  /** Connected (or lazily connecting) ioredis client */
+  client: Redis;
+  /** Prefix prepended to every key, e.g. `gateway:cache:` */
+  prefix?: string;
+}
+
+// Number of keys requested per SCAN iteration during prefix deletion
+const SCAN_BATCH_SIZE = 200;
+
+// Increment a counter and give it a TTL if it has none, in one atomic step, so a
+// counter can never be left without a TTL (KEYS[1]: key, ARGV: amount, TTL or '')
+const INCR_SCRIPT = `
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+if ARGV[2] ~= '' and redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return value
+`;
+
+/**
+ * Escape glob metacharacters so a key prefix can be used in a SCAN MATCH pattern
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+// ===========================
+// REDIS STORE
+// ===========================
+
+/**
+ * Key/value store on a Redis-protocol server (values are stored as JSON)
+ */
+export class RedisStore implements KeyValueStore {
+  readonly backend = 'redis';
+  private readonly client: Redis;
+  private readonly prefix: string;
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? '';
+  }
+
+  /**
+   * Read a value
+   */
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  /**
+   * Write a value
+   */
+  async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const raw = JSON.stringify(value);
+
+    if (ttlMs !== undefined) {
+      await this.client.set(this.prefix + key, raw, 'PX', Math.max(1, Math.ceil(ttlMs)));
+    } else {
+      await this.client.set(this.prefix + key, raw);
+    }
+  }
+
+  /**
+   * Add to a counter, setting the TTL atomically when the counter has none
+   */
+  async incr(key: string, amount = 1, ttlMs?: number): Promise<number> {
+    const value = await this.client.eval(
+      INCR_SCRIPT,
+      1,
+      this.prefix + key,
+      amount,
+      ttlMs !== undefined ? Math.max(1, Math.ceil(ttlMs)) : ''
+    );
+    return Number(value);
+  }
+
+  /**
+   * Set the TTL of an existing key
+   */
+  async expire(key: string, ttlMs: number): Promise<void> {
+    await this.client.pexpire(this.prefix + key, Math.max(1, Math.ceil(ttlMs)));
+  }
+
+  /**
+   * Remaining TTL in milliseconds
+   */
+  async ttl(key: string): Promise<number | undefined> {
+    const remaining = await this.client.pttl(this.prefix + key);
+    return remaining < 0 ? undefined : remaining;
+  }
+
+  /**
+   * Delete a key
+   */
+  async del(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  /**
+   * Delete every key starting with the prefix (uses SCAN, never KEYS)
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${escapeGlob(this.prefix + prefix)}*`;
+    let cursor = '0';
+    let removed = 0;
+
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        SCAN_BATCH_SIZE
+      );
+      cursor = next;
+      if (keys.length > 0) {
+        removed += await this.client.del(...keys);
+      }
+    } while (cursor !== '0');
+
+    return removed;
+  }
+
+  /**
+   * Number of keys under this store's prefix
+   */
+  async size(): Promise<number> {
+    let cursor = '0';
+    let count = 0;
+
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${escapeGlob(this.prefix)}*`,
+        'COUNT',
+        SCAN_BATCH_SIZE
+      );
+      cursor = next;
+      count += keys.length;
+    } while (cursor !== '0');
+
+    return count;
+  }
+}
+
+// ===========================
+// SHARED CONNECTION
+// ===========================
+
+let sharedClient: Redis | undefined;
+
+/**
+ * Get the connection shared by every gateway store (opened on first command)
+ */
+export function getSharedRedisClient(): Redis {
+  if (!sharedClient) {
+    sharedClient = new Redis(config.REDIS_URL, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+    });
+    sharedClient.on('error', (error: Error) => {
+      console.error('Redis store error:', error.message);
+    });
+  }
+
+  return sharedClient;
+}
+
+/**
+ * Close the shared connection (no-op when it was never opened)
+ */
+export async function closeSharedRedisClient(): Promise<void> {
+  if (sharedClient) {
+    const client = sharedClient;
+    sharedClient = undefined;
+    await client.quit();
+  }
+}
+
+export default {
+  RedisStore,
+  getSharedRedisClient,
+  closeSharedRedisClient,
+};
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Request-scoped context for the API Gateway
+ *
+ * This module keeps per-request information (correlation ID, client address and
+ * allowlisted inbound headers) in AsyncLocalStorage so that code deep inside a
+ * route, such as ServiceProxy, can read it without threading `req` through
+ * every call.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+import config from '../config';
+import { ResponseShape } from './responseShaping';
+import { SpanContext } from './tracing';
+
+/**
+ * Information about the inbound request that is propagated to upstream calls
+ */
+export interface RequestContext {
+  /** Correlation ID assigned by (or forwarded to) the gateway */
+  correlationId: string;
+  /** Original client IP address */
+  clientIp?: string;
+  /** Inbound X-Forwarded-For chain including the direct peer */
+  forwardedFor?: string;
+  /** Allowlisted inbound headers to forward upstream (lower-cased names) */
+  forwardedHeaders: Record<string, string>;
+  /** Server span of the request, parent of upstream call spans (when tracing is enabled) */
+  traceContext?: SpanContext;
+  /** Fields and enrichments requested with ?fields= and ?include= */
+  responseShape?: ResponseShape;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Build a request context from an inbound Express request
+ */
+export function createRequestContext(req: Request, correlationId: string): RequestContext {
+  const forwardedHeaders: Record<string, string> = {};
+
+  for (const name of config.FORWARDED_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') {
+      forwardedHeaders[name] = value;
+    } else if (Array.isArray(value)) {
+      forwardedHeaders[name] = value.join(', ');
+    }
+  }
+
+  const context: RequestContext = { correlationId, forwardedHeaders };
+
+  const remoteAddress = req.socket?.remoteAddress;
+  const inboundChain = req.headers['x-forwarded-for'];
+  const chain = [typeof inboundChain === 'string' ? inboundChain : undefined, remoteAddress]
+    .filter(Boolean)
+    .join(', ');
+
+  if (req.ip) {
+    context.clientIp = req.ip;
+  }
+  if (chain) {
+    context.forwardedFor = chain;
+  }
+
+  return context;
+}
+
+/**
+ * Run a function with the given request context active
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the request currently being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Headers to attach to an upstream call for the current request context
+ */
+export function getUpstreamContextHeaders(): Record<string, string> {
+  const context = getRequestContext();
+  if (!context) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {
+    ...context.forwardedHeaders,
+    'X-Correlation-ID': context.correlationId,
+  };
+
+  if (context.forwardedFor) {
+    headers['X-Forwarded-For'] = context.forwardedFor;
+  }
+  if (context.clientIp) {
+    headers['X-Real-IP'] = context.clientIp;
+  }
+
+  return headers;
+}
+
+export default {
+  createRequestContext,
+  runWithRequestContext,
+  getRequestContext,
+  getUpstreamContextHeaders,
+};
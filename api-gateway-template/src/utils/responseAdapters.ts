@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Upstream response adapters
+ *
+ * Upstream services answer in different envelopes. This module maps each
+ * known shape onto the gateway's `ApiResponse` contract, so clients see one
+ * format whichever service answered:
+ *
+ * - `gateway`: services already using `ApiResponse`
+ * - `mongodb`: the MongoDB service template, `{ success, message, data,
+ *   timestamp, ...extra }` with top-level `details` on errors
+ * - `legacy`: `{ success, data | result, error: 'message' }` envelopes
+ * - `raw`: plain JSON without an envelope
+ * - `auto` (the default): detects which of the above a body is
+ *
+ * Pagination fields found in envelopes are lifted into `meta`, with
+ * `totalPages`, `hasNext` and `hasPrevious` computed. Services pick an adapter
+ * with SERVICE_X_RESPONSE_FORMAT; further adapters can be registered by name.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { DEFAULT_MESSAGE_BY_CODE, deriveCodeFromMessage, mapStatusToDefaultCode } from '../errors';
+import { ApiResponse, ErrorEnvelope, ResponseMeta } from '../types';
+
+/**
+ * Maps an upstream response body (and its HTTP status) onto ApiResponse
+ */
+export type ResponseAdapter = (body: unknown, status: number) => ApiResponse;
+
+// ApiResponse fields; an envelope with only these is already in gateway format
+const GATEWAY_KEYS = new Set(['success', 'data', 'error', 'meta', 'timestamp']);
+
+// Envelope fields that are not metadata
+const ENVELOPE_KEYS = new Set([
+  'success',
+  'message',
+  'data',
+  'result',
+  'error',
+  'details',
+  'timestamp',
+]);
+
+// Alternative names of pagination fields, by canonical ResponseMeta field
+const PAGINATION_ALIASES: Record<'page' | 'limit' | 'total' | 'totalPages', string[]> = {
+  page: ['page', 'currentPage'],
+  limit: ['limit', 'pageSize', 'perPage'],
+  total: ['total', 'totalCount', 'totalItems'],
+  totalPages: ['totalPages', 'pages'],
+};
+
+/**
+ * Whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Build response metadata from upstream metadata, lifting pagination fields
+ * (also from a nested `pagination` or `meta` object) and computing
+ * `totalPages`, `hasNext` and `hasPrevious`
+ *
+ * @example
+ * buildResponseMeta({ pagination: { page: 2, limit: 10, total: 45 } })
+ * // => { page: 2, limit: 10, total: 45, totalPages: 5, hasNext: true, hasPrevious: true }
+ */
+export function buildResponseMeta(source: Record<string, unknown>): ResponseMeta {
+  const { pagination, meta: nested, ...rest } = source;
+  const fields: Record<string, unknown> = {
+    ...rest,
+    ...(isObject(nested) ? nested : {}),
+    ...(isObject(pagination) ? pagination : {}),
+  };
+
+  const meta: ResponseMeta = {};
+  const paginationValues: Partial<Record<keyof typeof PAGINATION_ALIASES, number>> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    const canonical = (
+      Object.keys(PAGINATION_ALIASES) as Array<keyof typeof PAGINATION_ALIASES>
+    ).find(name => PAGINATION_ALIASES[name].includes(key));
+
+    if (!canonical) {
+      meta[key] = value;
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+      paginationValues[canonical] ??= value;
+    }
+  }
+
+  const { page, limit, total } = paginationValues;
+  let { totalPages } = paginationValues;
+  if (totalPages === undefined && total !== undefined && limit) {
+    totalPages = Math.ceil(total / limit);
+  }
+
+  Object.assign(meta, paginationValues, totalPages !== undefined ? { totalPages } : {});
+  if (page !== undefined) {
+    meta.hasPrevious = page > 1;
+    if (totalPages !== undefined) {
+      meta.hasNext = page < totalPages;
+    }
+  }
+
+  return meta;
+}
+
+/**
+ * Build an error envelope from an upstream error message, code and details
+ */
+function buildError(
+  status: number,
+  message: unknown,
+  code: unknown,
+  details: unknown
+): ErrorEnvelope {
+  const text = typeof message === 'string' && message ? message : undefined;
+  const errorCode =
+    typeof code === 'string' && code
+      ? code
+      : text
+        ? deriveCodeFromMessage(text, status)
+        : mapStatusToDefaultCode(status);
+
+  return {
+    code: errorCode,
+    message: text ?? DEFAULT_MESSAGE_BY_CODE[errorCode] ?? 'Upstream request failed',
+    ...(details !== undefined && details !== null ? { details } : {}),
+  };
+}
+
+/**
+ * Assemble an ApiResponse, omitting empty metadata
+ */
+function buildResponse(
+  success: boolean,
+  timestamp: unknown,
+  parts: { data?: unknown; error?: ErrorEnvelope; meta?: ResponseMeta }
+): ApiResponse {
+  return {
+    success,
+    ...(parts.data !== undefined ? { data: parts.data } : {}),
+    ...(parts.error ? { error: parts.error } : {}),
+    ...(parts.meta && Object.keys(parts.meta).length > 0 ? { meta: parts.meta } : {}),
+    timestamp: typeof timestamp === 'string' ? timestamp : new Date().toISOString(),
+  };
+}
+
+/**
+ * Plain JSON bodies: the body is the data (or, on errors, the error details)
+ */
+const rawAdapter: ResponseAdapter = (body, status) => {
+  if (status < 400) {
+    return buildResponse(true, undefined, { data: body });
+  }
+
+  const fields = isObject(body) ? body : {};
+  return buildResponse(false, undefined, {
+    error: buildError(status, fields.message ?? fields.error, undefined, fields.details),
+  });
+};
+
+/**
+ * Services that already answer with ApiResponse
+ */
+const gatewayAdapter: ResponseAdapter = (body, status) => {
+  if (!isObject(body)) {
+    return rawAdapter(body, status);
+  }
+
+  const success = body.success === true && status < 400;
+  const error = isObject(body.error)
+    ? buildError(status, body.error.message, body.error.code, body.error.details)
+    : success
+      ? undefined
+      : buildError(status, undefined, undefined, undefined);
+
+  return buildResponse(success, body.timestamp, {
+    data: body.data,
+    ...(error ? { error } : {}),
+    ...(isObject(body.meta) ? { meta: buildResponseMeta(body.meta) } : {}),
+  });
+};
+
+/**
+ * `{ success, message, data, timestamp, ...extra }` envelopes (the MongoDB
+ * service template), and legacy ones with `result` for data or a string error.
+ * Extra fields become metadata; top-level `details` move into the error.
+ */
+const envelopeAdapter: ResponseAdapter = (body, status) => {
+  if (!isObject(body)) {
+    return rawAdapter(body, status);
+  }
+
+  const extra = Object.fromEntries(Object.entries(body).filter(([key]) => !ENVELOPE_KEYS.has(key)));
+  const meta = buildResponseMeta(extra);
+
+  if (body.success === false || status >= 400) {
+    const error = isObject(body.error) ? body.error : {};
+    return buildResponse(false, body.timestamp, {
+      error: buildError(
+        status,
+        typeof body.error === 'string' ? body.error : (error.message ?? body.message),
+        error.code,
+        body.details ?? error.details
+      ),
+      meta,
+    });
+  }
+
+  return buildResponse(true, body.timestamp, { data: body.data ?? body.result, meta });
+};
+
+/**
+ * Detect the envelope of a body and adapt it accordingly
+ */
+const autoAdapter: ResponseAdapter = (body, status) => {
+  if (!isObject(body) || typeof body.success !== 'boolean') {
+    return rawAdapter(body, status);
+  }
+  return Object.keys(body).every(key => GATEWAY_KEYS.has(key)) &&
+    (body.error === undefined || isObject(body.error))
+    ? gatewayAdapter(body, status)
+    : envelopeAdapter(body, status);
+};
+
+const adapters = new Map<string, ResponseAdapter>([
+  ['auto', autoAdapter],
+  ['gateway', gatewayAdapter],
+  ['mongodb', envelopeAdapter],
+  ['legacy', envelopeAdapter],
+  ['raw', rawAdapter],
+]);
+
+/**
+ * Register a response adapter for services with a custom envelope, selectable
+ * with SERVICE_X_RESPONSE_FORMAT=<name> (register before the proxies are created)
+ */
+export function registerResponseAdapter(name: string, adapter: ResponseAdapter): void {
+  adapters.set(name, adapter);
+}
+
+/**
+ * Get a response adapter by name
+ *
+ * @throws {Error} If no adapter is registered under the name
+ */
+export function getResponseAdapter(name = 'auto'): ResponseAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`Unknown response format: ${name}`);
+  }
+  return adapter;
+}
+
+export default {
+  buildResponseMeta,
+  registerResponseAdapter,
+  getResponseAdapter,
+};
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Server-side response cache for the API Gateway
+ *
+ * This module provides a TTL cache for GET responses produced by proxied and
+ * aggregated routes, kept in the gateway's shared key/value store. Cache keys
+ * are built from the method, path, normalized query string and the request
+ * headers named by the response's `Vary` header, so variants of the same
+ * resource never collide. Cached responses always vary on the caller's
+ * credentials, so one caller's response is never served to another.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import config from '../config';
+import { CacheConfig, CacheEntry } from '../types';
+import { KeyValueStore, MemoryStore, createStore } from './store';
+
+/**
+ * Cached HTTP response
+ */
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  backend: string;
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+}
+
+// Store key prefixes for cached responses and per-resource vary header lists
+const ENTRY_PREFIX = 'entry:';
+const VARY_PREFIX = 'vary:';
+
+// Headers that never take part in the cache key (the body is cached before compression)
+const IGNORED_VARY_HEADERS = new Set(['accept-encoding', 'origin', '*']);
+
+/**
+ * Request headers identifying the caller; every cached response varies on them
+ */
+export const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+/**
+ * Serialize query parameters with sorted keys so `?b=1&a=2` and `?a=2&b=1` match
+ */
+export function normalizeQuery(query: Record<string, unknown> = {}): string {
+  const params = new URLSearchParams();
+
+  for (const key of Object.keys(query).sort()) {
+    const value = query[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      params.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+    }
+  }
+
+  return params.toString();
+}
+
+/**
+ * Parse a `Vary` header into the lower-cased request header names that affect the key
+ */
+export function parseVaryHeader(vary: string | undefined): string[] {
+  if (!vary) {
+    return [];
+  }
+
+  return vary
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name && !IGNORED_VARY_HEADERS.has(name))
+    .sort();
+}
+
+/**
+ * Build the base key (method, path, normalized query) for a request
+ */
+export function buildBaseKey(
+  method: string,
+  path: string,
+  query: Record<string, unknown> = {}
+): string {
+  const normalized = normalizeQuery(query);
+  return `${method.toUpperCase()}:${path}${normalized ? `?${normalized}` : ''}`;
+}
+
+/**
+ * Extend a base key with the values of the vary headers
+ */
+export function buildVariantKey(
+  baseKey: string,
+  varyHeaders: string[],
+  headers: Record<string, string | string[] | undefined>
+): string {
+  if (varyHeaders.length === 0) {
+    return baseKey;
+  }
+
+  const parts = varyHeaders.map(name => {
+    const raw = headers[name];
+    const value = Array.isArray(raw) ? raw.join(',') : (raw ?? '');
+    // Credentials are hashed so that they never appear in (shared) store keys
+    return `${name}=${
+      value && CREDENTIAL_HEADERS.includes(name)
+        ? crypto.createHash('sha256').update(value).digest('hex')
+        : value
+    }`;
+  });
+
+  return `${baseKey}|${parts.join('|')}`;
+}
+
+/**
+ * Response cache with per-entry TTL, kept in a `KeyValueStore`
+ *
+ * With the default in-memory store the cache is a size-capped LRU; with the
+ * redis backend entries are shared by every gateway replica.
+ */
+export class ResponseCache {
+  private readonly store: KeyValueStore;
+  private readonly options: Required<CacheConfig>;
+  private readonly now: () => number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: CacheConfig, store?: KeyValueStore, now: () => number = Date.now) {
+    this.options = { maxSize: 1000, ...options };
+    this.now = now;
+    this.store = store ?? new MemoryStore({ maxEntries: this.options.maxSize, now });
+  }
+
+  /**
+   * Whether caching is enabled
+   */
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Default TTL in seconds
+   */
+  getDefaultTtl(): number {
+    return this.options.ttl;
+  }
+
+  /**
+   * Resolve the full cache key for a request using the remembered vary headers
+   */
+  async resolveKey(
+    baseKey: string,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<string> {
+    const varyHeaders = await this.store.get<string[]>(`${VARY_PREFIX}${baseKey}`);
+    return buildVariantKey(baseKey, varyHeaders ?? [], headers);
+  }
+
+  /**
+   * Look up a cached response
+   */
+  async get(key: string): Promise<CacheEntry<CachedResponse> | undefined> {
+    const entry = await this.store.get<CacheEntry<CachedResponse>>(`${ENTRY_PREFIX}${key}`);
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Store a response (the store evicts or expires it after the TTL)
+   */
+  async set(
+    baseKey: string,
+    varyHeaders: string[],
+    headers: Record<string, string | string[] | undefined>,
+    response: CachedResponse,
+    ttl: number = this.options.ttl
+  ): Promise<string> {
+    const ttlMs = ttl * 1000;
+    const key = buildVariantKey(baseKey, varyHeaders, headers);
+
+    // Only resources with a Vary header need an index entry
+    if (varyHeaders.length > 0) {
+      await this.store.set(`${VARY_PREFIX}${baseKey}`, varyHeaders, ttlMs);
+    } else {
+      await this.store.del(`${VARY_PREFIX}${baseKey}`);
+    }
+
+    await this.store.set(
+      `${ENTRY_PREFIX}${key}`,
+      { key, data: response, timestamp: this.now(), ttl },
+      ttlMs
+    );
+
+    return key;
+  }
+
+  /**
+   * Remove every entry whose key starts with the given prefix
+   *
+   * @returns Number of removed entries
+   */
+  async invalidate(prefix: string): Promise<number> {
+    const removed = await this.store.deleteByPrefix(`${ENTRY_PREFIX}${prefix}`);
+    await this.store.deleteByPrefix(`${VARY_PREFIX}${prefix}`);
+    return removed;
+  }
+
+  /**
+   * Remove every entry for a base key and for the paths below it, matching on
+   * path-segment boundaries (`GET:/api/item` does not match `GET:/api/items`)
+   *
+   * @returns Number of removed entries
+   */
+  async invalidatePath(baseKey: string): Promise<number> {
+    const key = baseKey.replace(/\/+$/, '');
+    let removed = 0;
+
+    for (const boundary of ['/', '?', '|']) {
+      removed += await this.invalidate(`${key}${boundary}`);
+    }
+
+    if (await this.store.get(`${ENTRY_PREFIX}${key}`)) {
+      await this.store.del(`${ENTRY_PREFIX}${key}`);
+      removed++;
+    }
+    await this.store.del(`${VARY_PREFIX}${key}`);
+
+    return removed;
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.store.deleteByPrefix(ENTRY_PREFIX);
+    await this.store.deleteByPrefix(VARY_PREFIX);
+  }
+
+  /**
+   * Cache statistics (hit/miss counters are per gateway instance)
+   */
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: this.store.backend,
+      size: await this.store.size(),
+      maxSize: this.options.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+/**
+ * Shared gateway response cache configured from ENABLE_CACHE / CACHE_TTL
+ */
+export const responseCache = new ResponseCache(
+  {
+    enabled: config.ENABLE_CACHE,
+    ttl: config.CACHE_TTL,
+    maxSize: config.CACHE_MAX_ENTRIES,
+  },
+  createStore('cache', { maxEntries: config.CACHE_MAX_ENTRIES })
+);
+
+/**
+ * Invalidate cached GET responses for a path and the paths below it
+ * (`/api/example` clears `/api/example/1` but not `/api/examples`)
+ */
+export function invalidateCachedPath(path: string): Promise<number> {
+  return responseCache.invalidatePath(buildBaseKey('GET', path));
+}
+
+export default responseCache;
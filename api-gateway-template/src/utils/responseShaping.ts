@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Response shaping for the API Gateway
+ *
+ * This module implements the `?fields=` and `?include=` query parameters
+ * accepted by every gateway route. `fields` is a comma-separated list of dot
+ * paths (`name,relatedData.title`) that response data is projected onto;
+ * paths through arrays apply to each element. `include` names the optional
+ * enrichments a route should fetch, so enrichment calls nobody asked for are
+ * never made.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { ValidationError } from '../errors';
+
+const FIELD_PATH_PATTERN = /^[\w$-]+(?:\.[\w$-]+)*$/;
+const INCLUDE_PATTERN = /^[\w$-]+$/;
+const MAX_ENTRIES = 50;
+
+/**
+ * Fields and enrichments a client asked for
+ */
+export interface ResponseShape {
+  /** Dot paths to keep in the response data (includes the `include` names) */
+  fields?: string[];
+  /** Enrichments to fetch */
+  include?: string[];
+}
+
+// Selected fields by key: `true` keeps the whole value, a subtree projects it
+type FieldTree = Map<string, FieldTree | true>;
+
+/**
+ * Split a query parameter (possibly repeated) into its comma-separated entries
+ *
+ * @throws {ValidationError} If an entry does not match the pattern or there are too many
+ */
+function parseList(name: string, value: unknown, pattern: RegExp): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const entries = (Array.isArray(value) ? value : [value])
+    .flatMap(part => String(part).split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    if (!pattern.test(entry)) {
+      throw new ValidationError(`Invalid ${name} entry: ${entry}`);
+    }
+  }
+  if (entries.length > MAX_ENTRIES) {
+    throw new ValidationError(`At most ${MAX_ENTRIES} ${name} entries are allowed`);
+  }
+
+  return [...new Set(entries)];
+}
+
+/**
+ * Read the response shape from a request's query parameters
+ *
+ * @returns The shape, or undefined when neither `fields` nor `include` is given
+ * @throws {ValidationError} On an invalid field path or enrichment name
+ */
+export function parseResponseShape(query: Record<string, unknown>): ResponseShape | undefined {
+  const fields = parseList('fields', query.fields, FIELD_PATH_PATTERN);
+  const include = parseList('include', query.include, INCLUDE_PATTERN);
+
+  if (!fields && !include) {
+    return undefined;
+  }
+
+  return {
+    // Included enrichments are part of the projection
+    ...(fields ? { fields: [...new Set([...fields, ...(include ?? [])])] } : {}),
+    ...(include ? { include } : {}),
+  };
+}
+
+/**
+ * Query parameters equivalent to a shape, e.g. for cache keys
+ */
+export function shapeToQuery(shape: ResponseShape | undefined): Record<string, string> {
+  return {
+    ...(shape?.fields ? { fields: shape.fields.join(',') } : {}),
+    ...(shape?.include ? { include: shape.include.join(',') } : {}),
+  };
+}
+
+/**
+ * Build the tree of selected fields from dot paths
+ */
+function buildFieldTree(fields: string[]): FieldTree {
+  const root: FieldTree = new Map();
+
+  for (const field of fields) {
+    const keys = field.split('.');
+    let node = root;
+
+    for (const [index, key] of keys.entries()) {
+      const existing = node.get(key);
+      if (existing === true) {
+        // A parent path already keeps the whole value
+        break;
+      }
+      if (index === keys.length - 1) {
+        node.set(key, true);
+        break;
+      }
+      const child: FieldTree = existing ?? new Map<string, FieldTree | true>();
+      node.set(key, child);
+      node = child;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Project a value onto a field tree
+ */
+function project(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, tree));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const projected: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    const selected = tree.get(key);
+    if (selected) {
+      projected[key] = selected === true ? fieldValue : project(fieldValue, selected);
+    }
+  }
+  return projected;
+}
+
+/**
+ * Keep only the given dot paths of a value (applied to each element of arrays)
+ *
+ * @example
+ * projectFields({ id: 1, name: 'A', owner: { id: 2, email: 'a@b.c' } }, ['name', 'owner.id'])
+ * // => { name: 'A', owner: { id: 2 } }
+ */
+export function projectFields(value: unknown, fields: string[]): unknown {
+  return project(value, buildFieldTree(fields));
+}
+
+/**
+ * Whether a top-level field (such as an enrichment key) is wanted by a shape
+ *
+ * Without a shape everything is wanted. With `fields`, a field is wanted when a
+ * path selects it or something inside it; with only `include`, when it is
+ * included.
+ */
+export function isFieldRequested(shape: ResponseShape | undefined, key: string): boolean {
+  if (!shape) {
+    return true;
+  }
+  if (shape.fields) {
+    return shape.fields.some(field => field === key || field.startsWith(`${key}.`));
+  }
+  return shape.include?.includes(key) ?? false;
+}
+
+export default {
+  parseResponseShape,
+  shapeToQuery,
+  projectFields,
+  isFieldRequested,
+};
@@ -0,0 +1,325 @@
+/**
+ * @fileoverview Federated search across upstream services
+ *
+ * This module backs GET /api/search. Every service with a search adapter is
+ * queried in parallel under one shared deadline; services that have not
+ * answered when it expires are dropped from the results instead of delaying
+ * them. Each source's scores are normalized to 0..1 (by min-max, or by rank
+ * when the service returns no scores) so hits from different services can be
+ * merged into one ranking.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import config, { SearchAdapterConfig } from '../config';
+import { AppError } from '../errors';
+import { ServiceProxyError } from '../types';
+import { ServiceProxy } from './serviceProxy';
+
+/**
+ * One hit as returned by a search adapter
+ */
+export interface SearchAdapterHit {
+  item: unknown;
+  /** Relevance score on the service's own scale (higher is better) */
+  score?: number;
+}
+
+/**
+ * Queries one service's search endpoint
+ *
+ * @param proxy - Proxy of the service
+ * @param timeout - Time left in the search's budget (milliseconds)
+ * @param signal - Aborted when the search's deadline expires; pass it to the
+ * proxy call so the upstream request is cancelled
+ */
+export type SearchAdapter = (
+  proxy: ServiceProxy,
+  query: string,
+  limit: number,
+  timeout: number,
+  signal: AbortSignal
+) => Promise<SearchAdapterHit[]>;
+
+/**
+ * One hit of the merged ranking
+ */
+export interface SearchHit {
+  source: string;
+  /** Score normalized to 0..1 within its source */
+  score: number;
+  item: unknown;
+}
+
+/**
+ * Outcome of one source, reported in the response meta
+ */
+export interface SearchSource {
+  /** `timeout` when the source did not answer within the deadline budget */
+  status: 'ok' | 'failed' | 'timeout';
+  /** Hits the source returned */
+  count: number;
+  /** Time until the source answered, failed or was dropped (milliseconds) */
+  latency: number;
+  errorCode?: string;
+}
+
+/**
+ * Results of a federated search
+ */
+export interface FederatedSearchResult {
+  /** Hits per queried source, in the source's own order */
+  results: Record<string, unknown[]>;
+  /** Hits of all sources merged by normalized score, at most `limit` */
+  ranked: SearchHit[];
+  /** Hits returned by all sources */
+  total: number;
+  sources: Record<string, SearchSource>;
+  /** Time the whole search took (milliseconds) */
+  searchTime: number;
+}
+
+/**
+ * Look up a dotted path in a value (an empty path is the value itself)
+ */
+function lookup(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+/**
+ * Create an adapter for a search endpoint described in configuration
+ */
+export function createConfiguredAdapter(adapterConfig: SearchAdapterConfig): SearchAdapter {
+  return async (proxy, query, limit, timeout, signal) => {
+    const response = await proxy.request<unknown>('GET', adapterConfig.path, {
+      params: { [adapterConfig.queryParam]: query, limit },
+      // A retry would not fit in the budget
+      retries: 0,
+      timeout,
+      signal,
+    });
+
+    // Services answering in an envelope have their hit array unwrapped already
+    const results = Array.isArray(response.data)
+      ? response.data
+      : lookup(response.data, adapterConfig.resultsPath);
+    if (!Array.isArray(results)) {
+      return [];
+    }
+
+    return results.map((item: unknown) => {
+      const score = lookup(item, adapterConfig.scoreField);
+      return typeof score === 'number' && Number.isFinite(score) ? { item, score } : { item };
+    });
+  };
+}
+
+/**
+ * Normalize a source's scores to 0..1: min-max when every hit has a score,
+ * otherwise by rank (the first hit scores 1)
+ */
+function normalizeScores(hits: SearchAdapterHit[]): number[] {
+  const scores = hits.map(hit => hit.score);
+  if (scores.every((score): score is number => score !== undefined)) {
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    return scores.map(score => (max === min ? 1 : (score - min) / (max - min)));
+  }
+  return hits.map((_hit, index) => 1 - index / hits.length);
+}
+
+/**
+ * Searches every service with a search adapter and merges the results
+ *
+ * @example
+ * ```typescript
+ * const search = createFederatedSearch(getServiceProxies());
+ * search.registerAdapter('serviceC', async (proxy, query, limit, timeout, signal) => {
+ *   const response = await proxy.request('POST', '/graphql',
+ *     { data: { query: SEARCH_QUERY, variables: { query } }, retries: 0, timeout, signal });
+ *   return response.data.data.search.map(node => ({ item: node, score: node.relevance }));
+ * });
+ *
+ * const { ranked, sources } = await search.search('widget', { limit: 10 });
+ * ```
+ */
+export class FederatedSearch {
+  private readonly proxies: Record<string, ServiceProxy>;
+  private readonly adapters: Map<string, SearchAdapter>;
+  private readonly timeout: number;
+
+  /**
+   * @param timeout - Deadline budget shared by all sources (milliseconds)
+   */
+  constructor(
+    proxies: Record<string, ServiceProxy>,
+    adapters: Record<string, SearchAdapter> = {},
+    timeout: number = config.SEARCH_TIMEOUT
+  ) {
+    this.proxies = proxies;
+    this.adapters = new Map();
+    this.timeout = timeout;
+
+    for (const [service, adapter] of Object.entries(adapters)) {
+      this.registerAdapter(service, adapter);
+    }
+  }
+
+  /**
+   * Register (or replace) the search adapter of a service
+   *
+   * @throws {Error} If the service is unknown
+   */
+  registerAdapter(service: string, adapter: SearchAdapter): this {
+    if (!this.proxies[service]) {
+      throw new Error(`Search adapter registered for unknown service: ${service}`);
+    }
+    this.adapters.set(service, adapter);
+    return this;
+  }
+
+  /**
+   * Services that take part in searches
+   */
+  getSources(): string[] {
+    return [...this.adapters.keys()];
+  }
+
+  /**
+   * Query the sources in parallel and merge their hits
+   *
+   * Sources that fail, or have not answered when the budget runs out, are
+   * reported in `sources` and contribute no hits; the calls of the latter are
+   * aborted.
+   *
+   * @param options.type - Source to query, or `all` (the default)
+   * @param options.limit - Hits requested per source and kept in the ranking
+   */
+  async search(
+    query: string,
+    options: { type?: string; limit: number }
+  ): Promise<FederatedSearchResult> {
+    const startTime = Date.now();
+    const type = options.type ?? 'all';
+    const services = this.getSources().filter(service => type === 'all' || service === type);
+
+    const controller = new AbortController();
+    let expire: () => void = () => undefined;
+    const deadline = new Promise<'timeout'>(resolve => {
+      expire = () => {
+        resolve('timeout');
+        controller.abort();
+      };
+    });
+    const timer = setTimeout(expire, this.timeout);
+
+    try {
+      const settled = await Promise.all(
+        services.map(service =>
+          this.querySource(service, query, options.limit, startTime, deadline, controller.signal)
+        )
+      );
+
+      const results: Record<string, unknown[]> = {};
+      const sources: Record<string, SearchSource> = {};
+      const ranked: Array<SearchHit & { rank: number; order: number }> = [];
+
+      settled.forEach(({ source, hits }, order) => {
+        const service = services[order] as string;
+        results[service] = hits.map(hit => hit.item);
+        sources[service] = source;
+        normalizeScores(hits).forEach((score, rank) => {
+          ranked.push({ source: service, score, item: hits[rank]?.item, rank, order });
+        });
+      });
+
+      // Ties go to the better-ranked hit, then to the earlier source
+      ranked.sort((a, b) => b.score - a.score || a.rank - b.rank || a.order - b.order);
+
+      return {
+        results,
+        ranked: ranked
+          .slice(0, options.limit)
+          .map(({ source, score, item }) => ({ source, score, item })),
+        total: settled.reduce((sum, { hits }) => sum + hits.length, 0),
+        sources,
+        searchTime: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Query one source, giving up when the shared deadline expires
+   */
+  private async querySource(
+    service: string,
+    query: string,
+    limit: number,
+    startTime: number,
+    deadline: Promise<'timeout'>,
+    signal: AbortSignal
+  ): Promise<{ source: SearchSource; hits: SearchAdapterHit[] }> {
+    // Sources are registered for known services only
+    const proxy = this.proxies[service] as ServiceProxy;
+    const adapter = this.adapters.get(service) as SearchAdapter;
+    const remaining = Math.max(1, this.timeout - (Date.now() - startTime));
+
+    try {
+      const outcome = await Promise.race([
+        adapter(proxy, query, limit, remaining, signal),
+        deadline,
+      ]);
+      const latency = Date.now() - startTime;
+
+      if (outcome === 'timeout') {
+        return { source: { status: 'timeout', count: 0, latency }, hits: [] };
+      }
+      return { source: { status: 'ok', count: outcome.length, latency }, hits: outcome };
+    } catch (error) {
+      const failure = error as ServiceProxyError;
+      return {
+        source: {
+          status: 'failed',
+          count: 0,
+          latency: Date.now() - startTime,
+          errorCode: error instanceof AppError ? error.code : (failure.code ?? 'GATEWAY_ERROR'),
+        },
+        hits: [],
+      };
+    }
+  }
+}
+
+/**
+ * Create a federated search over the services with a configured search adapter
+ * (pass the gateway's shared proxies from getServiceProxies())
+ */
+export function createFederatedSearch(proxies: Record<string, ServiceProxy>): FederatedSearch {
+  const adapters: Record<string, SearchAdapter> = {};
+
+  for (const [service, serviceConfig] of Object.entries(config.SERVICES)) {
+    if (serviceConfig.search && proxies[service]) {
+      adapters[service] = createConfiguredAdapter(serviceConfig.search);
+    }
+  }
+
+  return new FederatedSearch(proxies, adapters);
+}
+
+export default {
+  FederatedSearch,
+  createConfiguredAdapter,
+  createFederatedSearch,
+};
@@ -9,11 +9,16 @@
  * @version 1.0.0
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, Method } from 'axios';
 import config from '../config';
 import { 
+  ServiceInstanceConfig,
   ServiceProxyConfig, 
   ServiceProxyResponse, 
+  ServiceProxyStreamResponse,
+  ServiceProxyStats,
   ServiceProxyError,
   ApiResponse 
 } from '../types';
@@ -22,8 +27,25 @@ import {
   ServiceUnavailableError, 
   TimeoutError, 
   GatewayError,
+  ERROR_CODES,
+  STATUS_BY_CODE,
   deriveCodeFromMessage 
 } from '../errors';
+import { CircuitBreaker, CircuitBreakerSnapshot, getCircuitBreaker } from './circuitBreaker';
+import { LoadBalancer, ServiceInstance } from './loadBalancer';
+import { ServiceRegistry, serviceRegistry } from './serviceRegistry';
+import { healthMonitor } from './healthMonitor';
+import { getRequestContext, getUpstreamContextHeaders } from './requestContext';
+import { getTracer, getTraceHeaders, Span } from './tracing';
+import { normalizeQuery } from './responseCache';
+import { isFieldRequested } from './responseShaping';
+import { getResponseAdapter, ResponseAdapter } from './responseAdapters';
+import { metricsCollector } from './metrics';
+import {
+  observeUpstreamCall,
+  countUpstreamRetry,
+  countUpstreamCoalesced,
+} from './prometheus';
 
 /**
  * Service proxy class for handling requests to backend services
@@ -32,10 +54,31 @@ export class ServiceProxy {
   private axiosInstance: AxiosInstance;
   private serviceName: string;
   private config: ServiceProxyConfig;
+  private circuitBreaker: CircuitBreaker;
+  private loadBalancer: LoadBalancer;
+  private registry: ServiceRegistry | undefined;
+  private responseAdapter: ResponseAdapter;
+  // Registry version the load balancer's instances were taken from
+  private registryVersion = 0;
+  // Identical GETs currently in flight, keyed by buildCoalescingKey()
+  private inFlightGets = new Map<string, Promise<ServiceProxyResponse<any>>>();
+  private coalescedRequests = 0;
 
-  constructor(serviceName: string, serviceConfig: ServiceProxyConfig) {
+  /**
+   * @param registry - Runtime registry to resolve instances from; its live
+   * registrations replace the configured instances while there are any
+   * @throws {Error} If the configured response format has no adapter
+   */
+  constructor(serviceName: string, serviceConfig: ServiceProxyConfig, registry?: ServiceRegistry) {
     this.serviceName = serviceName;
     this.config = serviceConfig;
+    this.responseAdapter = getResponseAdapter(serviceConfig.responseFormat);
+    this.circuitBreaker = getCircuitBreaker(serviceName, serviceConfig.circuitBreaker);
+    this.loadBalancer = new LoadBalancer(
+      this.getConfiguredInstances(),
+      serviceConfig.loadBalancing
+    );
+    this.registry = registry;
     
     this.axiosInstance = axios.create({
       baseURL: serviceConfig.baseUrl,
@@ -53,13 +96,18 @@ export class ServiceProxy {
     // Request interceptor
     this.axiosInstance.interceptors.request.use(
       (config) => {
-        // Add correlation ID and other headers
-        config.headers = {
-          ...config.headers,
-          'X-Gateway-Service': this.serviceName,
-          'X-Request-ID': this.generateRequestId(),
-          'X-Timestamp': new Date().toISOString(),
-        };
+        // Forward the inbound request context (correlation ID, client IP, allowlisted headers)
+        const contextHeaders = getUpstreamContextHeaders();
+        for (const [name, value] of Object.entries(contextHeaders)) {
+          config.headers.set(name, value);
+        }
+
+        config.headers.set('X-Gateway-Service', this.serviceName);
+        config.headers.set(
+          'X-Request-ID',
+          contextHeaders['X-Correlation-ID'] || this.generateRequestId()
+        );
+        config.headers.set('X-Timestamp', new Date().toISOString());
         return config;
       },
       (error) => Promise.reject(error)
@@ -106,6 +154,10 @@ export class ServiceProxy {
         status: error.response.status,
         headers: error.response.headers,
       };
+      const { error: envelope } = this.adaptResponse(error.response.data, error.response.status);
+      if (envelope) {
+        proxyError.envelope = envelope;
+      }
     } else {
       // Network or other error
       proxyError.message = error.message || 'Unknown service error';
@@ -118,13 +170,55 @@ export class ServiceProxy {
 
   /**
    * Make GET request with retry logic
+   *
+   * With coalescing enabled (per service via `coalesceGets`, or per call via
+   * `options.coalesce`), concurrent calls for the same path, params and forwarded
+   * request headers share a single upstream request. Joined callers receive a
+   * copy of the response data and their correlation ID is not sent upstream.
    */
   async get<T = any>(
     path: string, 
     params?: Record<string, any>,
-    options?: { retries?: number; timeout?: number }
+    options: { retries?: number; timeout?: number; coalesce?: boolean } = {}
   ): Promise<ServiceProxyResponse<T>> {
-    return this.request<T>('GET', path, { params, ...options });
+    const { coalesce = this.config.coalesceGets ?? false, ...requestOptions } = options;
+    const send = () => this.request<T>('GET', path, { params, ...requestOptions });
+
+    if (!coalesce) {
+      return send();
+    }
+
+    const key = this.buildCoalescingKey(path, params);
+    const inFlight = this.inFlightGets.get(key) as Promise<ServiceProxyResponse<T>> | undefined;
+
+    if (inFlight) {
+      this.coalescedRequests++;
+      metricsCollector.recordCoalescedCall(this.serviceName);
+      countUpstreamCoalesced(this.serviceName);
+      const shared = await inFlight;
+      return { ...shared, data: structuredClone(shared.data) };
+    }
+
+    const pending = send().finally(() => {
+      this.inFlightGets.delete(key);
+    });
+    this.inFlightGets.set(key, pending);
+
+    return pending;
+  }
+
+  /**
+   * Build the single-flight key for a GET: path, normalized params and a hash of
+   * the forwarded request headers (so callers with different credentials never
+   * share a response)
+   */
+  private buildCoalescingKey(path: string, params?: Record<string, any>): string {
+    const forwardedHeaders = getRequestContext()?.forwardedHeaders ?? {};
+    const identity = createHash('sha256')
+      .update(JSON.stringify(Object.entries(forwardedHeaders).sort()))
+      .digest('hex');
+
+    return `${path}?${normalizeQuery(params)}#${identity}`;
   }
 
   /**
@@ -172,8 +266,18 @@ export class ServiceProxy {
 
   /**
    * Generic request method with retry logic
+   *
+   * Each attempt goes to an instance picked by the service's load balancer.
+   * Instances the health monitor reports unhealthy are skipped, and retries
+   * avoid instances that already failed for this request, while others remain.
+   * `hashKey` is the consistent-hash key (defaults to the path). Aborting
+   * `signal` cancels the request, without retries or counting against the circuit.
+   *
+   * The response body is mapped by the service's response adapter: `data` is
+   * the payload inside the service's envelope and `meta` its metadata. An
+   * envelope reporting a failure (despite a 2xx status) is thrown as an error.
    */
-  private async request<T = any>(
+  async request<T = any>(
     method: string,
     path: string,
     options: {
@@ -181,9 +285,54 @@ export class ServiceProxy {
       params?: Record<string, any>;
       retries?: number;
       timeout?: number;
+      hashKey?: string;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ServiceProxyResponse<T>> {
-    const { data, params, retries = this.config.retries, timeout } = options;
+    const response = await this.send(method, path, options);
+    const envelope = this.adaptResponse(response.data, response.status);
+
+    if (!envelope.success) {
+      const code = envelope.error?.code ?? ERROR_CODES.GATEWAY_ERROR;
+      const proxyError = new Error(
+        envelope.error?.message ?? `Request to ${this.serviceName} failed`
+      ) as ServiceProxyError;
+      proxyError.status = STATUS_BY_CODE[code] ?? 502;
+      proxyError.code = code;
+      proxyError.response = {
+        data: response.data,
+        status: proxyError.status,
+        headers: response.headers,
+      };
+      if (envelope.error) {
+        proxyError.envelope = envelope.error;
+      }
+      throw proxyError;
+    }
+
+    return {
+      ...response,
+      data: envelope.data as T,
+      ...(envelope.meta ? { meta: envelope.meta } : {}),
+    };
+  }
+
+  /**
+   * Send a request with retries, returning the raw response body
+   */
+  private async send(
+    method: string,
+    path: string,
+    options: {
+      data?: any;
+      params?: Record<string, any>;
+      retries?: number;
+      timeout?: number;
+      hashKey?: string;
+      signal?: AbortSignal;
+    }
+  ): Promise<ServiceProxyResponse<unknown>> {
+    const { data, params, retries = this.config.retries, timeout, hashKey = path, signal } = options;
     const startTime = Date.now();
 
     const requestConfig: AxiosRequestConfig = {
@@ -192,15 +341,42 @@ export class ServiceProxy {
       data,
       params,
       timeout: timeout || this.config.timeout,
+      ...(signal ? { signal } : {}),
     };
 
     let lastError: ServiceProxyError | null = null;
     let attempt = 0;
+    // Unhealthy instances, plus every instance that fails an attempt
+    const skippedInstances = healthMonitor.getUnhealthyInstances(this.serviceName);
 
     while (attempt <= retries) {
+      // Fail fast while the circuit is open instead of piling load onto a dead service
+      if (!this.circuitBreaker.tryAcquire()) {
+        const circuitError = new ServiceUnavailableError(
+          `Service ${this.serviceName} is unavailable (circuit open)`,
+          { service: this.serviceName, circuit: this.circuitBreaker.getSnapshot() }
+        );
+        metricsCollector.recordServiceCall(this.serviceName, Date.now() - startTime, circuitError.message);
+        observeUpstreamCall(this.serviceName, method, undefined, Date.now() - startTime);
+        throw circuitError;
+      }
+
+      const loadBalancer = this.resolveLoadBalancer();
+      const instance = loadBalancer.pick({ key: hashKey, exclude: skippedInstances });
+      const release = loadBalancer.acquire(instance);
+      const span = this.startAttemptSpan(method, path, attempt, instance);
+      const attemptConfig = this.withInstance(requestConfig, instance);
+
       try {
-        const response: AxiosResponse<T> = await this.axiosInstance.request(requestConfig);
+        const response: AxiosResponse<unknown> = await this.axiosInstance.request(
+          span ? { ...attemptConfig, headers: getTraceHeaders(span.context) } : attemptConfig
+        );
+        release();
+        span?.setAttribute('http.status_code', response.status).end();
         const responseTime = Date.now() - startTime;
+        this.circuitBreaker.recordSuccess();
+        metricsCollector.recordServiceCall(this.serviceName, responseTime);
+        observeUpstreamCall(this.serviceName, method, response.status, responseTime);
 
         return {
           data: response.data,
@@ -209,9 +385,30 @@ export class ServiceProxy {
           responseTime,
         };
       } catch (error) {
+        release();
         lastError = error as ServiceProxyError;
         attempt++;
 
+        if (span) {
+          if (lastError.response?.status) {
+            span.setAttribute('http.status_code', lastError.response.status);
+          }
+          span.setStatus('ERROR', lastError.message).end();
+        }
+
+        // A caller that gave up says nothing about the service and wants no retry
+        if (signal?.aborted) {
+          this.circuitBreaker.release();
+          throw lastError;
+        }
+
+        // Only network errors, timeouts and 5xx responses count against the circuit
+        if (!lastError.status || lastError.status >= 500) {
+          this.circuitBreaker.recordFailure();
+        } else {
+          this.circuitBreaker.recordSuccess();
+        }
+
         // Don't retry on client errors (4xx) or certain server errors
         if (
           lastError.status && 
@@ -225,6 +422,9 @@ export class ServiceProxy {
           break;
         }
 
+        skippedInstances.add(instance.url);
+        countUpstreamRetry(this.serviceName);
+
         // Exponential backoff delay
         const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
         await this.sleep(delay);
@@ -232,7 +432,210 @@ export class ServiceProxy {
     }
 
     // All retries failed, throw the last error
-    throw lastError || new GatewayError(`Failed to connect to ${this.serviceName}`);
+    const finalError = lastError || new GatewayError(`Failed to connect to ${this.serviceName}`);
+
+    // Client errors mean the service answered, so they do not count against availability
+    const failed = !finalError.status || finalError.status >= 500;
+    metricsCollector.recordServiceCall(
+      this.serviceName,
+      Date.now() - startTime,
+      failed ? finalError.message : undefined
+    );
+    observeUpstreamCall(
+      this.serviceName,
+      method,
+      (finalError as ServiceProxyError).response?.status,
+      Date.now() - startTime
+    );
+
+    throw finalError;
+  }
+
+  /**
+   * Streaming request: resolves once the upstream response headers arrive and
+   * returns the body as a readable stream instead of buffering it
+   *
+   * Upstream error statuses are returned (not thrown) so their body can be piped
+   * through as well. The wait for headers is bounded by the service timeout;
+   * after that the caller owns the stream and its idle timeout. Aborting
+   * `signal` (or destroying the stream) cancels the upstream request. Streaming
+   * requests are not retried, since a body may not be replayable.
+   */
+  async stream(
+    method: string,
+    path: string,
+    options: {
+      data?: unknown;
+      params?: Record<string, any>;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+      timeout?: number;
+      hashKey?: string;
+    } = {}
+  ): Promise<ServiceProxyStreamResponse> {
+    const { data, params, headers, signal, timeout, hashKey = path } = options;
+    const startTime = Date.now();
+
+    if (!this.circuitBreaker.tryAcquire()) {
+      const circuitError = new ServiceUnavailableError(
+        `Service ${this.serviceName} is unavailable (circuit open)`,
+        { service: this.serviceName, circuit: this.circuitBreaker.getSnapshot() }
+      );
+      metricsCollector.recordServiceCall(this.serviceName, 0, circuitError.message);
+      observeUpstreamCall(this.serviceName, method, undefined, 0);
+      throw circuitError;
+    }
+
+    const { instance, release } = this.acquireInstance(hashKey);
+    const span = this.startAttemptSpan(method, path, 0, instance);
+    const controller = new AbortController();
+    const abort = (): void => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let timedOut = false;
+    const headersTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout ?? this.config.timeout);
+
+    const cleanUp = (): void => {
+      clearTimeout(headersTimer);
+      signal?.removeEventListener('abort', abort);
+      release();
+    };
+
+    try {
+      const requestConfig = this.withInstance(
+        {
+          method: method.toLowerCase() as Method,
+          url: path,
+          data,
+          params,
+          headers: { ...headers, ...(span ? getTraceHeaders(span.context) : {}) },
+          responseType: 'stream',
+          // The headers timer bounds the wait; an axios timeout would also cut idle streams
+          timeout: 0,
+          signal: controller.signal,
+          // Pass compressed bodies and error responses through untouched
+          decompress: false,
+          validateStatus: () => true,
+        },
+        instance
+      );
+      const response: AxiosResponse<Readable> = await this.axiosInstance.request(requestConfig);
+      clearTimeout(headersTimer);
+
+      const responseTime = Date.now() - startTime;
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+      metricsCollector.recordServiceCall(
+        this.serviceName,
+        responseTime,
+        response.status >= 500 ? `HTTP ${response.status}` : undefined
+      );
+      observeUpstreamCall(this.serviceName, method, response.status, responseTime);
+      span?.setAttribute('http.status_code', response.status);
+
+      response.data.once('close', () => {
+        cleanUp();
+        span?.end();
+      });
+
+      return {
+        data: response.data,
+        status: response.status,
+        headers: response.headers as Record<string, string>,
+        responseTime,
+      };
+    } catch (error) {
+      cleanUp();
+      const proxyError = timedOut
+        ? new TimeoutError(`Request to ${this.serviceName} timed out`)
+        : (error as ServiceProxyError);
+      span?.setStatus('ERROR', proxyError.message).end();
+
+      // A caller that gave up before any headers arrived says nothing about the
+      // service: free its half-open probe slot without counting a failure
+      if (signal?.aborted && !timedOut) {
+        this.circuitBreaker.release();
+        throw proxyError;
+      }
+
+      // Every other acquired call records an outcome, so a half-open circuit's probe
+      // is never left pending
+      this.circuitBreaker.recordFailure();
+      metricsCollector.recordServiceCall(
+        this.serviceName,
+        Date.now() - startTime,
+        proxyError.message
+      );
+      observeUpstreamCall(this.serviceName, method, undefined, Date.now() - startTime);
+      throw proxyError;
+    }
+  }
+
+  /**
+   * Instances from the service configuration
+   */
+  private getConfiguredInstances(): ServiceInstanceConfig[] {
+    return this.config.instances?.length ? this.config.instances : [{ url: this.config.baseUrl }];
+  }
+
+  /**
+   * Load balancer over the current instances, refreshed when the registry's
+   * instance set for this service has changed
+   */
+  private resolveLoadBalancer(): LoadBalancer {
+    if (this.registry) {
+      const version = this.registry.getVersion(this.serviceName);
+      if (version !== this.registryVersion) {
+        const registered = this.registry.getInstances(this.serviceName);
+        this.loadBalancer.setInstances(
+          registered.length > 0 ? registered : this.getConfiguredInstances()
+        );
+        this.registryVersion = version;
+      }
+    }
+    return this.loadBalancer;
+  }
+
+  /**
+   * Point a request at the picked instance (the axios baseURL already targets
+   * the configured base URL)
+   */
+  private withInstance(
+    requestConfig: AxiosRequestConfig,
+    instance: ServiceInstance
+  ): AxiosRequestConfig {
+    return instance.url !== this.config.baseUrl
+      ? { ...requestConfig, baseURL: instance.url }
+      : requestConfig;
+  }
+
+  /**
+   * Start a client span for one upstream attempt, as a child of the inbound
+   * request's server span (undefined while tracing is disabled)
+   */
+  private startAttemptSpan(
+    method: string,
+    path: string,
+    attempt: number,
+    instance: ServiceInstance
+  ): Span | undefined {
+    const tracer = getTracer();
+    if (!tracer) {
+      return undefined;
+    }
+
+    return tracer
+      .startSpan(`${method.toUpperCase()} ${this.serviceName}`, 'client', getRequestContext()?.traceContext)
+      .setAttribute('peer.service', this.serviceName)
+      .setAttribute('http.method', method.toUpperCase())
+      .setAttribute('http.url', `${instance.url}${path}`)
+      .setAttribute('gateway.attempt', attempt + 1);
   }
 
   /**
@@ -243,13 +646,65 @@ export class ServiceProxy {
   }
 
   /**
-   * Health check for the service
+   * Map a response body of this service onto the gateway's ApiResponse
+   * envelope, using the service's response adapter
    */
-  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; responseTime?: number; error?: string }> {
+  adaptResponse(body: unknown, status: number): ApiResponse {
+    return this.responseAdapter(body, status);
+  }
+
+  /**
+   * Current circuit breaker state for this service
+   */
+  getCircuitState(): CircuitBreakerSnapshot {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  /**
+   * Request statistics for this service
+   */
+  getStats(): ServiceProxyStats {
+    return {
+      inFlightGets: this.inFlightGets.size,
+      coalescedRequests: this.coalescedRequests,
+    };
+  }
+
+  /**
+   * Instances of this service with their weights and requests in flight
+   */
+  getInstances(): ServiceInstance[] {
+    return this.resolveLoadBalancer().getInstances();
+  }
+
+  /**
+   * Pick a healthy instance for a long-lived connection (such as a proxied
+   * WebSocket) and count it as outstanding until the returned release function
+   * is called
+   */
+  acquireInstance(hashKey?: string): { instance: ServiceInstance; release: () => void } {
+    const loadBalancer = this.resolveLoadBalancer();
+    const instance = loadBalancer.pick({
+      ...(hashKey !== undefined ? { key: hashKey } : {}),
+      exclude: healthMonitor.getUnhealthyInstances(this.serviceName),
+    });
+    return { instance, release: loadBalancer.acquire(instance) };
+  }
+
+  /**
+   * Health check for the service, or for one of its instances
+   */
+  async healthCheck(
+    instanceUrl?: string,
+    timeout: number = config.HEALTH_CHECK_TIMEOUT
+  ): Promise<{ status: 'healthy' | 'unhealthy'; responseTime?: number; error?: string }> {
     const startTime = Date.now();
     
     try {
-      await this.axiosInstance.get('/health', { timeout: 5000 });
+      await this.axiosInstance.get('/health', {
+        timeout,
+        ...(instanceUrl && instanceUrl !== this.config.baseUrl ? { baseURL: instanceUrl } : {}),
+      });
       return {
         status: 'healthy',
         responseTime: Date.now() - startTime,
@@ -271,12 +726,31 @@ export function createServiceProxies(): Record<string, ServiceProxy> {
   const proxies: Record<string, ServiceProxy> = {};
 
   for (const [serviceName, serviceConfig] of Object.entries(config.SERVICES)) {
-    proxies[serviceName] = new ServiceProxy(serviceName, serviceConfig);
+    proxies[serviceName] = new ServiceProxy(
+      serviceName,
+      { ...serviceConfig, baseUrl: serviceConfig.url },
+      serviceRegistry
+    );
   }
 
   return proxies;
 }
 
+// Proxies shared by the gateway's routes, health checks and WebSocket proxy
+let sharedProxies: Record<string, ServiceProxy> | null = null;
+
+/**
+ * The gateway's service proxies, created on first use. Everything that calls a
+ * service uses this set, so each service has one load balancer, one map of
+ * coalesced GETs and one set of request stats.
+ */
+export function getServiceProxies(): Record<string, ServiceProxy> {
+  if (!sharedProxies) {
+    sharedProxies = createServiceProxies();
+  }
+  return sharedProxies;
+}
+
 /**
  * Format success response in standard format
  */
@@ -317,6 +791,9 @@ export function formatErrorResponse(
 
 /**
  * Aggregate data from multiple services
+ *
+ * @deprecated Failed calls become null without a trace; use Composition from
+ * `./composition`, which reports every source and fails on required steps
  */
 export async function aggregateServiceData<T = any>(
   requests: Array<{
@@ -345,6 +822,12 @@ export async function aggregateServiceData<T = any>(
 
 /**
  * Enrich data by combining responses from multiple services
+ *
+ * Enrichments whose key the client left out with `?fields=` / `?include=`
+ * are not fetched.
+ *
+ * @deprecated Failed calls are indistinguishable from missing data; use
+ * Composition from `./composition` instead
  */
 export async function enrichData<T extends Record<string, any>>(
   baseData: T,
@@ -356,8 +839,10 @@ export async function enrichData<T extends Record<string, any>>(
   }>
 ): Promise<T> {
   const enrichedData = { ...baseData };
+  const shape = getRequestContext()?.responseShape;
 
-  const promises = enrichments.map(async ({ service, path, params, key }) => {
+  const requested = enrichments.filter(({ key }) => isFieldRequested(shape, String(key)));
+  const promises = requested.map(async ({ service, path, params, key }) => {
     try {
       const response = await service.get(path, params);
       enrichedData[key] = response.data;
@@ -377,6 +862,7 @@ export async function enrichData<T extends Record<string, any>>(
 export default {
   ServiceProxy,
   createServiceProxies,
+  getServiceProxies,
   formatSuccessResponse,
   formatErrorResponse,
   aggregateServiceData,
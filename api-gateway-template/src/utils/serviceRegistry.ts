@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Runtime service registry
+ *
+ * This module tracks the instances of each configured service at runtime.
+ * Instances register through the admin API and must send heartbeats before
+ * their TTL expires, or are listed in a watched registry file (JSON or YAML)
+ * where they stay until removed from it. Service proxies resolve their targets
+ * from the registry on every request; a service without live registrations
+ * keeps using its configured URL(s).
+ *
+ * Example (YAML):
+ * ```yaml
+ * services:
+ *   serviceA:
+ *     - url: http://service-a-1:8080
+ *       weight: 2
+ *     - url: http://service-a-2:8080
+ * ```
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import YAML from 'yaml';
+import config from '../config';
+import { ServiceInstanceConfig } from '../types';
+
+// ===========================
+// TYPES
+// ===========================
+
+/**
+ * Where a registered instance came from
+ */
+export type RegistrationSource = 'api' | 'file';
+
+/**
+ * A registered service instance
+ */
+export interface RegisteredInstance extends ServiceInstanceConfig {
+  id: string;
+  source: RegistrationSource;
+  registeredAt: string;
+  lastHeartbeat: string;
+  /** Epoch milliseconds after which the instance is dropped (undefined for file entries) */
+  expiresAt?: number;
+}
+
+/**
+ * Registration request for one instance
+ */
+export interface InstanceRegistration extends ServiceInstanceConfig {
+  /** Stable instance ID (defaults to the URL, so re-registering is idempotent) */
+  id?: string;
+  /** Time to live without a heartbeat in milliseconds (defaults to the registry TTL) */
+  ttl?: number;
+}
+
+/**
+ * Service registry options
+ */
+export interface ServiceRegistryOptions {
+  /** Default time to live of API registrations (milliseconds) */
+  defaultTtl?: number;
+  /** Clock used for expiry (overridable for tests) */
+  now?: () => number;
+}
+
+// ===========================
+// VALIDATION SCHEMAS
+// ===========================
+
+const fileInstanceSchema = Joi.object({
+  id: Joi.string().optional(),
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .required(),
+  weight: Joi.number().integer().min(1).optional(),
+});
+
+const registryFileSchema = Joi.object({
+  services: Joi.object().pattern(Joi.string(), Joi.array().items(fileInstanceSchema)).default({}),
+});
+
+// ===========================
+// REGISTRY
+// ===========================
+
+/**
+ * Instances of each service, with heartbeat expiry
+ */
+export class ServiceRegistry {
+  private readonly services = new Map<string, Map<string, RegisteredInstance>>();
+  // Bumped whenever a service's instance set changes, so proxies can skip unchanged sets
+  private readonly versions = new Map<string, number>();
+  private readonly defaultTtl: number;
+  private readonly now: () => number;
+
+  constructor(options: ServiceRegistryOptions = {}) {
+    this.defaultTtl = options.defaultTtl ?? config.SERVICE_REGISTRY_TTL;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Add or refresh an instance of a service
+   */
+  register(
+    service: string,
+    registration: InstanceRegistration,
+    source: RegistrationSource = 'api'
+  ): RegisteredInstance {
+    const instances = this.getServiceInstances(service);
+    const id = registration.id ?? registration.url;
+    const previous = instances.get(id);
+    const timestamp = new Date(this.now()).toISOString();
+    const ttl = registration.ttl ?? this.defaultTtl;
+
+    const instance: RegisteredInstance = {
+      id,
+      url: registration.url,
+      ...(registration.weight !== undefined ? { weight: registration.weight } : {}),
+      source,
+      registeredAt: previous?.registeredAt ?? timestamp,
+      lastHeartbeat: timestamp,
+      ...(source === 'api' ? { expiresAt: this.now() + ttl } : {}),
+    };
+
+    instances.set(id, instance);
+    if (previous?.url !== instance.url || previous.weight !== instance.weight) {
+      this.touch(service);
+    }
+    return instance;
+  }
+
+  /**
+   * Extend an instance's lease
+   *
+   * @returns The instance, or undefined when it is not (or no longer) registered
+   */
+  heartbeat(
+    service: string,
+    id: string,
+    ttl: number = this.defaultTtl
+  ): RegisteredInstance | undefined {
+    this.prune(service);
+    const instance = this.services.get(service)?.get(id);
+    if (!instance) {
+      return undefined;
+    }
+
+    instance.lastHeartbeat = new Date(this.now()).toISOString();
+    if (instance.source === 'api') {
+      instance.expiresAt = this.now() + ttl;
+    }
+    return instance;
+  }
+
+  /**
+   * Remove an instance
+   *
+   * @returns Whether the instance was registered
+   */
+  deregister(service: string, id: string): boolean {
+    const removed = this.services.get(service)?.delete(id) ?? false;
+    if (removed) {
+      this.touch(service);
+    }
+    return removed;
+  }
+
+  /**
+   * Live instances of a service
+   */
+  getInstances(service: string): RegisteredInstance[] {
+    this.prune(service);
+    return [...(this.services.get(service)?.values() ?? [])];
+  }
+
+  /**
+   * Live instances of every service with registrations
+   */
+  listServices(): Record<string, RegisteredInstance[]> {
+    const services: Record<string, RegisteredInstance[]> = {};
+    for (const service of this.services.keys()) {
+      services[service] = this.getInstances(service);
+    }
+    return services;
+  }
+
+  /**
+   * Change counter of a service's instance set (after dropping expired instances)
+   */
+  getVersion(service: string): number {
+    this.prune(service);
+    return this.versions.get(service) ?? 0;
+  }
+
+  /**
+   * Replace every file-sourced instance with the contents of a registry file.
+   * A missing file removes them all.
+   *
+   * @throws {Error} If the file cannot be parsed or is invalid
+   */
+  loadFile(filePath: string): void {
+    const resolved = path.resolve(filePath);
+    let services: Record<string, InstanceRegistration[]> = {};
+
+    if (fs.existsSync(resolved)) {
+      const raw = fs.readFileSync(resolved, 'utf8');
+      const extension = path.extname(resolved).toLowerCase();
+      const parsed: unknown =
+        extension === '.yaml' || extension === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+      const result = registryFileSchema.validate(parsed ?? {}, { abortEarly: false });
+      if (result.error) {
+        throw new Error(`Invalid service registry file ${resolved}: ${result.error.message}`);
+      }
+      services = (result.value as { services: Record<string, InstanceRegistration[]> }).services;
+    }
+
+    for (const [service, instances] of this.services) {
+      for (const [id, instance] of instances) {
+        if (instance.source === 'file') {
+          instances.delete(id);
+          this.touch(service);
+        }
+      }
+    }
+
+    for (const [service, instances] of Object.entries(services)) {
+      for (const instance of instances) {
+        this.register(service, instance, 'file');
+      }
+    }
+  }
+
+  /**
+   * Load a registry file now and reload it whenever it changes
+   *
+   * @returns Function that stops watching
+   * @throws {Error} If the initial load fails
+   */
+  watchFile(filePath: string, interval: number = 1000): () => void {
+    this.loadFile(filePath);
+
+    const onChange = (): void => {
+      try {
+        this.loadFile(filePath);
+      } catch (error) {
+        // Keep the previous instances until the file is fixed
+        console.warn('Failed to reload service registry file:', (error as Error).message);
+      }
+    };
+
+    fs.watchFile(filePath, { interval, persistent: false }, onChange);
+    return () => fs.unwatchFile(filePath, onChange);
+  }
+
+  /**
+   * Instances map of a service, created on first use
+   */
+  private getServiceInstances(service: string): Map<string, RegisteredInstance> {
+    let instances = this.services.get(service);
+    if (!instances) {
+      instances = new Map();
+      this.services.set(service, instances);
+    }
+    return instances;
+  }
+
+  /**
+   * Drop instances whose lease has expired
+   */
+  private prune(service: string): void {
+    const instances = this.services.get(service);
+    if (!instances) {
+      return;
+    }
+
+    const now = this.now();
+    for (const [id, instance] of instances) {
+      if (instance.expiresAt !== undefined && instance.expiresAt <= now) {
+        instances.delete(id);
+        this.touch(service);
+      }
+    }
+  }
+
+  /**
+   * Record a change to a service's instance set
+   */
+  private touch(service: string): void {
+    this.versions.set(service, (this.versions.get(service) ?? 0) + 1);
+  }
+}
+
+/**
+ * Registry shared by the admin API and the service proxies
+ */
+export const serviceRegistry = new ServiceRegistry();
+
+export default {
+  ServiceRegistry,
+  serviceRegistry,
+};
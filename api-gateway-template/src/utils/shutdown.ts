@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Graceful shutdown of the HTTP server
+ *
+ * This module drains the gateway before the process exits: readiness starts
+ * failing so the orchestrator stops routing traffic here, the listener stays
+ * open for a pre-stop delay while load balancers catch up, then it is closed,
+ * idle keep-alive connections are dropped and in-flight requests get until a
+ * deadline to finish. Registered cleanup hooks (Redis, tracing, ...) run last,
+ * in registration order.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { Socket } from 'net';
+import config from '../config';
+import { setDraining } from './lifecycle';
+
+/**
+ * Cleanup step run after the server has drained
+ */
+export type ShutdownHook = () => Promise<void> | void;
+
+/**
+ * Shutdown manager options
+ */
+export interface ShutdownOptions {
+  /** Time between failing readiness and closing the listener (milliseconds) */
+  preStopDelay?: number;
+  /** Deadline for in-flight requests once the listener is closed (milliseconds) */
+  timeout?: number;
+}
+
+/**
+ * Tracks connections and requests of a server and shuts it down gracefully
+ */
+export class ShutdownManager {
+  private readonly server: http.Server;
+  private readonly preStopDelay: number;
+  private readonly timeout: number;
+  private readonly hooks: Array<{ name: string; hook: ShutdownHook }> = [];
+  private readonly drainHooks: Array<{ name: string; hook: ShutdownHook }> = [];
+  // Requests in flight on each open connection
+  private readonly connections = new Map<Socket, number>();
+  private closing = false;
+  private shutdownPromise: Promise<void> | undefined;
+  private onDrained: (() => void) | undefined;
+
+  constructor(server: http.Server, options: ShutdownOptions = {}) {
+    this.server = server;
+    this.preStopDelay = options.preStopDelay ?? config.SHUTDOWN_PRE_STOP_DELAY;
+    this.timeout = options.timeout ?? config.SHUTDOWN_TIMEOUT;
+
+    server.on('connection', (socket: Socket) => this.trackConnection(socket));
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) =>
+      this.trackRequest(req.socket, res)
+    );
+  }
+
+  /**
+   * Register a cleanup step. Hooks run in registration order; a failing hook is
+   * logged and does not stop the others.
+   */
+  addHook(name: string, hook: ShutdownHook): this {
+    this.hooks.push({ name, hook });
+    return this;
+  }
+
+  /**
+   * Register a step that runs as soon as the listener is closed, while
+   * in-flight requests drain (e.g. closing upgraded WebSocket connections)
+   */
+  addDrainHook(name: string, hook: ShutdownHook): this {
+    this.drainHooks.push({ name, hook });
+    return this;
+  }
+
+  /**
+   * Stop tracking a connection taken over by another protocol, such as an
+   * upgraded WebSocket. Its owner closes it from a drain hook instead.
+   */
+  releaseConnection(socket: Socket): void {
+    this.connections.delete(socket);
+  }
+
+  /**
+   * Number of requests currently being served
+   */
+  get inFlight(): number {
+    let total = 0;
+    for (const count of this.connections.values()) {
+      total += count;
+    }
+    return total;
+  }
+
+  /**
+   * Whether shutdown has started
+   */
+  isShuttingDown(): boolean {
+    return this.shutdownPromise !== undefined;
+  }
+
+  /**
+   * Drain the server and run the cleanup hooks. Calling it again returns the
+   * shutdown in progress.
+   */
+  shutdown(): Promise<void> {
+    this.shutdownPromise ??= this.drainAndCleanUp();
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Fail readiness, wait out the pre-stop delay, close the listener, await
+   * in-flight requests (and drain hooks) until the deadline, then run the hooks
+   */
+  private async drainAndCleanUp(): Promise<void> {
+    setDraining(true);
+    if (this.preStopDelay > 0) {
+      console.log(`Readiness failing, closing listener in ${this.preStopDelay}ms`);
+      await new Promise(resolve => setTimeout(resolve, this.preStopDelay));
+    }
+
+    this.closing = true;
+    const closed = new Promise<void>(resolve => {
+      this.server.close(() => resolve());
+    });
+    this.closeIdleConnections();
+    const drainHooksDone = this.runHooks(this.drainHooks);
+
+    if (!(await this.waitForRequests())) {
+      console.warn(
+        `Shutdown deadline reached with ${this.inFlight} request(s) in flight, closing connections`
+      );
+      for (const socket of this.connections.keys()) {
+        socket.destroy();
+      }
+    }
+    await drainHooksDone;
+    await closed;
+    await this.runHooks(this.hooks);
+  }
+
+  /**
+   * Run hooks one after another, logging failures
+   */
+  private async runHooks(hooks: Array<{ name: string; hook: ShutdownHook }>): Promise<void> {
+    for (const { name, hook } of hooks) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error(`Shutdown hook "${name}" failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Resolve true once no request is in flight, or false at the deadline
+   */
+  private waitForRequests(): Promise<boolean> {
+    if (this.inFlight === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.onDrained = undefined;
+        resolve(false);
+      }, this.timeout);
+
+      this.onDrained = (): void => {
+        clearTimeout(timer);
+        this.onDrained = undefined;
+        resolve(true);
+      };
+    });
+  }
+
+  /**
+   * Track a new connection until it closes
+   */
+  private trackConnection(socket: Socket): void {
+    this.connections.set(socket, 0);
+    socket.once('close', () => {
+      this.connections.delete(socket);
+      this.checkDrained();
+    });
+  }
+
+  /**
+   * Count a request as in flight on its connection until the response closes.
+   * While closing, the connection is dropped after its last response.
+   */
+  private trackRequest(socket: Socket, res: http.ServerResponse): void {
+    this.connections.set(socket, (this.connections.get(socket) ?? 0) + 1);
+    if (this.closing) {
+      // Requests still arriving on kept-alive connections are served, but the
+      // client is told not to reuse the connection
+      res.setHeader('Connection', 'close');
+    }
+
+    res.once('close', () => {
+      const count = this.connections.get(socket);
+      if (count === undefined) {
+        return;
+      }
+
+      this.connections.set(socket, count - 1);
+      if (this.closing && count === 1) {
+        socket.destroy();
+      }
+      this.checkDrained();
+    });
+  }
+
+  /**
+   * Notify the shutdown in progress once the last request has finished
+   */
+  private checkDrained(): void {
+    if (this.closing && this.inFlight === 0) {
+      this.onDrained?.();
+    }
+  }
+
+  /**
+   * Drop keep-alive connections with no request in flight
+   */
+  private closeIdleConnections(): void {
+    for (const [socket, count] of this.connections) {
+      if (count === 0) {
+        socket.destroy();
+      }
+    }
+  }
+}
+
+export default {
+  ShutdownManager,
+};
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Key/value store abstraction for shared gateway state
+ *
+ * Rate limit counters and cached responses are kept behind the `KeyValueStore`
+ * interface so that several gateway replicas can share them. The in-memory
+ * implementation is used by default; setting STORE_BACKEND=redis switches every
+ * store to a Redis-protocol server (Redis, Valkey, KeyDB, ...).
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import config from '../config';
+import { RedisStore, getSharedRedisClient } from './redisStore';
+
+/**
+ * Minimal key/value store used for rate limiting and response caching
+ *
+ * Values are JSON-serializable. TTLs are in milliseconds; a key without a TTL
+ * never expires (but may still be evicted by a size-capped store).
+ */
+export interface KeyValueStore {
+  /** Backend name reported in diagnostics */
+  readonly backend: string;
+  /** Read a value, or undefined when missing or expired */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  /** Write a value, optionally with a TTL */
+  set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void>;
+  /** Atomically add to a counter, applying the TTL only when the key is created */
+  incr(key: string, amount?: number, ttlMs?: number): Promise<number>;
+  /** Set the TTL of an existing key */
+  expire(key: string, ttlMs: number): Promise<void>;
+  /** Remaining TTL in milliseconds (undefined when missing or without TTL) */
+  ttl(key: string): Promise<number | undefined>;
+  /** Delete a key */
+  del(key: string): Promise<void>;
+  /** Delete every key starting with the prefix, returning the number removed */
+  deleteByPrefix(prefix: string): Promise<number>;
+  /** Number of keys currently held (may be approximate for remote stores) */
+  size(): Promise<number>;
+}
+
+/**
+ * In-memory store options
+ */
+export interface MemoryStoreOptions {
+  /** Maximum number of keys (least recently used keys are evicted beyond this) */
+  maxEntries?: number;
+  /** Clock used for TTLs (injectable for tests) */
+  now?: () => number;
+  /** Milliseconds between sweeps of expired keys (0 disables sweeping) */
+  sweepInterval?: number;
+}
+
+// Default interval between sweeps of expired keys
+const DEFAULT_SWEEP_INTERVAL = 60000;
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+// ===========================
+// IN-MEMORY STORE
+// ===========================
+
+/**
+ * Process-local store with per-key TTL and optional LRU size cap
+ *
+ * Expired keys are dropped when read and by a periodic sweep, so keys that are
+ * never read again (such as the counters of a client that does not come back)
+ * do not stay in memory.
+ */
+export class MemoryStore implements KeyValueStore {
+  readonly backend = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.now = options.now ?? Date.now;
+
+    const sweepInterval = options.sweepInterval ?? DEFAULT_SWEEP_INTERVAL;
+    if (sweepInterval > 0) {
+      // The sweep must not keep the process alive
+      setInterval(() => this.sweep(), sweepInterval).unref();
+    }
+  }
+
+  /**
+   * Drop every expired key
+   *
+   * @returns The number of keys removed
+   */
+  sweep(): number {
+    const time = this.now();
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && time >= entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Look up a live entry, dropping it if expired and refreshing its LRU position
+   */
+  private touch(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && this.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Insert an entry and evict the least recently used keys beyond the cap
+   */
+  private write(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Read a value
+   */
+  get<T = unknown>(key: string): Promise<T | undefined> {
+    return Promise.resolve(this.touch(key)?.value as T | undefined);
+  }
+
+  /**
+   * Write a value
+   */
+  set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.write(key, {
+      value,
+      ...(ttlMs !== undefined && { expiresAt: this.now() + ttlMs }),
+    });
+    return Promise.resolve();
+  }
+
+  /**
+   * Add to a counter
+   */
+  incr(key: string, amount = 1, ttlMs?: number): Promise<number> {
+    const entry = this.touch(key);
+
+    if (entry) {
+      const value = Number(entry.value ?? 0) + amount;
+      entry.value = value;
+      return Promise.resolve(value);
+    }
+
+    this.write(key, {
+      value: amount,
+      ...(ttlMs !== undefined && { expiresAt: this.now() + ttlMs }),
+    });
+    return Promise.resolve(amount);
+  }
+
+  /**
+   * Set the TTL of an existing key
+   */
+  expire(key: string, ttlMs: number): Promise<void> {
+    const entry = this.touch(key);
+    if (entry) {
+      entry.expiresAt = this.now() + ttlMs;
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Remaining TTL in milliseconds
+   */
+  ttl(key: string): Promise<number | undefined> {
+    const entry = this.touch(key);
+    if (entry?.expiresAt === undefined) {
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(entry.expiresAt - this.now());
+  }
+
+  /**
+   * Delete a key
+   */
+  del(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Delete every key starting with the prefix
+   */
+  deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return Promise.resolve(removed);
+  }
+
+  /**
+   * Number of keys held (expired keys are dropped on read or by the next sweep)
+   */
+  size(): Promise<number> {
+    return Promise.resolve(this.entries.size);
+  }
+}
+
+// ===========================
+// STORE FACTORY
+// ===========================
+
+/**
+ * Create a store for one gateway subsystem
+ *
+ * With the memory backend every call returns an independent store. With the
+ * redis backend all stores share one connection and are separated by the
+ * `<STORE_KEY_PREFIX><namespace>:` key prefix.
+ *
+ * @param namespace - Subsystem name, e.g. `cache` or `ratelimit:default`
+ * @param options - Options for the in-memory backend
+ */
+export function createStore(namespace: string, options: MemoryStoreOptions = {}): KeyValueStore {
+  if (config.STORE_BACKEND === 'redis') {
+    return new RedisStore({
+      client: getSharedRedisClient(),
+      prefix: `${config.STORE_KEY_PREFIX}${namespace}:`,
+    });
+  }
+
+  return new MemoryStore(options);
+}
+
+export default {
+  MemoryStore,
+  createStore,
+};
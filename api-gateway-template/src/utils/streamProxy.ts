@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Streaming response passthrough
+ *
+ * This module pipes an upstream response to the client chunk by chunk instead
+ * of buffering it, for Server-Sent Events feeds, long downloads and NDJSON
+ * exports. Upstream status and headers are preserved (hop-by-hop headers
+ * aside), compression and proxy buffering are turned off, a stream that stays
+ * silent longer than the idle timeout is closed (ended for SSE, reset as
+ * incomplete otherwise), and the upstream request is aborted as soon as the
+ * client disconnects.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import { Request, Response } from 'express';
+import compression from 'compression';
+import config from '../config';
+import { ServiceProxy } from './serviceProxy';
+
+// Response headers that describe the upstream connection, not the payload
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+// Request headers a streaming upstream needs to serve the right representation
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'last-event-id',
+  'range',
+  'if-range',
+  'if-none-match',
+  'if-modified-since',
+];
+
+/**
+ * Streaming passthrough options
+ */
+export interface StreamOptions {
+  /** Upstream path */
+  path: string;
+  /** Upstream method (defaults to the inbound method) */
+  method?: string;
+  /** Query parameters (defaults to the inbound query) */
+  params?: Record<string, any>;
+  /** Request body (defaults to the parsed inbound body) */
+  data?: unknown;
+  /** Close the stream after this long without data (milliseconds, 0 disables) */
+  idleTimeout?: number;
+}
+
+// Close functions of the streams currently being piped
+const openStreams = new Set<() => void>();
+
+/**
+ * Whether a response is (or will be) streamed and must not be compressed or buffered
+ */
+export function isStreamingResponse(res: Response): boolean {
+  const contentType = res.getHeader('Content-Type');
+  return (
+    res.locals.streaming === true ||
+    (typeof contentType === 'string' && contentType.startsWith('text/event-stream'))
+  );
+}
+
+/**
+ * Compression filter that leaves streaming responses alone, since compressing
+ * would hold chunks back until the compressor's buffer fills
+ *
+ * @example
+ * ```typescript
+ * app.use(compression({ filter: shouldCompress }));
+ * ```
+ */
+export function shouldCompress(req: Request, res: Response): boolean {
+  return !isStreamingResponse(res) && compression.filter(req, res);
+}
+
+/**
+ * Proxy a request to a service and pipe the upstream response to the client
+ * as it arrives. Resolves once the response headers are sent; errors before
+ * that point are thrown (for the error handler), later upstream failures
+ * abort the client response.
+ *
+ * @example
+ * ```typescript
+ * router.get('/events', asyncHandler((req, res) =>
+ *   pipeUpstreamStream(req, res, serviceProxies.serviceA, { path: '/api/events' })
+ * ));
+ * ```
+ */
+export async function pipeUpstreamStream(
+  req: Request,
+  res: Response,
+  proxy: ServiceProxy,
+  options: StreamOptions
+): Promise<void> {
+  const idleTimeout = options.idleTimeout ?? config.STREAM_IDLE_TIMEOUT;
+  res.locals.streaming = true;
+
+  // Stop the upstream request as soon as the client goes away
+  const controller = new AbortController();
+  const abortUpstream = (): void => controller.abort();
+  res.once('close', abortUpstream);
+
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+
+  let upstream;
+  try {
+    upstream = await proxy.stream(options.method ?? req.method, options.path, {
+      params: options.params ?? (req.query as Record<string, any>),
+      data: options.data ?? (req.body as unknown),
+      headers,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    res.off('close', abortUpstream);
+    if (controller.signal.aborted && res.destroyed) {
+      // The client left before the upstream answered; nobody is waiting for an error
+      return;
+    }
+    throw error;
+  }
+
+  const body = upstream.data;
+  if (res.destroyed) {
+    body.destroy();
+    return;
+  }
+
+  res.status(upstream.status);
+  for (const [name, value] of Object.entries(upstream.headers)) {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name.toLowerCase())) {
+      res.setHeader(name, value);
+    }
+  }
+  if (isStreamingResponse(res)) {
+    res.setHeader('Cache-Control', 'no-cache');
+  }
+  // Ask reverse proxies in front of the gateway (nginx) not to buffer either
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  req.socket.setNoDelay(true);
+
+  let idleTimer: NodeJS.Timeout | undefined;
+  const contentType = res.getHeader('Content-Type');
+  const isEventStream =
+    typeof contentType === 'string' && contentType.startsWith('text/event-stream');
+  const close = (): void => {
+    clearTimeout(idleTimer);
+    body.unpipe(res);
+    body.destroy();
+    // SSE has no framing to complete (clients reconnect); any other body cut
+    // short is reset, so a partial download does not look complete
+    if (isEventStream) {
+      res.end();
+    } else {
+      res.destroy();
+    }
+  };
+  const resetIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    if (idleTimeout > 0) {
+      idleTimer = setTimeout(() => {
+        console.warn(`Stream from ${options.path} idle for ${idleTimeout}ms, closing`);
+        close();
+      }, idleTimeout);
+    }
+  };
+
+  openStreams.add(close);
+  res.once('close', () => {
+    openStreams.delete(close);
+    clearTimeout(idleTimer);
+    body.destroy();
+  });
+  // A stream cut short upstream must not look complete to the client
+  body.once('error', () => res.destroy());
+  body.on('data', resetIdleTimer);
+
+  resetIdleTimer();
+  body.pipe(res);
+}
+
+/**
+ * Close every stream being piped (on shutdown, so long-lived feeds do not hold
+ * the drain until its deadline): SSE feeds end and their clients reconnect
+ * elsewhere, other transfers are reset as incomplete
+ */
+export function closeStreams(): void {
+  for (const close of [...openStreams]) {
+    close();
+  }
+}
+
+/**
+ * Number of streams currently being piped
+ */
+export function getOpenStreamCount(): number {
+  return openStreams.size;
+}
+
+export default {
+  isStreamingResponse,
+  shouldCompress,
+  pipeUpstreamStream,
+  closeStreams,
+  getOpenStreamCount,
+};
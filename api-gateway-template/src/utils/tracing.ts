@@ -0,0 +1,496 @@
+/**
+ * @fileoverview Distributed tracing for the API Gateway
+ *
+ * This module implements W3C Trace Context (`traceparent` / `tracestate`)
+ * propagation and a small span model: the tracing middleware opens a server
+ * span per inbound request and ServiceProxy opens a client span per upstream
+ * attempt (retries included). Finished spans are batched and handed to a
+ * pluggable exporter - JSON lines on the console or in a file, or OTLP/HTTP
+ * JSON for an OpenTelemetry collector.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import config from '../config';
+
+// ===========================
+// TYPES
+// ===========================
+
+/**
+ * Propagated identity of a span (the contents of `traceparent` / `tracestate`)
+ */
+export interface SpanContext {
+  /** 32 lower-case hex characters */
+  traceId: string;
+  /** 16 lower-case hex characters */
+  spanId: string;
+  /** Trace flags; bit 0 is the sampled flag */
+  traceFlags: number;
+  /** Vendor-specific `tracestate` value, passed through unchanged */
+  traceState?: string;
+}
+
+export type SpanKind = 'server' | 'client' | 'internal';
+export type SpanStatusCode = 'UNSET' | 'OK' | 'ERROR';
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Finished span handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: SpanKind;
+  /** Start time in milliseconds since the Unix epoch */
+  startTime: number;
+  /** End time in milliseconds since the Unix epoch */
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: SpanStatusCode; message?: string };
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+// ===========================
+// TRACE CONTEXT HEADERS
+// ===========================
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const SAMPLED_FLAG = 0x01;
+
+/**
+ * Parse inbound `traceparent` / `tracestate` headers
+ *
+ * @returns The remote span context, or undefined when the header is missing or invalid
+ */
+export function parseTraceparent(
+  traceparent: string | undefined,
+  tracestate?: string
+): SpanContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(traceparent?.trim().toLowerCase() ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === 'ff' || (version === '00' && rest)) {
+    return undefined;
+  }
+  if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) {
+    return undefined;
+  }
+
+  return {
+    traceId: traceId!,
+    spanId: spanId!,
+    traceFlags: parseInt(flags!, 16),
+    ...(tracestate && { traceState: tracestate }),
+  };
+}
+
+/**
+ * Format a span context as a version 00 `traceparent` header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = context.traceFlags.toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Outgoing propagation headers for a span context
+ */
+export function getTraceHeaders(context: SpanContext): Record<string, string> {
+  return {
+    traceparent: formatTraceparent(context),
+    ...(context.traceState && { tracestate: context.traceState }),
+  };
+}
+
+/**
+ * Current time in milliseconds since the epoch with sub-millisecond precision
+ */
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+// ===========================
+// SPANS
+// ===========================
+
+/**
+ * A timed operation within a trace
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly kind: SpanKind;
+  readonly parentSpanId: string | undefined;
+  private name: string;
+  private readonly startTime = nowMs();
+  private readonly attributes: Record<string, SpanAttributeValue> = {};
+  private status: SpanData['status'] = { code: 'UNSET' };
+  private ended = false;
+  private readonly onEnd: (span: SpanData) => void;
+
+  constructor(
+    name: string,
+    kind: SpanKind,
+    parent: SpanContext | undefined,
+    onEnd: (span: SpanData) => void
+  ) {
+    this.name = name;
+    this.kind = kind;
+    this.parentSpanId = parent?.spanId;
+    this.onEnd = onEnd;
+    this.context = {
+      traceId: parent?.traceId ?? crypto.randomBytes(16).toString('hex'),
+      spanId: crypto.randomBytes(8).toString('hex'),
+      traceFlags: parent?.traceFlags ?? SAMPLED_FLAG,
+      ...(parent?.traceState && { traceState: parent.traceState }),
+    };
+  }
+
+  /**
+   * Whether the span will be exported (the sampled flag is set)
+   */
+  isRecording(): boolean {
+    return (this.context.traceFlags & SAMPLED_FLAG) === SAMPLED_FLAG;
+  }
+
+  /**
+   * Rename the span (e.g. once the route template is known)
+   */
+  updateName(name: string): this {
+    this.name = name;
+    return this;
+  }
+
+  /**
+   * Set a span attribute
+   */
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * Set the span status
+   */
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message === undefined ? { code } : { code, message };
+    return this;
+  }
+
+  /**
+   * Finish the span and hand it to the tracer (subsequent calls are ignored)
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    if (!this.isRecording()) {
+      return;
+    }
+
+    const endTime = nowMs();
+    this.onEnd({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      ...(this.context.traceState && { traceState: this.context.traceState }),
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime,
+      durationMs: Math.round((endTime - this.startTime) * 1000) / 1000,
+      attributes: { ...this.attributes },
+      status: this.status,
+    });
+  }
+}
+
+// ===========================
+// TRACER
+// ===========================
+
+/**
+ * Tracer options
+ */
+export interface TracerOptions {
+  exporter: SpanExporter;
+  /** Export as soon as this many spans are queued */
+  maxBatchSize?: number;
+  /** Export queued spans at least this often (milliseconds) */
+  flushInterval?: number;
+}
+
+/**
+ * Creates spans and exports finished spans in batches
+ */
+export class Tracer {
+  private readonly exporter: SpanExporter;
+  private readonly maxBatchSize: number;
+  private readonly flushInterval: number;
+  private queue: SpanData[] = [];
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(options: TracerOptions) {
+    this.exporter = options.exporter;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.flushInterval = options.flushInterval ?? 5000;
+  }
+
+  /**
+   * Start a span, continuing the given parent's trace when one is provided
+   */
+  startSpan(name: string, kind: SpanKind, parent?: SpanContext): Span {
+    return new Span(name, kind, parent, span => this.enqueue(span));
+  }
+
+  /**
+   * Queue a finished span, exporting when the batch is full
+   */
+  private enqueue(span: SpanData): void {
+    this.queue.push(span);
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushInterval);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Export every queued span (export failures are logged, never thrown)
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const batch = this.queue;
+    this.queue = [];
+    if (batch.length === 0) {
+      return;
+    }
+
+    try {
+      await this.exporter.export(batch);
+    } catch (error) {
+      console.error(`Failed to export ${batch.length} spans:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Flush remaining spans and release exporter resources
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter.shutdown?.();
+  }
+}
+
+// ===========================
+// EXPORTERS
+// ===========================
+
+/**
+ * Writes each span as one JSON line to stdout, or appends it to a file
+ */
+export class JsonSpanExporter implements SpanExporter {
+  private readonly filePath: string | undefined;
+
+  constructor(options: { filePath?: string } = {}) {
+    this.filePath = options.filePath;
+  }
+
+  /**
+   * Write a batch of spans
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    const lines = spans.map(span => JSON.stringify(span)).join('\n') + '\n';
+
+    if (!this.filePath) {
+      process.stdout.write(lines);
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, lines);
+  }
+}
+
+// OTLP span kinds (SPAN_KIND_INTERNAL = 1, SERVER = 2, CLIENT = 3)
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+// OTLP status codes (STATUS_CODE_UNSET = 0, OK = 1, ERROR = 2)
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { UNSET: 0, OK: 1, ERROR: 2 };
+
+/**
+ * Convert an attribute map to OTLP key/value pairs
+ */
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: value }
+            : { doubleValue: value },
+  }));
+}
+
+/**
+ * Convert milliseconds since the epoch to an OTLP nanosecond timestamp string
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1_000_000n + BigInt(Math.round((ms % 1) * 1e6))).toString();
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private readonly url: string;
+  private readonly serviceName: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeout: number;
+
+  constructor(options: {
+    url: string;
+    serviceName: string;
+    headers?: Record<string, string>;
+    timeout?: number;
+  }) {
+    this.url = options.url;
+    this.serviceName = options.serviceName;
+    this.headers = options.headers ?? {};
+    this.timeout = options.timeout ?? 10000;
+  }
+
+  /**
+   * Build the OTLP `ExportTraceServiceRequest` body for a batch
+   */
+  buildPayload(spans: SpanData[]) {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ 'service.name': this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'api-gateway-template', version: '1.0.0' },
+              spans: spans.map(span => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                ...(span.traceState && { traceState: span.traceState }),
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime),
+                attributes: toOtlpAttributes(span.attributes),
+                status: {
+                  code: OTLP_STATUS_CODE[span.status.code],
+                  ...(span.status.message && { message: span.status.message }),
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * POST a batch of spans to the collector
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    await axios.post(this.url, this.buildPayload(spans), {
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      timeout: this.timeout,
+    });
+  }
+}
+
+// ===========================
+// GATEWAY TRACER
+// ===========================
+
+/**
+ * Build the exporter selected by TRACING_EXPORTER
+ */
+function createExporterFromConfig(): SpanExporter {
+  switch (config.TRACING.exporter) {
+    case 'otlp':
+      return new OtlpHttpSpanExporter({
+        url: config.TRACING.otlpEndpoint,
+        serviceName: config.TRACING.serviceName,
+      });
+    case 'file':
+      return new JsonSpanExporter({ filePath: config.TRACING.filePath });
+    default:
+      return new JsonSpanExporter();
+  }
+}
+
+let activeTracer: Tracer | undefined = config.TRACING.enabled
+  ? new Tracer({ exporter: createExporterFromConfig() })
+  : undefined;
+
+/**
+ * Tracer used by the gateway, or undefined when tracing is disabled
+ */
+export function getTracer(): Tracer | undefined {
+  return activeTracer;
+}
+
+/**
+ * Replace the gateway tracer (pass undefined to disable tracing)
+ */
+export function setTracer(tracer: Tracer | undefined): void {
+  activeTracer = tracer;
+}
+
+/**
+ * Flush and shut down the gateway tracer
+ */
+export async function shutdownTracing(): Promise<void> {
+  await activeTracer?.shutdown();
+}
+
+export default {
+  parseTraceparent,
+  formatTraceparent,
+  getTraceHeaders,
+  Tracer,
+  JsonSpanExporter,
+  OtlpHttpSpanExporter,
+  getTracer,
+  setTracer,
+  shutdownTracing,
+};
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview WebSocket proxying to upstream services
+ *
+ * This module proxies HTTP upgrade requests (plain WebSockets and the Socket.IO
+ * websocket transport) whose path matches a configured prefix to an instance of
+ * the mapped service. Handshakes are authenticated with the gateway's JWT
+ * verifier (bearer header or `access_token` query parameter), tagged with a
+ * correlation ID and subject to global and per-client connection limits. Open
+ * connections are exported as Prometheus metrics and closed with a "going away"
+ * frame when the gateway shuts down.
+ *
+ * @author API Gateway Template
+ * @version 1.0.0
+ */
+
+import http from 'http';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
+import { createProxyMiddleware, RequestHandler } from 'http-proxy-middleware';
+import config, { WebSocketConfig } from '../config';
+import {
+  AppError,
+  AuthenticationError,
+  GatewayError,
+  NotFoundError,
+  RateLimitError,
+  ServiceUnavailableError,
+} from '../errors';
+import { jwtVerifier, JwtVerifier } from './jwt';
+import { isDraining } from './lifecycle';
+import { changeWebSocketConnections, countWebSocketHandshake } from './prometheus';
+import { ServiceProxy } from './serviceProxy';
+
+// Close frames with status 1001 (going away): unmasked towards the client,
+// masked (with a zero key) towards the upstream server as RFC 6455 requires
+const GOING_AWAY_TO_CLIENT = Buffer.from([0x88, 0x02, 0x03, 0xe9]);
+const GOING_AWAY_TO_UPSTREAM = Buffer.from([0x88, 0x82, 0, 0, 0, 0, 0x03, 0xe9]);
+
+/**
+ * WebSocket proxy options (unset limits and routes come from config.WEBSOCKET)
+ */
+export interface WebSocketProxyOptions extends Partial<WebSocketConfig> {
+  /** Service proxies used to pick upstream instances */
+  proxies: Record<string, ServiceProxy>;
+  /** Token verifier (defaults to the one built from config.JWT) */
+  verifier?: JwtVerifier;
+}
+
+/**
+ * One proxied connection
+ */
+interface ProxiedConnection {
+  service: string;
+  clientIp: string;
+  correlationId: string;
+  /** Upstream instance URL */
+  target: string;
+  socket: Duplex;
+  /** Upstream socket, once the upstream has accepted the upgrade */
+  upstream?: Socket;
+  release: () => void;
+}
+
+/**
+ * Proxied connection statistics
+ */
+export interface WebSocketProxyStats {
+  connections: number;
+  byService: Record<string, number>;
+}
+
+/**
+ * Write an error response on a socket whose upgrade is refused, then close it
+ */
+function rejectUpgrade(socket: Duplex, error: AppError): void {
+  if (!socket.writable) {
+    socket.destroy();
+    return;
+  }
+
+  const body = JSON.stringify({
+    success: false,
+    error: { code: error.code, message: error.message },
+    timestamp: new Date().toISOString(),
+  });
+  const head = [
+    `HTTP/1.1 ${error.status} ${http.STATUS_CODES[error.status] ?? ''}`,
+    'Content-Type: application/json',
+    `Content-Length: ${Buffer.byteLength(body)}`,
+    'Connection: close',
+  ];
+  socket.end(`${head.join('\r\n')}\r\n\r\n${body}`);
+}
+
+/**
+ * Proxies upgrade requests to upstream services
+ */
+export class WebSocketProxy {
+  // Path prefixes and their services, longest prefix first
+  private readonly routes: Array<[string, string]>;
+  private readonly authRequired: boolean;
+  private readonly maxConnections: number;
+  private readonly maxConnectionsPerIp: number;
+  private readonly proxies: Record<string, ServiceProxy>;
+  private readonly verifier: JwtVerifier;
+  private readonly connections = new Set<ProxiedConnection>();
+  private readonly connectionsPerIp = new Map<string, number>();
+  // Connection of each upgrade request handed to http-proxy-middleware
+  private readonly pending = new WeakMap<http.IncomingMessage, ProxiedConnection>();
+  private readonly proxy: RequestHandler;
+
+  constructor(options: WebSocketProxyOptions) {
+    this.routes = Object.entries(options.routes ?? config.WEBSOCKET.routes).sort(
+      ([a], [b]) => b.length - a.length
+    );
+    this.authRequired = options.authRequired ?? config.WEBSOCKET.authRequired;
+    this.maxConnections = options.maxConnections ?? config.WEBSOCKET.maxConnections;
+    this.maxConnectionsPerIp = options.maxConnectionsPerIp ?? config.WEBSOCKET.maxConnectionsPerIp;
+    this.proxies = options.proxies;
+    this.verifier = options.verifier ?? jwtVerifier;
+
+    this.proxy = createProxyMiddleware({
+      ws: true,
+      changeOrigin: true,
+      xfwd: true,
+      logLevel: 'silent',
+      router: req => this.pending.get(req)?.target,
+      onProxyReqWs: (proxyReq, req) => {
+        const connection = this.pending.get(req);
+        if (!connection) {
+          return;
+        }
+
+        proxyReq.setHeader('X-Correlation-ID', connection.correlationId);
+        proxyReq.once('upgrade', (_res: http.IncomingMessage, upstream: Socket) => {
+          connection.upstream = upstream;
+          countWebSocketHandshake(connection.service, 'accepted');
+        });
+      },
+      onError: (error, req, res) => this.handleProxyError(error, req, res as unknown as Duplex),
+    });
+  }
+
+  /**
+   * Whether any path prefix is configured
+   */
+  isEnabled(): boolean {
+    return this.routes.length > 0;
+  }
+
+  /**
+   * Service an upgrade request path is routed to
+   */
+  matchService(url: string): string | undefined {
+    const path = url.split('?')[0] ?? '/';
+    return this.routes.find(
+      ([prefix]) => path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+    )?.[1];
+  }
+
+  /**
+   * Authenticate, admit and proxy an upgrade request (the HTTP server's
+   * 'upgrade' event). Refused handshakes are answered with a JSON error.
+   */
+  async handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    // Never let a reset client socket crash the process
+    socket.on('error', () => socket.destroy());
+
+    const service = this.matchService(req.url ?? '/');
+    if (!service) {
+      rejectUpgrade(socket, new NotFoundError(`No WebSocket route for ${req.url ?? '/'}`));
+      return;
+    }
+
+    try {
+      if (isDraining()) {
+        throw new ServiceUnavailableError('Gateway is shutting down');
+      }
+      await this.authenticate(req);
+
+      const proxy = this.proxies[service];
+      if (!proxy) {
+        throw new ServiceUnavailableError(`Service ${service} is not configured`);
+      }
+
+      const clientIp = req.socket.remoteAddress ?? 'unknown';
+      this.checkLimits(clientIp);
+
+      // Hash on the client so consistent-hash services keep a client on one instance
+      const { instance, release } = proxy.acquireInstance(clientIp);
+      const header = req.headers['x-correlation-id'];
+      const connection: ProxiedConnection = {
+        service,
+        clientIp,
+        correlationId:
+          typeof header === 'string' && header
+            ? header
+            : `ws-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        target: instance.url,
+        socket,
+        release,
+      };
+
+      this.open(connection);
+      this.pending.set(req, connection);
+      this.proxy.upgrade?.(req as never, socket as Socket, head);
+    } catch (error) {
+      const appError =
+        error instanceof AppError ? error : new GatewayError('WebSocket handshake failed');
+      countWebSocketHandshake(service, appError.code.toLowerCase());
+      rejectUpgrade(socket, appError);
+    }
+  }
+
+  /**
+   * Close every proxied connection with a "going away" frame. Connections
+   * still open after the timeout are destroyed.
+   */
+  async closeAll(timeout: number = 5000): Promise<void> {
+    const connections = [...this.connections];
+    if (connections.length === 0) {
+      return;
+    }
+
+    const closed = connections.map(
+      connection =>
+        new Promise<void>(resolve => {
+          connection.socket.once('close', () => resolve());
+          this.goAway(connection);
+        })
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        for (const connection of this.connections) {
+          connection.socket.destroy();
+          connection.upstream?.destroy();
+        }
+        resolve();
+      }, timeout);
+    });
+
+    await Promise.race([Promise.all(closed), deadline]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Open connections, in total and per service
+   */
+  getStats(): WebSocketProxyStats {
+    const byService: Record<string, number> = {};
+    for (const { service } of this.connections) {
+      byService[service] = (byService[service] ?? 0) + 1;
+    }
+    return { connections: this.connections.size, byService };
+  }
+
+  /**
+   * Verify the handshake's JWT. Without a token the handshake passes unless
+   * authentication is required; a presented token must always be valid.
+   */
+  private async authenticate(req: http.IncomingMessage): Promise<void> {
+    if (!this.verifier.isEnabled()) {
+      return;
+    }
+
+    const header = req.headers.authorization ?? '';
+    // Browsers cannot set headers on WebSocket handshakes, so accept a query parameter too
+    const token = header.startsWith('Bearer ')
+      ? header.slice(7)
+      : new URL(req.url ?? '/', 'http://gateway').searchParams.get('access_token');
+
+    if (!token) {
+      if (this.authRequired) {
+        throw new AuthenticationError();
+      }
+      return;
+    }
+    await this.verifier.verify(token);
+  }
+
+  /**
+   * Refuse a connection over the global or per-client limit
+   */
+  private checkLimits(clientIp: string): void {
+    if (this.maxConnections > 0 && this.connections.size >= this.maxConnections) {
+      throw new ServiceUnavailableError('WebSocket connection limit reached');
+    }
+    if (
+      this.maxConnectionsPerIp > 0 &&
+      (this.connectionsPerIp.get(clientIp) ?? 0) >= this.maxConnectionsPerIp
+    ) {
+      throw new RateLimitError('Too many WebSocket connections from this client');
+    }
+  }
+
+  /**
+   * Count a connection as open until its client socket closes
+   */
+  private open(connection: ProxiedConnection): void {
+    this.connections.add(connection);
+    this.connectionsPerIp.set(
+      connection.clientIp,
+      (this.connectionsPerIp.get(connection.clientIp) ?? 0) + 1
+    );
+    changeWebSocketConnections(connection.service, 1);
+
+    // A client that hangs up is done with the connection; do not keep it half-open
+    connection.socket.once('end', () => connection.socket.end());
+    connection.socket.once('close', () => {
+      this.connections.delete(connection);
+      const remaining = (this.connectionsPerIp.get(connection.clientIp) ?? 1) - 1;
+      if (remaining > 0) {
+        this.connectionsPerIp.set(connection.clientIp, remaining);
+      } else {
+        this.connectionsPerIp.delete(connection.clientIp);
+      }
+      changeWebSocketConnections(connection.service, -1);
+      connection.release();
+      connection.upstream?.end();
+    });
+  }
+
+  /**
+   * Tell both ends that the gateway is going away and close the connection
+   */
+  private goAway(connection: ProxiedConnection): void {
+    const { socket, upstream } = connection;
+
+    if (upstream) {
+      upstream.unpipe(socket);
+      socket.unpipe(upstream);
+      if (socket.writable) {
+        socket.write(GOING_AWAY_TO_CLIENT);
+      }
+      if (upstream.writable) {
+        upstream.end(GOING_AWAY_TO_UPSTREAM);
+      }
+    }
+    socket.end();
+  }
+
+  /**
+   * Answer a failed upstream connection with 502, or drop an established one
+   */
+  private handleProxyError(error: Error, req: http.IncomingMessage, socket: Duplex): void {
+    const connection = this.pending.get(req);
+    if (connection?.upstream) {
+      socket.destroy();
+      return;
+    }
+
+    const service = connection?.service ?? 'unknown';
+    console.warn(
+      `WebSocket ${connection?.correlationId ?? ''} to ${service} failed:`,
+      error.message
+    );
+    countWebSocketHandshake(service, 'upstream_error');
+    rejectUpgrade(socket, new GatewayError(`Service ${service} refused the WebSocket connection`));
+  }
+}
+
+export default {
+  WebSocketProxy,
+};
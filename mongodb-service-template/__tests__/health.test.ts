@@ -46,6 +46,42 @@ describe('Health Endpoints', () => {
     });
   });
 
+  describe('GET /health/live', () => {
+    it('should report the process as alive', async () => {
+      const response = await request(app).get('/health/live').expect(200);
+
+      expect(response.body).toHaveProperty('status', 'alive');
+      expect(response.body).toHaveProperty('uptime');
+      expect(response.body).not.toHaveProperty('memory');
+    });
+  });
+
+  describe('GET /health/ready', () => {
+    it('should list dependencies with their criticality', async () => {
+      const response = await request(app).get('/health/ready');
+
+      expect([200, 503]).toContain(response.status);
+      expect(response.body.dependencies).toContainEqual(
+        expect.objectContaining({ name: 'mongodb', critical: true })
+      );
+    });
+
+    it('should not be ready before startup has completed', async () => {
+      const response = await request(app).get('/health/ready').expect(503);
+
+      expect(response.body).toHaveProperty('status', 'not_ready');
+      expect(response.body).toHaveProperty('started', false);
+    });
+  });
+
+  describe('GET /health/startup', () => {
+    it('should report startup in progress', async () => {
+      const response = await request(app).get('/health/startup').expect(503);
+
+      expect(response.body).toHaveProperty('status', 'starting');
+    });
+  });
+
   describe('GET /api/status', () => {
     it('should return API status information', async () => {
       const response = await request(app)
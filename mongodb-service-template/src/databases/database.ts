@@ -24,7 +24,7 @@ const NODE_ENV = process.env.NODE_ENV || 'development';
  * Responsibilities:
  * - Establish and monitor a single Mongoose connection
  * - Expose connection status and server stats for health checks
- * - Provide graceful shutdown hooks on SIGINT/SIGTERM
+ * - Provide a disconnect hook for graceful shutdown
  * - Handle reconnection logic in development environments
  */
 class Database {
@@ -89,7 +89,7 @@ class Database {
   }
 
   /**
-   * Attach connection and process event listeners for resiliency.
+   * Attach connection event listeners for resiliency.
    */
   private setupEventListeners(): void {
     mongoose.connection.on('error', (error) => {
@@ -106,15 +106,6 @@ class Database {
       console.log('🔄 MongoDB reconnected');
       this.isConnected = true;
     });
-
-    // Handle process termination
-    process.on('SIGINT', () => {
-      this.disconnect();
-    });
-
-    process.on('SIGTERM', () => {
-      this.disconnect();
-    });
   }
 
   /**
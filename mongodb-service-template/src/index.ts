@@ -27,7 +27,10 @@ import notFound from './middleware/notFound';
 import {
     connectToDatabase,
     disconnectFromDatabase,
+    performHealthCheck,
 } from './databases/database';
+import { markStarted, registerDependency } from './utils/health';
+import { ShutdownManager } from './utils/shutdown';
 
 // Import routes
 import routes from './routes';
@@ -103,6 +106,19 @@ app.use('/api/', limiter);
 // Response helpers
 app.use(responseHelpers);
 
+// ===========================
+// HEALTH DEPENDENCIES
+// ===========================
+
+// The service cannot serve traffic without MongoDB. Register optional
+// dependencies (caches, downstream APIs) with critical: false so that an
+// outage degrades the service without failing readiness.
+registerDependency({
+    name: 'mongodb',
+    critical: true,
+    check: performHealthCheck,
+});
+
 // ===========================
 // ROUTES CONFIGURATION
 // ===========================
@@ -136,6 +152,7 @@ async function startServer(): Promise<void> {
 
         // Start the HTTP server
         server.listen(PORT, () => {
+            markStarted();
             console.log('🚀 MongoDB Service Template started successfully!');
             console.log('='.repeat(50));
             console.log(`📡 Server: http://localhost:${PORT}`);
@@ -145,6 +162,9 @@ async function startServer(): Promise<void> {
             console.log('='.repeat(50));
             console.log('📋 Available endpoints:');
             console.log('  GET  /health              - Health check');
+            console.log('  GET  /health/live         - Liveness probe');
+            console.log('  GET  /health/ready        - Readiness probe');
+            console.log('  GET  /health/startup      - Startup probe');
             console.log('  GET  /api/status          - Service status');
             console.log('  GET  /api-docs            - API documentation');
             console.log('='.repeat(50));
@@ -159,29 +179,27 @@ async function startServer(): Promise<void> {
     }
 }
 
+// Drains in-flight requests before closing the MongoDB connection
+const shutdownManager = new ShutdownManager(server).addHook(
+    'mongodb',
+    disconnectFromDatabase
+);
+
 /**
  * Graceful shutdown handler
+ *
+ * Fails readiness, drains in-flight requests, then runs the cleanup hooks.
+ * A second signal exits immediately.
  */
 async function gracefulShutdown(): Promise<void> {
-    console.log('🛑 Received shutdown signal, starting graceful shutdown...');
-
-    // Close HTTP server
-    server.close((error) => {
-        if (error) {
-            console.error('❌ Error closing HTTP server:', error);
-        } else {
-            console.log('✅ HTTP server closed');
-        }
-    });
-
-    // Close MongoDB connection
-    try {
-        await disconnectFromDatabase();
-        console.log('✅ MongoDB connection closed');
-    } catch (error) {
-        console.error('❌ Error closing MongoDB connection:', error);
+    if (shutdownManager.isShuttingDown()) {
+        console.warn('⚠️  Shutdown already in progress, exiting immediately');
+        process.exit(1);
     }
 
+    console.log('🛑 Received shutdown signal, starting graceful shutdown...');
+    await shutdownManager.shutdown();
+
     console.log('👋 Graceful shutdown completed');
     process.exit(0);
 }
@@ -11,6 +11,12 @@
 import { Router } from 'express';
 import { getDatabaseStatus, performHealthCheck } from '../databases/database';
 import asyncHandler from '../middleware/asyncHandler';
+import {
+  checkDependencies,
+  determineOverallStatus,
+  isDraining,
+  isStarted,
+} from '../utils/health';
 
 const router = Router();
 
@@ -104,6 +110,118 @@ router.get(
   })
 );
 
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     summary: Liveness probe
+ *     description: Returns 200 while the process is responsive. Does not check dependencies, so an outage never gets the service restarted.
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Process is alive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: alive
+ *                 uptime:
+ *                   type: number
+ *                   example: 3600
+ */
+router.get('/health/live', (req, res) => {
+  res.json({ status: 'alive', uptime: process.uptime() });
+});
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     summary: Readiness probe
+ *     description: Returns 200 when the service can serve traffic, i.e. startup has completed, it is not draining and every critical dependency is healthy. Optional dependencies being down only degrade the status.
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Service is ready
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [ready, not_ready]
+ *                   example: ready
+ *                 health:
+ *                   type: string
+ *                   enum: [healthy, degraded, unhealthy]
+ *                   example: healthy
+ *                 started:
+ *                   type: boolean
+ *                 draining:
+ *                   type: boolean
+ *                 dependencies:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: mongodb
+ *                       critical:
+ *                         type: boolean
+ *                         example: true
+ *                       status:
+ *                         type: string
+ *                         enum: [healthy, unhealthy]
+ *       503:
+ *         description: Service is not ready
+ */
+router.get(
+  '/health/ready',
+  asyncHandler(async (req, res) => {
+    const dependencies = await checkDependencies();
+    const health = determineOverallStatus(dependencies);
+    const ready = isStarted() && !isDraining() && health !== 'unhealthy';
+
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ready' : 'not_ready',
+      health,
+      started: isStarted(),
+      draining: isDraining(),
+      dependencies: dependencies.map(({ name, critical, status }) => ({
+        name,
+        critical,
+        status,
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /health/startup:
+ *   get:
+ *     summary: Startup probe
+ *     description: Returns 200 once the database is connected and the server is listening, 503 before that
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Startup has completed
+ *       503:
+ *         description: Service is still starting
+ */
+router.get('/health/startup', (req, res) => {
+  const started = isStarted();
+  res
+    .status(started ? 200 : 503)
+    .json({ status: started ? 'started' : 'starting' });
+});
+
 /**
  * @swagger
  * /api/status:
@@ -185,6 +303,9 @@ router.get('/api/status', (req, res) => {
     ],
     endpoints: [
       'GET /health - Service health check',
+      'GET /health/live - Liveness probe',
+      'GET /health/ready - Readiness probe',
+      'GET /health/startup - Startup probe',
       'GET /api/status - Service status',
       'GET /api-docs - API documentation',
     ],
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Health state and dependency checks
+ *
+ * Tracks the service lifecycle (startup completed, draining for shutdown) and
+ * the dependencies the service needs, each declared critical or optional.
+ * The liveness, readiness and startup probes report from this state.
+ *
+ * @author MongoDB Service Template
+ * @version 1.0.0
+ */
+
+const CHECK_TIMEOUT_MS = parseInt(
+  process.env.HEALTH_CHECK_TIMEOUT_MS || '3000',
+  10
+);
+
+/**
+ * Outcome of checking one dependency
+ */
+export interface DependencyCheckResult {
+  status: 'healthy' | 'unhealthy';
+  details?: unknown;
+}
+
+/**
+ * A dependency the service relies on
+ */
+export interface HealthDependency {
+  name: string;
+  /** The service is not ready while a critical dependency is unhealthy */
+  critical: boolean;
+  check: () => Promise<DependencyCheckResult>;
+}
+
+/**
+ * Result of checking one dependency, with its criticality
+ */
+export interface DependencyHealth extends DependencyCheckResult {
+  name: string;
+  critical: boolean;
+}
+
+const dependencies: HealthDependency[] = [];
+let started = false;
+let draining = false;
+
+/**
+ * Declare a dependency checked by the readiness probe
+ *
+ * @example
+ * ```typescript
+ * registerDependency({ name: 'mongodb', critical: true, check: performHealthCheck });
+ * ```
+ */
+export function registerDependency(dependency: HealthDependency): void {
+  const index = dependencies.findIndex((d) => d.name === dependency.name);
+  if (index >= 0) {
+    dependencies[index] = dependency;
+  } else {
+    dependencies.push(dependency);
+  }
+}
+
+/**
+ * Check every registered dependency in parallel. Checks that throw or take
+ * longer than HEALTH_CHECK_TIMEOUT_MS count as unhealthy.
+ */
+export async function checkDependencies(): Promise<DependencyHealth[]> {
+  return Promise.all(
+    dependencies.map(async ({ name, critical, check }) => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<DependencyCheckResult>((resolve) => {
+        timer = setTimeout(
+          () =>
+            resolve({
+              status: 'unhealthy',
+              details: { error: `Timed out after ${CHECK_TIMEOUT_MS}ms` },
+            }),
+          CHECK_TIMEOUT_MS
+        );
+      });
+
+      try {
+        const result = await Promise.race([check(), timeout]);
+        return { name, critical, ...result };
+      } catch (error) {
+        return {
+          name,
+          critical,
+          status: 'unhealthy' as const,
+          details: {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        };
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+}
+
+/**
+ * Determine the overall status from dependency results
+ *
+ * Unhealthy when a critical dependency is down, degraded when only optional
+ * dependencies are down, healthy otherwise.
+ */
+export function determineOverallStatus(
+  results: DependencyHealth[]
+): 'healthy' | 'degraded' | 'unhealthy' {
+  const down = results.filter((result) => result.status !== 'healthy');
+
+  if (down.some((result) => result.critical)) {
+    return 'unhealthy';
+  }
+  return down.length > 0 ? 'degraded' : 'healthy';
+}
+
+/**
+ * Record that startup has completed (database connected, server listening)
+ */
+export function markStarted(): void {
+  started = true;
+}
+
+/**
+ * Whether startup has completed
+ */
+export function isStarted(): boolean {
+  return started;
+}
+
+/**
+ * Enter or leave draining mode (readiness fails while draining)
+ */
+export function setDraining(value: boolean): void {
+  draining = value;
+}
+
+/**
+ * Whether the service is draining for shutdown
+ */
+export function isDraining(): boolean {
+  return draining;
+}